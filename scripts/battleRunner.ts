@@ -0,0 +1,262 @@
+/**
+ * Batch Battle Runner
+ *
+ * Пакетный запуск битв
+ *
+ * Command-line tool for balance testing. Plays many headless battles between
+ * the given virus builds with the same rules as the game's worker and prints
+ * win rates, average territory curves and turns to victory as JSON or CSV.
+ *
+ * Инструмент командной строки для проверки баланса. Проводит множество битв
+ * между заданными вирусами по тем же правилам, что и воркер игры, и выводит
+ * процент побед, средние кривые территории и число ходов до победы в JSON или CSV.
+ *
+ * Usage: npm run battle-runner -- --builds builds.json [--seeds 1-1000] [--turns 1000]
+ *        [--grid 35x70] [--map scenario.json] [--format json|csv] [--out results.json]
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { BattleMap, VictoryReason, VirusParameters } from '../src/types/game';
+import { BattleBatchSummary, createBattleStatistics, runHeadlessBattle } from '../src/engine/battle';
+import { GridSize } from '../src/utils/grid';
+import { MAX_PLAYERS, MIN_PLAYERS, createEmptyVirus } from '../src/utils/players';
+import { validateParameterAllocation } from '../src/utils/parameterValidation';
+import { importScenario } from '../src/utils/scenarioFile';
+
+interface RunnerOptions {
+  buildsFile: string;
+  seedFrom: number;
+  seedTo: number;
+  turnLimit: number;
+  gridSize: GridSize;
+  mapFile: string | null;
+  format: 'json' | 'csv';
+  outFile: string | null;
+}
+
+interface NamedBuild {
+  name: string;
+  virus: VirusParameters;
+}
+
+interface BattleRecord {
+  seed: number;
+  winner: number | null;
+  reason: VictoryReason | null;
+  turns: number;
+  finalTerritory: number[];
+}
+
+const USAGE = `Usage: npm run battle-runner -- --builds <file> [options]
+
+  --builds <file>     JSON array of 2 to ${MAX_PLAYERS} builds, either VirusParameters objects
+                      or { "name": string, "virus": VirusParameters }; missing parameters are 0
+  --seeds <from-to>   Seed range, inclusive (default 1-100); a single number runs one seed
+  --turns <n>         Turn limit per battle; unfinished battles count as draws (default 1000)
+  --grid <rowsxcols>  Grid size (default 35x70)
+  --map <file>        Scenario file whose battle map every battle starts from, with its
+                      spawn points, territory and terrain; replaces --grid
+  --format json|csv   Output format (default json)
+  --out <file>        Write results to a file instead of stdout
+  --help              Show this message`;
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parsePositiveInteger = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) fail(`${flag} must be a positive integer, got "${value}"`);
+  return parsed;
+};
+
+const parseArgs = (args: string[]): RunnerOptions => {
+  const options: RunnerOptions = {
+    buildsFile: '',
+    seedFrom: 1,
+    seedTo: 100,
+    turnLimit: 1000,
+    gridSize: { rows: 35, cols: 70 },
+    mapFile: null,
+    format: 'json',
+    outFile: null
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    const value = args[++i];
+    if (value === undefined) fail(`${flag} expects a value`);
+
+    switch (flag) {
+      case '--builds':
+        options.buildsFile = value;
+        break;
+      case '--seeds': {
+        const match = /^(\d+)(?:-(\d+))?$/.exec(value);
+        if (!match) fail(`--seeds must look like 1-1000 or 42, got "${value}"`);
+        options.seedFrom = Number(match![1]);
+        options.seedTo = Number(match![2] ?? match![1]);
+        if (options.seedTo < options.seedFrom) fail(`--seeds range is empty: ${value}`);
+        break;
+      }
+      case '--turns':
+        options.turnLimit = parsePositiveInteger(value, '--turns');
+        break;
+      case '--grid': {
+        const match = /^(\d+)x(\d+)$/.exec(value);
+        if (!match) fail(`--grid must look like 35x70, got "${value}"`);
+        options.gridSize = {
+          rows: parsePositiveInteger(match![1], '--grid rows'),
+          cols: parsePositiveInteger(match![2], '--grid cols')
+        };
+        break;
+      }
+      case '--map':
+        options.mapFile = value;
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') fail(`--format must be json or csv, got "${value}"`);
+        options.format = value as RunnerOptions['format'];
+        break;
+      case '--out':
+        options.outFile = value;
+        break;
+      default:
+        fail(`Unknown option ${flag}`);
+    }
+  }
+
+  if (!options.buildsFile) fail('--builds is required');
+  return options;
+};
+
+const loadBuilds = (file: string): NamedBuild[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    return fail(`Cannot read builds from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(data) || data.length < MIN_PLAYERS || data.length > MAX_PLAYERS) {
+    return fail(`${file} must contain an array of ${MIN_PLAYERS} to ${MAX_PLAYERS} builds`);
+  }
+
+  return data.map((entry, index) => {
+    const named = entry && typeof entry === 'object' && 'virus' in entry;
+    const name = named && typeof entry.name === 'string' ? entry.name : `Player ${index + 1}`;
+    const source = (named ? entry.virus : entry) as Record<string, unknown>;
+    const virus = createEmptyVirus();
+
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (!(key in virus)) fail(`${name}: unknown parameter "${key}"`);
+      if (typeof value !== 'number' || !Number.isInteger(value)) fail(`${name}: ${key} must be an integer`);
+      virus[key as keyof VirusParameters] = value as number;
+    }
+
+    const validation = validateParameterAllocation(virus);
+    if (!validation.isValid) fail(`${name}: ${validation.errors.join('; ')}`);
+    return { name, virus };
+  });
+};
+
+const loadBattleMap = (file: string, playerCount: number): BattleMap => {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    return fail(`Cannot read the map from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const { scenario, errors } = importScenario(text);
+  if (!scenario) return fail(`${file} is not a valid scenario: ${errors.join('; ')}`);
+  const { battleMap } = scenario;
+  if (battleMap.spawns.length !== playerCount) {
+    fail(`${file} has ${battleMap.spawns.length} spawn points but ${playerCount} builds were given`);
+  }
+  return battleMap;
+};
+
+const formatJson = (
+  options: RunnerOptions,
+  builds: NamedBuild[],
+  summary: BattleBatchSummary,
+  records: BattleRecord[]
+): string => JSON.stringify({
+  config: {
+    builds,
+    seeds: { from: options.seedFrom, to: options.seedTo },
+    turnLimit: options.turnLimit,
+    gridSize: options.gridSize,
+    map: options.mapFile
+  },
+  summary,
+  battles: records
+}, null, 2);
+
+// Two tables separated by a blank line: per-player results, then the average territory curve
+const formatCsv = (builds: NamedBuild[], summary: BattleBatchSummary): string => {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const lines = ['player,name,wins,winRate,averageTurnsToVictory'];
+  builds.forEach((build, player) => {
+    lines.push([
+      player + 1,
+      escape(build.name),
+      summary.wins[player],
+      summary.winRates[player].toFixed(4),
+      summary.averageTurnsToVictory[player]?.toFixed(1) ?? ''
+    ].join(','));
+  });
+  lines.push(`draws,,${summary.draws},${(summary.battles > 0 ? summary.draws / summary.battles : 0).toFixed(4)},`);
+  lines.push('');
+  lines.push(['turn', ...builds.map(build => escape(build.name))].join(','));
+  summary.averageTerritoryCurve.forEach((shares, turn) => {
+    lines.push([turn + 1, ...shares.map(share => share.toFixed(4))].join(','));
+  });
+  return lines.join('\n');
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const builds = loadBuilds(options.buildsFile);
+  const battleMap = options.mapFile ? loadBattleMap(options.mapFile, builds.length) : null;
+  if (battleMap) options.gridSize = battleMap.gridSize;
+  const statistics = createBattleStatistics(builds.length, options.gridSize, options.turnLimit, battleMap?.terrain ?? null);
+  const records: BattleRecord[] = [];
+  const total = options.seedTo - options.seedFrom + 1;
+  const startedAt = Date.now();
+
+  for (let seed = options.seedFrom; seed <= options.seedTo; seed++) {
+    const result = runHeadlessBattle({
+      builds: builds.map(build => build.virus),
+      gridSize: options.gridSize,
+      seed,
+      turnLimit: options.turnLimit,
+      battleMap
+    });
+    statistics.add(result);
+    records.push({ seed, winner: result.winner, reason: result.reason, turns: result.turns, finalTerritory: result.finalTerritory });
+
+    const done = seed - options.seedFrom + 1;
+    if (done % 10 === 0 || done === total) {
+      process.stderr.write(`\r${done}/${total} battles (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+    }
+  }
+  process.stderr.write('\n');
+
+  const summary = statistics.summary();
+  const output = options.format === 'csv'
+    ? formatCsv(builds, summary)
+    : formatJson(options, builds, summary, records);
+
+  if (options.outFile) {
+    writeFileSync(options.outFile, `${output}\n`);
+    console.error(`Results written to ${options.outFile}`);
+  } else {
+    console.log(output);
+  }
+};
+
+main();
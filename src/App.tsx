@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { GameStateProvider } from './components/GameStateProvider';
 import Game from './components/Game';
 import Sandbox from './components/Sandbox';
+import MapEditor from './components/MapEditor';
 import AnimationSandbox from './components/AnimationSandbox';
 import VisualEffectsSandbox from './components/VisualEffectsSandbox';
 import FullscreenButton from './components/FullscreenButton';
@@ -57,6 +58,7 @@ function App() {
             <Route path="/animations" element={<AnimationSandbox />} />
             <Route path="/vyr_animations" element={<VisualEffectsSandbox />} />
             <Route path="/sandbox" element={<Sandbox />} />
+            <Route path="/editor" element={<MapEditor />} />
             <Route
               path="/"
               element={
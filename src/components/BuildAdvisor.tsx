@@ -0,0 +1,188 @@
+/**
+ * Build Advisor Component
+ *
+ * Компонент советника по сборке
+ *
+ * Lab panel that estimates the selected virus' win rate by running headless
+ * battles in a worker on the current map, against the other players' builds
+ * or a reference pool of AI archetypes, and suggests single-point
+ * reallocations that improve it. Suggestions can be applied to a human
+ * player's build with one click.
+ *
+ * Панель лаборатории, которая оценивает процент побед выбранного вируса,
+ * проводя безголовые битвы в воркере на текущей карте против вирусов других
+ * игроков или эталонного набора архетипов ИИ, и предлагает перенос одного
+ * очка для его улучшения. Предложение можно применить к вирусу игрока одним
+ * нажатием.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useLanguageStore } from '../store/languageStore';
+import { AdvisorProgress, AdvisorReport, REFERENCE_POOL, Reallocation, getGameAdvisorOptions, getGameMatchOptions, isLargeMatchGrid } from '../engine/advisor';
+import { AdvisorWorkerClient, createAdvisorWorkerClient } from '../workers/advisorWorkerClient';
+import { generateSeed } from '../utils/seededRandom';
+import { VirusParameters } from '../types/game';
+
+interface BuildAdvisorProps {
+  playerId: number;
+}
+
+type OpponentSource = 'players' | 'pool';
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const BuildAdvisor: React.FC<BuildAdvisorProps> = ({ playerId }) => {
+  const { gameState, actions } = useGameStore();
+  const { t } = useLanguageStore();
+  const [source, setSource] = useState<OpponentSource>('players');
+  const [progress, setProgress] = useState<AdvisorProgress | null>(null);
+  const [report, setReport] = useState<AdvisorReport | null>(null);
+  const [analysedBuild, setAnalysedBuild] = useState<VirusParameters | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<AdvisorWorkerClient | null>(null);
+
+  const player = gameState.players[playerId];
+  const isRunning = progress !== null;
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    clientRef.current = createAdvisorWorkerClient({
+      onProgress: setProgress,
+      onResult: (result) => {
+        setProgress(null);
+        setReport(result);
+      },
+      onError: (message) => {
+        setProgress(null);
+        setError(message);
+      }
+    });
+    return () => clientRef.current?.cancel();
+  }, []);
+
+  // A report belongs to one player; switching players cancels and clears it
+  useEffect(() => {
+    clientRef.current?.cancel();
+    setProgress(null);
+    setReport(null);
+    setError(null);
+  }, [playerId]);
+
+  if (!player) return null;
+
+  const isLargeMap = isLargeMatchGrid(getGameMatchOptions(gameState).gridSize);
+
+  const isStale = analysedBuild !== null && JSON.stringify(analysedBuild) !== JSON.stringify(player.virus);
+  const canApply = gameState.gameState === 'setup' && player.controller !== 'ai' && !isStale;
+
+  const analyse = () => {
+    if (!clientRef.current) return;
+    const opponents = source === 'pool'
+      ? REFERENCE_POOL
+      : gameState.players.filter(other => other.id !== playerId).map(other => other.virus);
+    setReport(null);
+    setError(null);
+    setAnalysedBuild({ ...player.virus });
+    setProgress({ completed: 0, total: 1 });
+    clientRef.current.run({
+      build: { ...player.virus },
+      opponents,
+      seed: generateSeed(),
+      options: getGameAdvisorOptions(gameState)
+    });
+  };
+
+  const cancel = () => {
+    clientRef.current?.cancel();
+    setProgress(null);
+  };
+
+  const applySuggestion = ({ from, to }: Reallocation) => {
+    if (!canApply) return;
+    actions.setPlayerParameter(playerId, from, player.virus[from] - 1);
+    actions.setPlayerParameter(playerId, to, player.virus[to] + 1);
+  };
+
+  return (
+    <div className="bg-gray-800 bg-opacity-50 rounded-xl p-3 border border-gray-600">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold font-pixy text-sm">{t('aiAdvisor')}</h3>
+        <div className="flex gap-1">
+          {(['players', 'pool'] as OpponentSource[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              disabled={isRunning}
+              className={`px-2 py-1 rounded font-pixy text-xs ${source === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {t(option === 'pool' ? 'advisorReferencePool' : 'advisorOtherPlayers')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isRunning ? (
+        <div className="space-y-2">
+          <div className="w-full bg-gray-700 rounded-full h-2">
+            <div
+              className="h-2 rounded-full bg-blue-500"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between items-center text-xs font-pixy text-gray-300">
+            <span>{t('advisorBattles')} {progress.completed} / {progress.total}</span>
+            <button onClick={cancel} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={analyse}
+          className="w-full py-2 font-pixy border-2 rounded-lg text-sm bg-indigo-600 bg-opacity-70 border-indigo-800 text-white hover:bg-indigo-700"
+        >
+          {t('advisorAnalyse')}
+        </button>
+      )}
+
+      {isLargeMap && <p className="text-gray-400 text-xs mt-2">{t('advisorLargeMap')}</p>}
+
+      {error && <p className="text-red-400 text-xs mt-2 break-words">{error}</p>}
+
+      {report && (
+        <div className="mt-3 text-sm font-pixy space-y-2">
+          <div className="flex justify-between">
+            <span className="text-gray-300">{t('advisorWinRate')}</span>
+            <span>
+              {formatPercent(report.winRate)}
+              <span className="text-gray-400 text-xs"> ({t('draw')} {formatPercent(report.drawRate)}, {report.battles} {t('advisorBattles')})</span>
+            </span>
+          </div>
+          {isStale && <p className="text-yellow-400 text-xs">{t('advisorStale')}</p>}
+          {report.suggestions.length === 0 ? (
+            <p className="text-gray-400 text-xs">{t('advisorNoSuggestions')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {report.suggestions.map(suggestion => (
+                <li key={`${suggestion.from}-${suggestion.to}`} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1">
+                    {t(suggestion.from)} → {t(suggestion.to)}
+                    <span className="text-green-400"> +{formatPercent(suggestion.improvement)}</span>
+                  </span>
+                  {canApply && (
+                    <button
+                      onClick={() => applySuggestion(suggestion)}
+                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+                    >
+                      {t('advisorApply')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BuildAdvisor;
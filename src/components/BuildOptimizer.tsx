@@ -0,0 +1,192 @@
+/**
+ * Build Optimizer Component
+ *
+ * Компонент оптимизатора сборки
+ *
+ * Lab panel that searches for the best 16-point build against the other
+ * players' builds or the reference pool of AI archetypes. The search runs in
+ * a worker and starts from the selected virus; the best build found so far is
+ * shown as it improves, and the final one can be applied to a human player
+ * with one click.
+ *
+ * Панель лаборатории, которая ищет лучшую сборку на 16 очков против вирусов
+ * других игроков или эталонного набора архетипов ИИ. Поиск выполняется в
+ * воркере и начинается с выбранного вируса; лучшая найденная сборка
+ * показывается по мере улучшения, а итоговую можно применить к вирусу игрока
+ * одним нажатием.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useLanguageStore } from '../store/languageStore';
+import { REFERENCE_POOL, getGameMatchOptions, isLargeMatchGrid } from '../engine/advisor';
+import { OptimizerProgress, OptimizerResult, getGameOptimizerOptions } from '../engine/optimizer';
+import { OptimizerWorkerClient, createOptimizerWorkerClient } from '../workers/optimizerWorkerClient';
+import { generateSeed } from '../utils/seededRandom';
+import { VirusParameters } from '../types/game';
+
+interface BuildOptimizerProps {
+  playerId: number;
+}
+
+type OpponentSource = 'players' | 'pool';
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const BuildOptimizer: React.FC<BuildOptimizerProps> = ({ playerId }) => {
+  const { gameState, actions } = useGameStore();
+  const { t } = useLanguageStore();
+  const [source, setSource] = useState<OpponentSource>('players');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<OptimizerWorkerClient | null>(null);
+
+  const player = gameState.players[playerId];
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    clientRef.current = createOptimizerWorkerClient({
+      onProgress: setProgress,
+      onResult: (found) => {
+        setIsRunning(false);
+        setProgress(null);
+        setResult(found);
+      },
+      onError: (message) => {
+        setIsRunning(false);
+        setProgress(null);
+        setError(message);
+      }
+    });
+    return () => clientRef.current?.cancel();
+  }, []);
+
+  // A search belongs to one player; switching players cancels and clears it
+  useEffect(() => {
+    clientRef.current?.cancel();
+    setIsRunning(false);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+  }, [playerId]);
+
+  if (!player) return null;
+
+  const isLargeMap = isLargeMatchGrid(getGameMatchOptions(gameState).gridSize);
+
+  const canApply = gameState.gameState === 'setup' && player.controller !== 'ai';
+  const best = progress?.best ?? result?.best ?? null;
+  const fitness = progress?.fitness ?? result?.fitness ?? 0;
+  const isApplied = result !== null && JSON.stringify(result.best) === JSON.stringify(player.virus);
+
+  const optimize = () => {
+    if (!clientRef.current) return;
+    const opponents = source === 'pool'
+      ? REFERENCE_POOL
+      : gameState.players.filter(other => other.id !== playerId).map(other => other.virus);
+    setResult(null);
+    setError(null);
+    setIsRunning(true);
+    clientRef.current.run({
+      build: { ...player.virus },
+      opponents,
+      seed: generateSeed(),
+      options: getGameOptimizerOptions(gameState)
+    });
+  };
+
+  const cancel = () => {
+    clientRef.current?.cancel();
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const applyBest = () => {
+    if (!canApply || !result) return;
+    actions.setPlayerVirus(playerId, result.best);
+  };
+
+  const funded = best
+    ? (Object.keys(best) as (keyof VirusParameters)[]).filter(parameter => best[parameter] > 0)
+    : [];
+
+  return (
+    <div className="bg-gray-800 bg-opacity-50 rounded-xl p-3 border border-gray-600">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold font-pixy text-sm">{t('parameterOptimization')}</h3>
+        <div className="flex gap-1">
+          {(['players', 'pool'] as OpponentSource[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              disabled={isRunning}
+              className={`px-2 py-1 rounded font-pixy text-xs ${source === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {t(option === 'pool' ? 'advisorReferencePool' : 'advisorOtherPlayers')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isRunning ? (
+        <div className="space-y-2">
+          <div className="w-full bg-gray-700 rounded-full h-2">
+            <div
+              className="h-2 rounded-full bg-purple-500"
+              style={{ width: `${progress ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="flex justify-between items-center text-xs font-pixy text-gray-300">
+            <span>
+              {progress && `${t('optimizerGeneration')} ${progress.generation} · ${t('advisorBattles')} ${progress.completed} / ${progress.total}`}
+            </span>
+            <button onClick={cancel} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">{t('cancel')}</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={optimize}
+          className="w-full py-2 font-pixy border-2 rounded-lg text-sm bg-purple-600 bg-opacity-70 border-purple-800 text-white hover:bg-purple-700"
+        >
+          {t('optimizerRun')}
+        </button>
+      )}
+
+      {isLargeMap && <p className="text-gray-400 text-xs mt-2">{t('advisorLargeMap')}</p>}
+
+      {error && <p className="text-red-400 text-xs mt-2 break-words">{error}</p>}
+
+      {best && (
+        <div className="mt-3 text-sm font-pixy space-y-2">
+          <div className="flex justify-between" title={t('optimizerScoreHint')}>
+            <span className="text-gray-300">{t('optimizerScore')}</span>
+            <span>
+              {formatPercent(fitness)}
+              {result && (
+                <span className="text-gray-400 text-xs"> ({t('optimizerInitialScore')} {formatPercent(result.initialFitness)})</span>
+              )}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1 text-xs">
+            {funded.map(parameter => (
+              <span key={parameter} className="px-2 py-0.5 bg-gray-700 rounded">
+                {t(parameter)} {best[parameter]}
+              </span>
+            ))}
+          </div>
+          {result && canApply && !isApplied && (
+            <button
+              onClick={applyBest}
+              className="w-full py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+            >
+              {t('optimizerApply')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BuildOptimizer;
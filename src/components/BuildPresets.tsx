@@ -0,0 +1,172 @@
+/**
+ * Build Presets Component
+ *
+ * Компонент шаблонов сборок
+ *
+ * Lab panel for the build preset library: saves the selected virus under a
+ * name, loads built-in archetypes and saved presets into any human player's
+ * slot, and exports or imports builds as short shareable codes.
+ *
+ * Панель лаборатории для библиотеки шаблонов: сохраняет выбранный вирус под
+ * именем, загружает встроенные архетипы и сохраненные шаблоны в слот любого
+ * игрока-человека, а также экспортирует и импортирует сборки короткими кодами.
+ */
+import React, { useEffect, useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useLanguageStore } from '../store/languageStore';
+import { VirusParameters } from '../types/game';
+import {
+  BUILT_IN_PRESETS,
+  BuildPreset,
+  MAX_PRESET_NAME_LENGTH,
+  decodeBuildCode,
+  deletePreset,
+  encodeBuildCode,
+  loadPresets,
+  savePreset
+} from '../utils/buildPresets';
+
+interface BuildPresetsProps {
+  playerId: number;
+}
+
+const BuildPresets: React.FC<BuildPresetsProps> = ({ playerId }) => {
+  const { gameState, actions } = useGameStore();
+  const { t } = useLanguageStore();
+  const [presets, setPresets] = useState<BuildPreset[]>(() => loadPresets());
+  const [targetId, setTargetId] = useState(playerId);
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Loading goes to the selected player unless another slot is picked
+  useEffect(() => {
+    setTargetId(playerId);
+  }, [playerId]);
+
+  const player = gameState.players[playerId];
+  if (!player) return null;
+
+  const target = gameState.players[targetId];
+  const canLoad = gameState.gameState === 'setup' && target?.controller !== 'ai' && !target?.buildLocked;
+
+  const loadInto = (virus: VirusParameters) => {
+    if (!canLoad) return;
+    actions.setPlayerVirus(targetId, virus);
+  };
+
+  const save = () => {
+    if (!savePreset(name, player.virus)) {
+      setError(t('presetSaveFailed'));
+      return;
+    }
+    setPresets(loadPresets());
+    setName('');
+    setError(null);
+  };
+
+  const remove = (presetName: string) => {
+    deletePreset(presetName);
+    setPresets(loadPresets());
+  };
+
+  const exportCode = () => {
+    const exported = encodeBuildCode(player.virus);
+    setCode(exported);
+    setError(null);
+    navigator.clipboard?.writeText(exported).catch(() => undefined);
+  };
+
+  const importCode = () => {
+    const { virus, error: importError } = decodeBuildCode(code);
+    if (!virus) {
+      setError(importError);
+      return;
+    }
+    setError(null);
+    loadInto(virus);
+  };
+
+  return (
+    <div className="bg-gray-800 bg-opacity-50 rounded-xl p-3 border border-gray-600 text-sm font-pixy space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-sm">{t('buildPresets')}</h3>
+        <label className="flex items-center gap-1 text-xs text-gray-300">
+          {t('presetLoadInto')}
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(Number(e.target.value))}
+            className="bg-gray-700 rounded px-1 py-0.5"
+          >
+            {gameState.players.map(other => (
+              <option key={other.id} value={other.id} disabled={other.controller === 'ai' || other.buildLocked}>{other.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {[...BUILT_IN_PRESETS, ...presets].map(preset => (
+          <span key={`${preset.builtIn}-${preset.name}`} className="flex items-center bg-gray-700 rounded text-xs">
+            <button
+              onClick={() => loadInto(preset.virus)}
+              disabled={!canLoad}
+              className="px-2 py-1 hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              {preset.builtIn ? `🤖 ${t(preset.name)}` : preset.name}
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() => remove(preset.name)}
+                title={t('presetDelete')}
+                className="px-1 py-1 text-gray-400 hover:text-red-400"
+              >
+                ✕
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          placeholder={t('presetName')}
+          className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-1 text-xs"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+        >
+          {t('save')}
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={t('buildCode')}
+          className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-1 text-xs font-mono"
+        />
+        <button onClick={exportCode} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs">
+          {t('buildCodeExport')}
+        </button>
+        <button
+          onClick={importCode}
+          disabled={!canLoad || !code.trim()}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+        >
+          {t('buildCodeImport')}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-xs break-words">{error}</p>}
+    </div>
+  );
+};
+
+export default BuildPresets;
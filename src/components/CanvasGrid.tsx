@@ -13,6 +13,10 @@
  */
 import React, { useEffect, useRef, useState } from 'react';
 import { useGameStore } from '../store/gameStore';
+import { PLAYER_COLORS } from '../utils/players';
+import { MAX_CELL_GROWTH } from '../utils/grid';
+import { drawTerrainCell, getTerrainAt } from '../utils/terrain';
+import { getColumnPosition, getLayoutWidth } from '../utils/topology';
 
 const CanvasGrid: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -133,28 +137,29 @@ const CanvasGrid: React.FC = () => {
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width / devicePixelRatio, canvas.height / devicePixelRatio);
 
-    // Вычисляем размеры ячеек на основе размера сетки
-    // Используем сетку 70x35 (70 столбцов, 35 строк)
-    // Calculate cell dimensions based on grid size
-    // Using 70x35 grid (70 columns, 35 rows)
-    const cols = 70;
-    const rows = 35;
+    // Вычисляем размеры ячеек на основе размера сетки из настроек игры
+    // Calculate cell dimensions based on the grid size from the game settings
+    const { rows, cols } = gameState.settings.gridSize;
+    const { topology } = gameState.settings;
 
     // Вычисляем размеры ячеек для заполнения доступного пространства
     // Используем разные размеры для ширины и высоты, чтобы устранить пустое пространство
     // Calculate cell dimensions to fill the available space
     // Use different sizes for width and height to eliminate empty space
     const maxCellSize = 32;
-    const cellWidth = Math.min(maxCellSize, displayWidth / cols);
+    const cellWidth = Math.min(maxCellSize, displayWidth / getLayoutWidth(topology, cols));
     const cellHeight = Math.min(maxCellSize, displayHeight / rows);
 
     // Вычисляем позицию для выравнивания сетки на холсте
     // Calculate position to align the grid in the canvas
-    const totalGridWidth = cellWidth * cols;
+    const totalGridWidth = cellWidth * getLayoutWidth(topology, cols);
     const totalGridHeight = cellHeight * rows;
     const offsetX = Math.max(0, (displayWidth - totalGridWidth) / 2);
     const offsetY = Math.max(0, (displayHeight - totalGridHeight) / 2);
 
+    // Left edge of a cell; odd hex rows are shifted half a cell
+    const getCellX = (row: number, col: number) => offsetX + getColumnPosition(topology, row, col) * cellWidth;
+
     // Create a seed-based random function for consistent organic shapes
     const randomSeed = (row: number, col: number) => {
       const seed = row * 1000 + col; // Simple seed based on position
@@ -169,6 +174,16 @@ const CanvasGrid: React.FC = () => {
     // Precompute time factor to avoid repeated Date.now() calls
     const timeFactor = Date.now() * 0.002; // Slow animation
 
+    // Terrain goes under the cells
+    if (gameState.terrain) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          drawTerrainCell(ctx, getTerrainAt(gameState.terrain, row, col),
+            getCellX(row, col), offsetY + row * cellHeight, cellWidth, cellHeight);
+        }
+      }
+    }
+
     // Draw grid
     for (let row = 0; row < rows; row++) {
       // Precompute row-based values to avoid repeated calculations
@@ -177,26 +192,22 @@ const CanvasGrid: React.FC = () => {
       const timeRowFactor2 = timeFactor * 2 + randomSeed(row * 200, 0) * 100;
 
       for (let col = 0; col < cols; col++) {
-        // Get cell owner from 2D grid
-        const owner = gameState.grid[row]?.[col] ?? null;
-        if (owner !== null) {
+        // Get cell from 2D grid
+        const cell = gameState.grid[row]?.[col];
+        const owner = cell?.owner ?? null;
+        if (cell && owner !== null) {
           // Get player data for parameter effects
           const player = gameState.players[owner];
           const virusParams = player?.virus || {};
 
-          // Calculate cell lifetime
-          const birthTurn = gameState.cellAge?.[row]?.[col] ?? -1;
-          const lifetime = birthTurn >= 0 ? gameState.turn - birthTurn : 0;
+          // Cell strength drives its shape, from organic blobs to solid squares
+          const growth = Math.min(cell.growth, MAX_CELL_GROWTH);
 
           // Set color based on owner
-          let color = 'rgba(239, 68, 68, 0.5)'; // Default to Player 1 - Red with 50% transparency
-          if (owner === 0) color = 'rgba(239, 68, 68, 0.5)'; // Player 1 - Red with 50% transparency
-          else if (owner === 1) color = '#3B82F6'; // Player 2 - Blue
-          else if (owner === 2) color = '#10B981'; // Player 3 - Green
-          else if (owner === 3) color = '#F59E0B'; // Player 4 - Yellow
+          const color = player?.color ?? PLAYER_COLORS[owner % PLAYER_COLORS.length];
 
           // Calculate position and dimensions
-          const centerX = offsetX + col * cellWidth + cellWidth / 2;
+          const centerX = getCellX(row, col) + cellWidth / 2;
 
           // Add subtle position randomness for organic look (consistent per cell)
           const positionRandomness = 0.1; // 10% variation
@@ -211,13 +222,13 @@ const CanvasGrid: React.FC = () => {
           // Use a position-based seed instead of row+col to avoid diagonal patterns
           const breathingFactor = 1 + 0.05 * Math.sin(timeRowFactor + randomSeed(row * 100, col * 100) * 100); // Unique phase per cell
 
-          // Determine shape based on lifetime
+          // Determine shape based on growth
           let width = (cellWidth * 0.4) * sizeVariation * breathingFactor;
           let height = (cellHeight * 0.4) * sizeVariation * breathingFactor;
           let cornerRadius = 0;
 
-          if (lifetime < 10) {
-            // Young cells: fully organic ellipses (current behavior)
+          if (growth < 3) {
+            // Weak cells: fully organic ellipses
             ctx.beginPath();
             ctx.ellipse(
               centerX + variationX,
@@ -228,15 +239,15 @@ const CanvasGrid: React.FC = () => {
               0, // start angle
               2 * Math.PI // end angle
             );
-          } else if (lifetime < 50) {
-            // Mature cells: smoothly transition to rounded rectangles
-            const transitionFactor = (lifetime - 10) / 40; // 0 to 1
+          } else if (growth < MAX_CELL_GROWTH) {
+            // Growing cells: smoothly transition to rounded rectangles
+            const transitionFactor = (growth - 3) / (MAX_CELL_GROWTH - 3); // 0 to 1
             cornerRadius = 5 + 10 * transitionFactor; // 5px to 15px
             // Draw rounded rectangle
             ctx.beginPath();
             roundedRect(ctx, centerX + variationX - width, centerY + variationY - height, width * 2, height * 2, cornerRadius);
           } else {
-            // Old cells: near-perfect squares with minimal corner radius
+            // Fully grown cells: near-perfect squares with minimal corner radius
             cornerRadius = 2; // 2px corner radius
             // Draw square
             ctx.beginPath();
@@ -251,7 +262,8 @@ const CanvasGrid: React.FC = () => {
             const r = Math.min(255, Math.floor(colorComponents.r * pulseFactor));
             const g = Math.min(255, Math.floor(colorComponents.g * pulseFactor));
             const b = Math.min(255, Math.floor(colorComponents.b * pulseFactor));
-            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            // Dormant cells are dimmed
+            ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${cell.latency ? 0.6 : 1})`;
           } else {
             ctx.fillStyle = color;
           }
@@ -331,7 +343,7 @@ const CanvasGrid: React.FC = () => {
           // Empty cell - draw a very subtle dot to indicate grid positions
           ctx.beginPath();
           ctx.arc(
-            offsetX + col * cellWidth + cellWidth / 2,
+            getCellX(row, col) + cellWidth / 2,
             centerY,
             1, 0, 2 * Math.PI
           );
@@ -368,19 +380,19 @@ const CanvasGrid: React.FC = () => {
     // Draw viral storms where different viruses meet
     for (let row = 1; row < rows - 1; row++) {
       for (let col = 1; col < cols - 1; col++) {
-        const centerOwner = gameState.grid[row][col];
+        const centerOwner = gameState.grid[row][col].owner;
         if (centerOwner !== null) {
           // Check adjacent cells for different owners (potential conflict zones)
           const adjacentOwners = [
-            gameState.grid[row - 1][col], // top
-            gameState.grid[row + 1][col], // bottom
-            gameState.grid[row][col - 1], // left
-            gameState.grid[row][col + 1]  // right
+            gameState.grid[row - 1][col].owner, // top
+            gameState.grid[row + 1][col].owner, // bottom
+            gameState.grid[row][col - 1].owner, // left
+            gameState.grid[row][col + 1].owner  // right
           ];
           // If there's a different owner adjacent, create a "storm" effect
           const hasConflict = adjacentOwners.some(owner => owner !== null && owner !== centerOwner);
           if (hasConflict) {
-            const centerX = offsetX + col * cellWidth + cellWidth / 2;
+            const centerX = getCellX(row, col) + cellWidth / 2;
             const centerY = offsetY + row * cellHeight + cellHeight / 2;
             // Draw storm particles based on quality setting
             for (let i = 0; i < stormParticleCount; i++) {
@@ -408,7 +420,7 @@ const CanvasGrid: React.FC = () => {
 
     for (let row = viewStartRow; row < viewEndRow; row++) {
       for (let col = viewStartCol; col < viewEndCol; col++) {
-        const owner = gameState.grid[row][col];
+        const owner = gameState.grid[row][col].owner;
         if (owner !== null) {
           // Look for nearby cells of the same owner to connect
           for (let dRow = -2; dRow <= 2; dRow++) {
@@ -416,11 +428,11 @@ const CanvasGrid: React.FC = () => {
               if (dRow === 0 && dCol === 0) continue; // Skip self
               if (row + dRow < 0 || row + dRow >= rows) continue;
               if (col + dCol < 0 || col + dCol >= cols) continue;
-              const otherOwner = gameState.grid[row + dRow][col + dCol];
+              const otherOwner = gameState.grid[row + dRow][col + dCol].owner;
               if (otherOwner === owner && Math.random() < connectionStrength) {
-                const x1 = offsetX + col * cellWidth + cellWidth / 2;
+                const x1 = getCellX(row, col) + cellWidth / 2;
                 const y1 = offsetY + row * cellHeight + cellHeight / 2;
-                const x2 = offsetX + (col + dCol) * cellWidth + cellWidth / 2;
+                const x2 = getCellX(row + dRow, col + dCol) + cellWidth / 2;
                 const y2 = offsetY + (row + dRow) * cellHeight + cellHeight / 2;
                 // Only draw connection if it's within the visible area
                 if (
@@ -448,16 +460,16 @@ const CanvasGrid: React.FC = () => {
     const energyTime = Date.now() * 0.0005;
     for (let row = 0; row < rows - 1; row++) {
       for (let col = 0; col < cols - 1; col++) {
-        const owner = gameState.grid[row][col];
+        const owner = gameState.grid[row][col].owner;
         if (owner !== null && Math.random() < energyFlowFrequency) {
           const directions = [[0, 1], [1, 0], [0, -1], [-1, 0]];
           const [dRow, dCol] = directions[Math.floor(Math.random() * directions.length)];
           const targetRow = row + dRow;
           const targetCol = col + dCol;
           if (targetRow >= 0 && targetRow < rows && targetCol >= 0 && targetCol < cols) {
-            const startX = offsetX + col * cellWidth + cellWidth / 2;
+            const startX = getCellX(row, col) + cellWidth / 2;
             const startY = offsetY + row * cellHeight + cellHeight / 2;
-            const endX = offsetX + targetCol * cellWidth + cellWidth / 2;
+            const endX = getCellX(targetRow, targetCol) + cellWidth / 2;
             const endY = offsetY + targetRow * cellHeight + cellHeight / 2;
             const progress = (energyTime % 1);
             const particleX = startX + (endX - startX) * progress;
@@ -498,9 +510,9 @@ const CanvasGrid: React.FC = () => {
           // Check if effect is within visible area
           let isVisible = false;
           if (effect.type === 'attack' && effect.from && effect.to) {
-            const startX = offsetX + effect.from.col * cellWidth + cellWidth / 2;
+            const startX = getCellX(effect.from.row, effect.from.col) + cellWidth / 2;
             const startY = offsetY + effect.from.row * cellHeight + cellHeight / 2;
-            const endX = offsetX + effect.to.col * cellWidth + cellWidth / 2;
+            const endX = getCellX(effect.to.row, effect.to.col) + cellWidth / 2;
             const endY = offsetY + effect.to.row * cellHeight + cellHeight / 2;
             // Check if either start or end point is within canvas bounds
             isVisible = (
@@ -508,26 +520,26 @@ const CanvasGrid: React.FC = () => {
               (endX >= 0 && endX <= displayWidth && endY >= 0 && endY <= displayHeight)
             );
           } else if (effect.type === 'expansionSource') {
-            const sourceX = offsetX + effect.position.x * cellWidth + cellWidth / 2;
+            const sourceX = getCellX(effect.position.y, effect.position.x) + cellWidth / 2;
             const sourceY = offsetY + effect.position.y * cellHeight + cellHeight / 2;
             isVisible = (sourceX >= 0 && sourceX <= displayWidth && sourceY >= 0 && sourceY <= displayHeight);
           } else if (effect.type === 'expansionPath' && effect.from && effect.to) {
-            const pathStartX = offsetX + effect.from.col * cellWidth + cellWidth / 2;
+            const pathStartX = getCellX(effect.from.row, effect.from.col) + cellWidth / 2;
             const pathStartY = offsetY + effect.from.row * cellHeight + cellHeight / 2;
-            const pathEndX = offsetX + effect.to.col * cellWidth + cellWidth / 2;
+            const pathEndX = getCellX(effect.to.row, effect.to.col) + cellWidth / 2;
             const pathEndY = offsetY + effect.to.row * cellHeight + cellHeight / 2;
             isVisible = (
               (pathStartX >= 0 && pathStartX <= displayWidth && pathStartY >= 0 && pathStartY <= displayHeight) ||
               (pathEndX >= 0 && pathEndX <= displayWidth && pathEndY >= 0 && pathEndY <= displayHeight)
             );
           } else if (effect.type === 'expansionTarget') {
-            const targetX = offsetX + effect.position.x * cellWidth + cellWidth / 2;
+            const targetX = getCellX(effect.position.y, effect.position.x) + cellWidth / 2;
             const targetY = offsetY + effect.position.y * cellHeight + cellHeight / 2;
             isVisible = (targetX >= 0 && targetX <= displayWidth && targetY >= 0 && targetY <= displayHeight);
           } else {
             // For other effect types, check if position is visible
             if (effect.position) {
-              const x = offsetX + effect.position.x * cellWidth + cellWidth / 2;
+              const x = getCellX(effect.position.y, effect.position.x) + cellWidth / 2;
               const y = offsetY + effect.position.y * cellHeight + cellHeight / 2;
               isVisible = (x >= 0 && x <= displayWidth && y >= 0 && y <= displayHeight);
             }
@@ -555,9 +567,9 @@ const CanvasGrid: React.FC = () => {
         const { effect, progress } = visibleEffects[i];
 
         if (effect.type === 'attack' && effect.from && effect.to) {
-          const startX = offsetX + effect.from.col * cellWidth + cellWidth / 2;
+          const startX = getCellX(effect.from.row, effect.from.col) + cellWidth / 2;
           const startY = offsetY + effect.from.row * cellHeight + cellHeight / 2;
-          const endX = offsetX + effect.to.col * cellWidth + cellWidth / 2;
+          const endX = getCellX(effect.to.row, effect.to.col) + cellWidth / 2;
           const endY = offsetY + effect.to.row * cellHeight + cellHeight / 2;
           ctx.beginPath();
           ctx.moveTo(startX, startY);
@@ -581,7 +593,7 @@ const CanvasGrid: React.FC = () => {
         }
       }
     }
-  }, [gameState.grid, visualEffects, gameState.players, canvasDimensions]);
+  }, [gameState.grid, gameState.terrain, visualEffects, gameState.players, canvasDimensions, gameState.settings.gridSize, gameState.settings.topology]);
 
   // Handle window resize
   useEffect(() => {
@@ -9,16 +9,42 @@
  */
 import React, { useEffect, useRef, useState } from 'react';
 import { useGameStore } from '../store/gameStore';
+import { PLAYER_COLORS } from '../utils/players';
+import { GridSize, MAX_CELL_GROWTH } from '../utils/grid';
+import { drawTerrainCell, getTerrainAt } from '../utils/terrain';
+import { getColumnPosition, getLayoutWidth } from '../utils/topology';
+import { Cell, Player, Terrain, Topology } from '../types/game';
+
+// A frame to draw instead of the live game, e.g. a turn of a replay
+interface CanvasGridOptimizedProps {
+  frame?: {
+    grid: Cell[][];
+    players: Pick<Player, 'color' | 'virus'>[];
+    turn: number;
+    gridSize: GridSize;
+    terrain?: Terrain | null;
+    topology?: Topology;
+  };
+}
 
-const CanvasGridOptimized: React.FC = () => {
+const CanvasGridOptimized: React.FC<CanvasGridOptimizedProps> = ({ frame }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { gameState, actions } = useGameStore();
+  const grid = frame?.grid ?? gameState.grid;
+  const players = frame?.players ?? gameState.players;
+  const turn = frame?.turn ?? gameState.turn;
+  const gridSize = frame?.gridSize ?? gameState.settings.gridSize;
+  const terrain = frame ? frame.terrain ?? null : gameState.terrain;
+  const topology = frame?.topology ?? gameState.settings.topology;
+  const isLiveGame = !frame;
   const animationFrameRef = useRef<number>(0);
   const [canvasDimensions, setCanvasDimensions] = useState({ width: 0, height: 0 });
 
   // Track the previous grid state to identify changes
-  const prevGridRef = useRef<(number | null)[][]>([]);
+  const prevGridRef = useRef<Cell[][]>([]);
   const prevTurnRef = useRef<number>(-1);
+  const prevGridSizeRef = useRef<string>('');
+  const prevTerrainRef = useRef<Terrain | null>(null);
 
   // Helper function to convert hex color to RGB
   const colorCache = new Map<string, { r: number; g: number; b: number }>();
@@ -89,19 +115,21 @@ const CanvasGridOptimized: React.FC = () => {
       ctx.scale(devicePixelRatio, devicePixelRatio);
     }
 
-    // Fixed grid size: 70x35
-    const cols = 70;
-    const rows = 35;
+    // Grid size comes from the game settings
+    const { rows, cols } = gridSize;
 
     const maxCellSize = 28; // Consistent size across devices
-    const cellWidth = Math.min(maxCellSize, displayWidth / cols);
+    const cellWidth = Math.min(maxCellSize, displayWidth / getLayoutWidth(topology, cols));
     const cellHeight = Math.min(maxCellSize, displayHeight / rows);
 
-    const totalGridWidth = cellWidth * cols;
+    const totalGridWidth = cellWidth * getLayoutWidth(topology, cols);
     const totalGridHeight = cellHeight * rows;
     const offsetX = Math.max(0, (displayWidth - totalGridWidth) / 2);
     const offsetY = Math.max(0, (displayHeight - totalGridHeight) / 2);
 
+    // Left edge of a cell; odd hex rows are shifted half a cell
+    const getCellX = (row: number, col: number) => offsetX + getColumnPosition(topology, row, col) * cellWidth;
+
     // === SEED-BASED RANDOMNESS ===
     const randomSeed = (row: number, col: number) => {
       let hash = row * 1000 + col;
@@ -115,35 +143,48 @@ const CanvasGridOptimized: React.FC = () => {
 
     // === CRITICAL FIX: DETERMINE CELLS TO DRAW ===
     let cellsToDraw: { row: number; col: number }[] = [];
+    const previousGrid = prevGridRef.current;
+
+    // A different grid size, topology or map invalidates every cell, so start from a blank canvas
+    const gridSizeKey = `${rows}x${cols}:${topology}`;
+    if (prevGridSizeRef.current !== gridSizeKey || prevTerrainRef.current !== terrain) {
+      ctx.clearRect(0, 0, displayWidth, displayHeight);
+      prevGridRef.current = [];
+      prevTurnRef.current = -1;
+      prevGridSizeRef.current = gridSizeKey;
+      prevTerrainRef.current = terrain;
+    }
 
-    if (prevTurnRef.current !== gameState.turn) {
+    if (prevTurnRef.current !== turn) {
       // Normal change detection
       for (let row = 0; row < rows; row++) {
         for (let col = 0; col < cols; col++) {
-          const currentValue = gameState.grid[row]?.[col] ?? null;
-          const previousValue = prevGridRef.current[row]?.[col] ?? null;
-          if (currentValue !== previousValue) {
+          // Redraw when ownership, strength or dormancy changed
+          const currentCell = grid[row]?.[col];
+          const previousCell = previousGrid[row]?.[col];
+          if (
+            (currentCell?.owner ?? null) !== (previousCell?.owner ?? null) ||
+            currentCell?.growth !== previousCell?.growth ||
+            currentCell?.latency !== previousCell?.latency
+          ) {
             cellsToDraw.push({ row, col });
           }
         }
       }
-      prevGridRef.current = gameState.grid.map(row => [...row]);
-      prevTurnRef.current = gameState.turn;
+      prevGridRef.current = grid.map(row => [...row]);
+      prevTurnRef.current = turn;
     }
 
     // === RENDER CELLS ===
     for (const { row, col } of cellsToDraw) {
-      const owner = gameState.grid[row]?.[col] ?? null;
-      if (owner !== null) {
-        const player = gameState.players[owner];
+      const cell = grid[row]?.[col];
+      const owner = cell?.owner ?? null;
+      if (cell && owner !== null) {
+        const player = players[owner];
         const virusParams = player?.virus || {};
-        let color = '#EF4444';
-        if (owner === 0) color = '#EF4444';
-        else if (owner === 1) color = '#3B82F6';
-        else if (owner === 2) color = '#10B981';
-        else if (owner === 3) color = '#F59E0B';
+        const color = player?.color ?? PLAYER_COLORS[owner % PLAYER_COLORS.length];
 
-        const centerX = offsetX + col * cellWidth + cellWidth / 2;
+        const centerX = getCellX(row, col) + cellWidth / 2;
         const centerY = offsetY + row * cellHeight + cellHeight / 2;
 
         const positionRandomness = 0.1;
@@ -153,13 +194,20 @@ const CanvasGridOptimized: React.FC = () => {
         const sizeRandomness = 0.1;
         const sizeVariation = 1 + (randomSeed(row + 200, col + 200) - 0.5) * sizeRandomness;
 
-        // Fixed size for all cells (no age-based sizing)
-        let width = (cellWidth * 0.4) * sizeVariation;
-        let height = (cellHeight * 0.4) * sizeVariation;
+        // Stronger cells are drawn larger, from 60% size at growth 1 up to full size
+        const growthScale = 0.6 + 0.4 * (Math.min(cell.growth, MAX_CELL_GROWTH) / MAX_CELL_GROWTH);
+        let width = (cellWidth * 0.4) * sizeVariation * growthScale;
+        let height = (cellHeight * 0.4) * sizeVariation * growthScale;
+
+        // Clear what was drawn here before, the cell may have shrunk or changed owner
+        ctx.clearRect(getCellX(row, col), offsetY + row * cellHeight, cellWidth, cellHeight);
+        drawTerrainCell(ctx, getTerrainAt(terrain, row, col), getCellX(row, col), offsetY + row * cellHeight, cellWidth, cellHeight);
 
+        // Dormant cells are dimmed
+        const alpha = cell.latency ? 0.6 : 1;
         const colorComponents = hexToRgb(color);
         if (colorComponents) {
-          ctx.fillStyle = `rgb(${colorComponents.r}, ${colorComponents.g}, ${colorComponents.b})`;
+          ctx.fillStyle = `rgba(${colorComponents.r}, ${colorComponents.g}, ${colorComponents.b}, ${alpha})`;
         } else {
           ctx.fillStyle = color;
         }
@@ -223,10 +271,12 @@ const CanvasGridOptimized: React.FC = () => {
         ctx.lineWidth = 0.5;
         ctx.stroke();
       } else {
-        // Only clear if previously occupied (prevents over-clearing)
-        const wasOccupied = prevGridRef.current[row]?.[col] !== null;
-        if (wasOccupied) {
-          ctx.clearRect(offsetX + col * cellWidth, offsetY + row * cellHeight, cellWidth, cellHeight);
+        // Only clear if previously occupied or on terrain (prevents over-clearing)
+        const wasOccupied = (previousGrid[row]?.[col]?.owner ?? null) !== null;
+        const terrainType = getTerrainAt(terrain, row, col);
+        if (wasOccupied || terrainType !== 'plain') {
+          ctx.clearRect(getCellX(row, col), offsetY + row * cellHeight, cellWidth, cellHeight);
+          drawTerrainCell(ctx, terrainType, getCellX(row, col), offsetY + row * cellHeight, cellWidth, cellHeight);
         }
       }
     }
@@ -254,7 +304,7 @@ const CanvasGridOptimized: React.FC = () => {
 
     // Skip rendering all visual effects
 
-  }, [gameState.grid, gameState.players, canvasDimensions, gameState.turn]);
+  }, [grid, players, canvasDimensions, turn, gridSize, terrain, topology]);
 
   // === RESIZE & ANIMATION LOOP (unchanged) ===
   useEffect(() => {
@@ -287,7 +337,8 @@ const CanvasGridOptimized: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    if (gameState.gameState !== 'battle') return;
+    // FPS is measured for the live battle only
+    if (gameState.gameState !== 'battle' || !isLiveGame) return;
     const render = () => {
       actions.calculateFPS();
       animationFrameRef.current = requestAnimationFrame(render);
@@ -296,7 +347,7 @@ const CanvasGridOptimized: React.FC = () => {
     return () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [gameState.gameState, canvasDimensions, actions]);
+  }, [gameState.gameState, canvasDimensions, actions, isLiveGame]);
 
   return (
     <div className="w-full h-full">
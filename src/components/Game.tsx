@@ -14,12 +14,31 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useGameStore } from '../store/gameStore';
 import { useLanguageStore } from '../store/languageStore';
+import { useReplayStore } from '../store/replayStore';
 import { useNavigate } from 'react-router-dom';
 import { validateParameterAllocation } from '../utils/parameterValidation';
+import { generateSeed } from '../utils/seededRandom';
+import { GRID_SIZE_PRESETS } from '../utils/grid';
+import { createBattleGrid, loadMaps } from '../utils/battleMaps';
+import { TERRAIN_PRESETS, countOpenCells } from '../utils/terrain';
+import { TOPOLOGIES } from '../utils/topology';
+import { MIN_PLAYERS, MAX_PLAYERS, isEliminated } from '../utils/players';
+import { createReplay } from '../utils/replay';
+import { AUTOSAVE_SLOT, SaveSlot, SaveSlotInfo, getSaveSlotInfo, getSaveSlots, loadSnapshot, saveSnapshot } from '../utils/saveGame';
 import CanvasGridOptimized from './CanvasGridOptimized';
 import ParameterPanel from './ParameterPanel';
 import GameControls from './GameControls';
-import { VirusParameters } from '../types/game';
+import ReplayViewer from './ReplayViewer';
+import GameOverScreen from './GameOverScreen';
+import BuildAdvisor from './BuildAdvisor';
+import BuildOptimizer from './BuildOptimizer';
+import BuildPresets from './BuildPresets';
+import ScenarioPicker from './ScenarioPicker';
+import { AiStrategy, PlayerController, TerrainPreset, Topology, VictoryMode, VirusParameters } from '../types/game';
+import { AI_STRATEGIES } from '../engine/ai';
+import { STALEMATE_TURN_PRESETS, TERRITORY_SHARE_PRESETS, TURN_LIMIT_PRESETS, VICTORY_MODES } from '../engine/victory';
+import { GridWorkerClient, createGridWorkerClient } from '../workers/gridWorkerClient';
+import { EliminationEvent, MutationEvent } from '../workers/protocol';
 
 declare global {
   interface Window {
@@ -28,6 +47,39 @@ declare global {
   }
 }
 
+// Translation keys of the victory modes
+const VICTORY_MODE_LABELS: Record<VictoryMode, string> = {
+  territory: 'victoryTerritory',
+  lastStanding: 'victoryLastStanding',
+  turnLimit: 'victoryTurnLimit'
+};
+
+// Translation keys of the terrain presets
+const TERRAIN_PRESET_LABELS: Record<TerrainPreset, string> = {
+  open: 'terrainOpen',
+  scattered: 'terrainScattered',
+  rugged: 'terrainRugged'
+};
+
+// Translation keys of the topologies
+const TOPOLOGY_LABELS: Record<Topology, string> = {
+  moore: 'topologyMoore',
+  vonNeumann: 'topologyVonNeumann',
+  hex: 'topologyHex'
+};
+
+// Translation keys of the AI strategies
+const AI_STRATEGY_LABELS: Record<AiStrategy, string> = {
+  rusher: 'strategyRusher',
+  turtle: 'strategyTurtle',
+  stealthSwarm: 'strategyStealthSwarm',
+  balanced: 'strategyBalanced',
+  counterPick: 'strategyCounterPick'
+};
+
+// How long an elimination or mutation notice stays on screen, in milliseconds
+const ELIMINATION_NOTICE_DURATION = 4000;
+
 const Game: React.FC = () => {
   const { gameState, actions } = useGameStore();
   const { t } = useLanguageStore();
@@ -39,7 +91,15 @@ const Game: React.FC = () => {
   const [showHelp, setShowHelp] = useState(false);
   const [autoOpenedLab, setAutoOpenedLab] = useState(false);
   const [ysdk, setYsdk] = useState<any>(null);
-  const workerRef = useRef<Worker | null>(null);
+  const workerRef = useRef<GridWorkerClient | null>(null);
+  const [workerError, setWorkerError] = useState<string | null>(null);
+  const [saveMenu, setSaveMenu] = useState<'save' | 'load' | null>(null);
+  const [saveSlotInfos, setSaveSlotInfos] = useState<(SaveSlotInfo | null)[]>([]);
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
+  const [eliminationNotice, setEliminationNotice] = useState<EliminationEvent[]>([]);
+  const [mutationNotice, setMutationNotice] = useState<MutationEvent[]>([]);
+  const [savedMaps] = useState(() => loadMaps());
 
 
   // Update pointsLeft when selectedPlayer changes or when player parameters change
@@ -51,6 +111,13 @@ const Game: React.FC = () => {
     }
   }, [selectedPlayer, gameState.gameState, gameState.players[selectedPlayer]?.virus]);
 
+  // Keep the selected lab tab valid when the player count shrinks
+  useEffect(() => {
+    if (selectedPlayer >= gameState.players.length) {
+      setSelectedPlayer(gameState.players.length - 1);
+    }
+  }, [selectedPlayer, gameState.players.length]);
+
   // Initialize Yandex Games SDK
   useEffect(() => {
     if (typeof window !== 'undefined' && window.YaGames) {
@@ -68,155 +135,107 @@ const Game: React.FC = () => {
     }
   }, []);
 
-  // Initialize Web Worker
+  // Initialize the grid worker client
   useEffect(() => {
-    if (typeof Worker !== 'undefined') {
-      workerRef.current = new Worker(new URL('../workers/gridCalculationWorker.ts', import.meta.url));
-
-      workerRef.current.onmessage = (e: MessageEvent) => {
-        const { type, newGrid, turn, territoryCounts, attackEvents, expansionEvents, parameterEvents, interactionEvents, waveEffects } = e.data;
-
-        if (type === 'calculationComplete') {
-          actions.updateGrid(newGrid);
-          actions.setTerritoryCount(0, territoryCounts[0]);
-          actions.setTerritoryCount(1, territoryCounts[1]);
-          actions.setTerritoryCount(2, territoryCounts[2]);
-          actions.setTerritoryCount(3, territoryCounts[3]);
-
-          // Update turn in the store
-          actions.updateTurn(turn);
-
-          // Add visual effects based on events
-          // Removed attack events to reduce visual clutter
-          // if (attackEvents) {
-          //   attackEvents.forEach((event: any) => {
-          //     actions.addAttackEffect(event.from, event.to, event.attacker);
-          //   });
-          // }
-
-          // Removed expansion events to reduce visual clutter
-          // if (expansionEvents) {
-          //   expansionEvents.forEach((event: any) => {
-          //     // Dispatch three separate effects for coordinated animation
-          //     actions.addExpansionSourceEffect(event.from, event.player);
-          //     actions.addExpansionPathEffect(event.from, event.to, event.player);
-          //     actions.addExpansionTargetEffect(event.to, event.player);
-          //   });
-          // }
-
-          // Removed parameter events to reduce visual clutter
-          // if (parameterEvents) {
-          //   parameterEvents.forEach((event: any) => {
-          //     actions.addParameterEffect(event.position, event.type, event.player);
-          //   });
-          // }
-
-          // Все визуальные эффекты отключены для улучшения производительности
-          // if (e.data.interactionEvents) {
-          //   e.data.interactionEvents.forEach((event: any) => {
-          //     actions.addInteractionEffect(event.position, event.type, event.player);
-          //   });
-          // }
-
-          // Handle wave effects from the worker
-          // if (e.data.waveEffects) {
-          //   e.data.waveEffects.forEach((waveEffect: any) => {
-          //     // Add the wave effect to the store
-          //     actions.addVisualEffect({
-          //       id: waveEffect.id,
-          //       type: waveEffect.type,
-          //       position: { x: waveEffect.position.x, y: waveEffect.position.y },
-          //       duration: waveEffect.duration,
-          //       intensity: waveEffect.intensity,
-          //       color: waveEffect.color,
-          //       player: waveEffect.player,
-          //       startTime: waveEffect.startTime
-          //     });
-          //   });
-          // }
+    if (typeof Worker === 'undefined') return;
+
+    workerRef.current = createGridWorkerClient({
+      onResult: (result) => {
+        const { newGrid, turn, rngState, territoryCounts, eliminationEvents, mutationEvents } = result;
+
+        // Record the turn; a new battle, another seed or a gap in turns (e.g. a loaded save) starts a new replay
+        const current = useGameStore.getState().gameState;
+        const { replay, actions: replayActions } = useReplayStore.getState();
+        if (!replay || replay.seed !== current.seed || replay.startTurn + replay.turns.length !== current.turn) {
+          replayActions.startRecording(
+            createReplay(
+              current.settings.gridSize, current.players, current.seed, current.turn, current.grid, current.terrain, current.settings.topology
+            )
+          );
         }
-      };
-    }
+        replayActions.recordTurn(current.grid, newGrid, territoryCounts);
 
-    return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
+        actions.updateGrid(newGrid);
+        actions.updateRngState(rngState);
+        territoryCounts.forEach((count, playerId) => {
+          actions.setTerritoryCount(playerId, count);
+        });
+
+        // Update turn in the store
+        actions.updateTurn(turn);
+        if (eliminationEvents.length > 0) {
+          actions.eliminatePlayers(eliminationEvents);
+          setEliminationNotice(eliminationEvents);
+        }
+        if (mutationEvents.length > 0) {
+          actions.mutatePlayers(mutationEvents);
+          setMutationNotice(mutationEvents);
+        }
+        actions.checkVictory(current.grid, newGrid);
+      },
+      onError: (error) => {
+        // Stop the simulation loop and tell the player instead of silently stalling
+        console.error('Grid worker error:', error.message, error.stack);
+        setWorkerError(error.message);
+        if (!useGameStore.getState().gameState.isPaused) {
+          actions.togglePause();
+        }
       }
+    });
+
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
     };
   }, [actions]);
 
   // Reset worker when game is reset
   useEffect(() => {
     if (gameState.gameState === 'setup' && workerRef.current) {
-      // Ensure the worker is properly reset when returning to setup state
-      workerRef.current.terminate();
-      workerRef.current = new Worker(new URL('../workers/gridCalculationWorker.ts', import.meta.url));
-
-      workerRef.current.onmessage = (e: MessageEvent) => {
-        const { type, newGrid, turn, territoryCounts, attackEvents, expansionEvents, parameterEvents, interactionEvents, waveEffects } = e.data;
-
-        if (type === 'calculationComplete') {
-          actions.updateGrid(newGrid);
-          actions.setTerritoryCount(0, territoryCounts[0]);
-          actions.setTerritoryCount(1, territoryCounts[1]);
-          actions.setTerritoryCount(2, territoryCounts[2]);
-          actions.setTerritoryCount(3, territoryCounts[3]);
-
-          // Update turn in the store
-          actions.updateTurn(turn);
-
-          // Add visual effects based on events
-          // Removed attack events to reduce visual clutter
-          // if (attackEvents) {
-          //   attackEvents.forEach((event: any) => {
-          //     actions.addAttackEffect(event.from, event.to, event.attacker);
-          //   });
-          // }
-
-          // Removed expansion events to reduce visual clutter
-          // if (expansionEvents) {
-          //   expansionEvents.forEach((event: any) => {
-          //     // Dispatch three separate effects for coordinated animation
-          //     actions.addExpansionSourceEffect(event.from, event.player);
-          //     actions.addExpansionPathEffect(event.from, event.to, event.player);
-          //     actions.addExpansionTargetEffect(event.to, event.player);
-          //   });
-          // }
-
-          // Removed parameter events to reduce visual clutter
-          // if (parameterEvents) {
-          //   parameterEvents.forEach((event: any) => {
-          //     actions.addParameterEffect(event.position, event.type, event.player);
-          //   });
-          // }
-
-          // Все визуальные эффекты отключены для улучшения производительности
-          // if (e.data.interactionEvents) {
-          //   e.data.interactionEvents.forEach((event: any) => {
-          //     actions.addInteractionEffect(event.position, event.type, event.player);
-          //   });
-          // }
-
-          // Handle wave effects from the worker
-          // if (e.data.waveEffects) {
-          //   e.data.waveEffects.forEach((waveEffect: any) => {
-          //     // Add the wave effect to the store
-          //     actions.addVisualEffect({
-          //       id: waveEffect.id,
-          //       type: waveEffect.type,
-          //       position: { x: waveEffect.position.x, y: waveEffect.position.y },
-          //       duration: waveEffect.duration,
-          //       intensity: waveEffect.intensity,
-          //       color: waveEffect.color,
-          //       player: waveEffect.player,
-          //       startTime: waveEffect.startTime
-          //     });
-          //   });
-          // }
-        }
-      };
+      // Drop any calculation still running for the previous battle
+      workerRef.current.reset();
+      setWorkerError(null);
     }
-  }, [gameState.gameState, actions]);
+  }, [gameState.gameState]);
+
+  // Prepare the worker for the configured grid size before the first turn
+  useEffect(() => {
+    workerRef.current?.configure(gameState.settings);
+  }, [gameState.settings]);
+
+  // Autosave when the tab is hidden mid-battle, so closing or switching away doesn't lose it
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const current = useGameStore.getState().gameState;
+      if (document.hidden && current.gameState === 'battle') {
+        saveSnapshot(AUTOSAVE_SLOT, current);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Close the save/load slot list together with the side menu
+  useEffect(() => {
+    if (!menuOpen) {
+      setSaveMenu(null);
+      setSaveNotice(null);
+    }
+  }, [menuOpen]);
+
+  // Elimination notices fade out on their own
+  useEffect(() => {
+    if (eliminationNotice.length === 0) return;
+    const timer = setTimeout(() => setEliminationNotice([]), ELIMINATION_NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [eliminationNotice]);
+
+  useEffect(() => {
+    if (mutationNotice.length === 0) return;
+    const timer = setTimeout(() => setMutationNotice([]), ELIMINATION_NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [mutationNotice]);
 
   // Auto-open lab menu when game starts in setup state (only once)
   useEffect(() => {
@@ -280,16 +299,20 @@ const Game: React.FC = () => {
   useEffect(() => {
     let intervalId: number;
 
-    if (gameState.gameState === 'battle' && !gameState.isPaused) {
+    // A decided battle stops while the victory effects play
+    if (gameState.gameState === 'battle' && !gameState.isPaused && !gameState.outcome) {
       intervalId = window.setInterval(() => {
         // Send current state to worker for processing
         if (workerRef.current) {
-          workerRef.current.postMessage({
-            type: 'calculateNextState',
+          // Skipped while the previous turn is still being calculated
+          workerRef.current.calculate({
             grid: gameState.grid,
             players: gameState.players,
             turn: gameState.turn,
-            settings: gameState.settings
+            settings: gameState.settings,
+            seed: gameState.seed,
+            rngState: gameState.rngState,
+            terrain: gameState.terrain
           });
         }
 
@@ -306,11 +329,17 @@ const Game: React.FC = () => {
     return () => {
       if (intervalId) window.clearInterval(intervalId);
     };
-  }, [gameState.gameState, gameState.isPaused, gameState.simulationSpeed, gameState.grid, gameState.players, gameState.turn, gameState.settings, actions]);
+  }, [gameState.gameState, gameState.isPaused, gameState.outcome, gameState.simulationSpeed, gameState.grid, gameState.players, gameState.turn, gameState.settings, gameState.seed, gameState.rngState, actions]);
+
+  // AI players build their own viruses; the lab only shows them
+  const isAiPlayer = gameState.players[selectedPlayer]?.controller === 'ai';
+
+  // Scenario builds are played as written
+  const isBuildLocked = gameState.players[selectedPlayer]?.buildLocked === true;
 
   // Handle parameter changes
   const handleParameterChange = (param: keyof VirusParameters, value: number) => {
-    if (gameState.gameState !== 'setup') return;
+    if (gameState.gameState !== 'setup' || isAiPlayer || isBuildLocked) return;
 
     const currentParams = { ...gameState.players[selectedPlayer].virus };
     const newParams = { ...currentParams, [param]: value };
@@ -325,7 +354,7 @@ const Game: React.FC = () => {
 
   // Handle player ready toggle
   const handlePlayerReady = () => {
-    if (gameState.gameState !== 'setup') return;
+    if (gameState.gameState !== 'setup' || isAiPlayer) return;
 
     const validation = validateParameterAllocation(gameState.players[selectedPlayer].virus);
 
@@ -336,7 +365,7 @@ const Game: React.FC = () => {
 
   // Randomize player parameters
   const randomizePlayerParameters = () => {
-    if (gameState.gameState !== 'setup') return;
+    if (gameState.gameState !== 'setup' || isAiPlayer || isBuildLocked) return;
 
     // Create a copy of the current player's virus parameters
     const currentParams = { ...gameState.players[selectedPlayer].virus };
@@ -365,6 +394,39 @@ const Game: React.FC = () => {
     });
   };
 
+  // Show the save or load slot list with fresh slot details
+  const openSaveMenu = (mode: 'save' | 'load') => {
+    setSaveNotice(null);
+    if (saveMenu === mode) {
+      setSaveMenu(null);
+      return;
+    }
+    setSaveSlotInfos(getSaveSlots().map(getSaveSlotInfo));
+    setSaveMenu(mode);
+  };
+
+  const handleSave = (slot: SaveSlot) => {
+    const saved = saveSnapshot(slot, useGameStore.getState().gameState);
+    setSaveNotice(saved ? t('gameSaved') : t('saveFailed'));
+    setSaveSlotInfos(getSaveSlots().map(getSaveSlotInfo));
+  };
+
+  const handleLoad = (slot: SaveSlot) => {
+    const { snapshot, error } = loadSnapshot(slot);
+    if (!snapshot) {
+      setSaveNotice(error ? `${t('loadFailed')} ${error}` : t('noSavedGame'));
+      return;
+    }
+
+    // Drop any calculation still running for the battle being replaced
+    workerRef.current?.reset();
+    setWorkerError(null);
+    actions.loadGameState(snapshot.gameState);
+    setSaveNotice(t('gameLoaded'));
+    setSaveMenu(null);
+    setLabMenuOpen(false);
+  };
+
   // Start battle
   const startBattle = async () => {
     if (gameState.players.every(player => player.isReady)) {
@@ -383,38 +445,30 @@ const Game: React.FC = () => {
         }
       }
 
+      // AI players settle on their builds now that every human build is final
+      actions.prepareAiPlayers();
+
       // Reset player-specific fields before starting battle, but preserve skins
-      const updatedPlayers = gameState.players.map(player => ({
+      const updatedPlayers = useGameStore.getState().gameState.players.map(player => ({
         ...player,
         preferredDirection: null,
-        lastMutationTurn: 0
+        lastMutationTurn: 0,
+        eliminatedTurn: null
       }));
 
       actions.setGameState('battle');
       actions.setShowHelpOnStart(false); // Explicitly set to false when starting battle
 
-      // Initialize grid with starting positions (70x35)
-      const grid = Array(35).fill(null).map(() => Array(70).fill(null));
-
-      // Place starting colonies in corners
-      const placeStartingColony = (playerId: number, x: number, y: number) => {
-        grid[y][x] = playerId; // Set owner in 2D format
-      };
-
-      // Place starting colonies in 4 corners with padding
-      placeStartingColony(0, 2, 2);      // Top-left
-      placeStartingColony(1, 67, 2);     // Top-right (70-3 for padding)
-      placeStartingColony(2, 2, 32);     // Bottom-left (35-3 for padding)
-      placeStartingColony(3, 67, 32);    // Bottom-right (70-3, 35-3 for padding)
-
-      // Initialize cell age grid when starting battle (all cells have age -1)
-      const initialCellAge = Array(35).fill(null).map(() => Array(70).fill(-1));
+      // Initialize grid with a starting colony at each player's spawn point
+      const grid = createBattleGrid(gameState.settings.gridSize, updatedPlayers.length, gameState.battleMap);
 
       actions.updateGrid(grid);
       actions.updatePlayers(updatedPlayers);
+      actions.setSeed(gameState.settings.scenarioSeed ?? generateSeed());
     }
   };
 
+  const { victoryCondition } = gameState.settings;
 
   return (
     <div className="relative w-full h-full">
@@ -474,6 +528,10 @@ const Game: React.FC = () => {
                   actions.setPlayerReady(i);
                 }
 
+                // Drop any calculation still running for the previous battle
+                workerRef.current?.reset();
+                setWorkerError(null);
+
                 // Start battle with proper initialization
                 actions.testBattle();
 
@@ -536,6 +594,59 @@ const Game: React.FC = () => {
                   <span className="mr-3 font-pixy">🔄</span> {t('reset')}
                 </button>
               </li>
+              <li>
+                <button
+                  className="w-full text-left px-4 py-3 rounded-lg hover:bg-gray-700 transition-colors flex items-center font-pixy"
+                  onClick={() => openSaveMenu('save')}
+                >
+                  <span className="mr-3 font-pixy">💾</span> {t('save')}
+                </button>
+              </li>
+              <li>
+                <button
+                  className="w-full text-left px-4 py-3 rounded-lg hover:bg-gray-700 transition-colors flex items-center font-pixy"
+                  onClick={() => openSaveMenu('load')}
+                >
+                  <span className="mr-3 font-pixy">📂</span> {t('load')}
+                </button>
+              </li>
+              {saveMenu && (
+                <li className="pl-4 space-y-1">
+                  {getSaveSlots().map((slot, index) => {
+                    const info = saveSlotInfos[index];
+                    // The autosave slot is written by the game only
+                    if (saveMenu === 'save' && slot === AUTOSAVE_SLOT) return null;
+                    return (
+                      <button
+                        key={slot}
+                        className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors font-pixy text-sm"
+                        onClick={() => (saveMenu === 'save' ? handleSave(slot) : handleLoad(slot))}
+                      >
+                        <div>{slot === AUTOSAVE_SLOT ? t('autosave') : `${t('saveSlot')} ${slot}`}</div>
+                        <div className="text-xs text-gray-400">
+                          {info
+                            ? `${t('turn')} ${info.turn} · ${new Date(info.savedAt).toLocaleString()}`
+                            : t('emptySlot')}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </li>
+              )}
+              <li>
+                <button
+                  className="w-full text-left px-4 py-3 rounded-lg hover:bg-gray-700 transition-colors flex items-center font-pixy"
+                  onClick={() => {
+                    setShowReplay(true);
+                    setMenuOpen(false);
+                  }}
+                >
+                  <span className="mr-3 font-pixy">🎬</span> {t('watchReplay')}
+                </button>
+              </li>
+              {saveNotice && (
+                <li className="px-4 py-2 text-sm text-gray-300 font-pixy">{saveNotice}</li>
+              )}
               <li>
                 <button
                   className="w-full text-left px-4 py-3 rounded-lg hover:bg-gray-700 transition-colors flex items-center font-pixy"
@@ -610,13 +721,16 @@ const Game: React.FC = () => {
           </div>
 
           <div className="flex-1 overflow-y-auto">
-            {/* Row 1: Player tabs - full width */}
-            <div className="grid grid-cols-4 gap-2 mb-4">
+            {/* Row 1: Player tabs - full width, one column per player */}
+            <div
+              className="grid gap-2 mb-4"
+              style={{ gridTemplateColumns: `repeat(${gameState.players.length}, minmax(0, 1fr))` }}
+            >
               {gameState.players.map((player, idx) => (
                 <button
                   key={player.id}
                   onClick={() => setSelectedPlayer(idx)}
-                  className={`px-3 py-2 text-base font-bold font-pixy whitespace-nowrap relative ${
+                  className={`${gameState.players.length > 4 ? 'px-1 text-xs' : 'px-3 text-base'} py-2 font-bold font-pixy whitespace-nowrap relative ${
                     selectedPlayer === idx
                       ? 'border-t-2 border-white text-white'
                       : 'text-gray-300 hover:text-white'
@@ -626,7 +740,11 @@ const Game: React.FC = () => {
                     color: selectedPlayer === idx ? player.color : undefined
                   }}
                 >
-                  <span className="font-pixy">{t('virus')} {idx + 1}</span>
+                  <span className="font-pixy">
+                    {gameState.players.length > 4 ? idx + 1 : `${t('virus')} ${idx + 1}`}
+                    {player.controller === 'ai' && ' 🤖'}
+                    {player.buildLocked && ' 🔒'}
+                  </span>
                   {selectedPlayer === idx && (
                     <span className={`absolute -bottom-4 left-0 right-0 text-center text-xs font-pixy ${
                       pointsLeft === 0 ? 'text-green-400' : 'text-yellow-400'
@@ -638,6 +756,47 @@ const Game: React.FC = () => {
               ))}
             </div>
 
+            {/* Row 1b: Human or AI control of the selected player - only before the battle starts */}
+            {gameState.gameState === 'setup' && isBuildLocked && (
+              <p className="mb-4 text-sm font-pixy text-yellow-400">🔒 {t('buildLocked')}</p>
+            )}
+            {gameState.gameState === 'setup' && !isBuildLocked && (
+              <div className="mb-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {(['human', 'ai'] as PlayerController[]).map(controller => (
+                    <button
+                      key={controller}
+                      onClick={() => actions.setPlayerController(selectedPlayer, controller)}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        (gameState.players[selectedPlayer].controller ?? 'human') === controller
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{t(controller === 'ai' ? 'aiPlayer' : 'humanPlayer')}</span>
+                    </button>
+                  ))}
+                </div>
+                {isAiPlayer && (
+                  <div className="grid grid-cols-5 gap-2 mt-2">
+                    {AI_STRATEGIES.map(strategy => (
+                      <button
+                        key={strategy}
+                        onClick={() => actions.setAiStrategy(selectedPlayer, strategy)}
+                        className={`py-2 px-1 font-pixy border-2 rounded-lg text-xs ${
+                          gameState.players[selectedPlayer].aiStrategy === strategy
+                            ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                            : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                        }`}
+                      >
+                        <span className="font-pixy">{t(AI_STRATEGY_LABELS[strategy])}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Row 2: Parameter configuration panel */}
             <div className="mb-4">
               <ParameterPanel
@@ -649,6 +808,13 @@ const Game: React.FC = () => {
               />
             </div>
 
+            {/* Row 2b: Build presets - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mb-4">
+                <BuildPresets playerId={selectedPlayer} />
+              </div>
+            )}
+
             {/* Row 3: Action buttons - in a single row */}
             <div className="grid grid-cols-3 gap-2 mb-4">
               <button
@@ -680,6 +846,14 @@ const Game: React.FC = () => {
               </button>
             </div>
 
+            {/* Row 3b: Build advisor and optimizer - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mb-4 space-y-2">
+                <BuildAdvisor playerId={selectedPlayer} />
+                <BuildOptimizer playerId={selectedPlayer} />
+              </div>
+            )}
+
             {/* Row 4: Control buttons */}
             <div className="grid grid-cols-3 gap-2">
               <button
@@ -694,6 +868,216 @@ const Game: React.FC = () => {
               </button>
             </div>
 
+            {/* Row 4a: Scenario - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <ScenarioPicker />
+              </div>
+            )}
+
+            {/* Row 4b: Battle map - only before the battle starts; a saved map brings its own size and player count */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('battleMap')}</div>
+                <div className="flex gap-2">
+                  <select
+                    value={gameState.battleMap?.name ?? ''}
+                    onChange={(e) => actions.setBattleMap(savedMaps.find(saved => saved.name === e.target.value) ?? null)}
+                    className="flex-1 min-w-0 bg-gray-700 rounded-lg px-2 py-2 text-sm font-pixy"
+                  >
+                    <option value="">{t('battleMapGenerated')}</option>
+                    {gameState.battleMap && !savedMaps.some(saved => saved.name === gameState.battleMap!.name) && (
+                      <option value={gameState.battleMap.name}>{gameState.battleMap.name}</option>
+                    )}
+                    {savedMaps.map(saved => (
+                      <option key={saved.name} value={saved.name}>
+                        {saved.name} ({saved.gridSize.rows}x{saved.gridSize.cols}, {saved.spawns.length})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => navigate('/editor')}
+                    className="py-2 px-3 font-pixy border-2 rounded-lg text-sm bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500"
+                  >
+                    {t('mapEditor')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Row 5: Player count - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('playerCount')}</div>
+                <div className="grid grid-cols-7 gap-2">
+                  {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => actions.setPlayerCount(count)}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        gameState.players.length === count
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Row 6: Grid size presets - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('gridSize')}</div>
+                <div className="grid grid-cols-4 gap-2">
+                  {GRID_SIZE_PRESETS.map(size => {
+                    const isSelected = gameState.settings.gridSize.rows === size.rows && gameState.settings.gridSize.cols === size.cols;
+                    return (
+                      <button
+                        key={`${size.rows}x${size.cols}`}
+                        onClick={() => actions.setGridSize(size)}
+                        className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                          isSelected
+                            ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                            : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                        }`}
+                      >
+                        <span className="font-pixy">{size.rows}x{size.cols}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Row 6b: Terrain presets - only before the battle starts; picking one again draws a new map */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('terrain')}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {TERRAIN_PRESETS.map(preset => (
+                    <button
+                      key={preset}
+                      onClick={() => actions.setTerrainPreset(preset)}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        gameState.settings.terrainPreset === preset
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{t(TERRAIN_PRESET_LABELS[preset])}</span>
+                    </button>
+                  ))}
+                </div>
+                {gameState.terrain && <p className="text-xs text-gray-400 mt-2">{t('terrainLegend')}</p>}
+              </div>
+            )}
+
+            {/* Row 6c: Topology - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('topology')}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {TOPOLOGIES.map(topology => (
+                    <button
+                      key={topology}
+                      onClick={() => actions.setTopology(topology)}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        gameState.settings.topology === topology
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{t(TOPOLOGY_LABELS[topology])}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Row 7: Victory condition - only before the battle starts */}
+            {gameState.gameState === 'setup' && (
+              <div className="mt-4">
+                <div className="text-sm font-pixy mb-2">{t('victoryCondition')}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {VICTORY_MODES.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => actions.setVictoryCondition({ mode })}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        victoryCondition.mode === mode
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{t(VICTORY_MODE_LABELS[mode])}</span>
+                    </button>
+                  ))}
+                </div>
+
+                {victoryCondition.mode === 'territory' && (
+                  <>
+                    <div className="text-sm font-pixy mt-3 mb-2">{t('territoryShare')}</div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {TERRITORY_SHARE_PRESETS.map(territoryShare => (
+                        <button
+                          key={territoryShare}
+                          onClick={() => actions.setVictoryCondition({ territoryShare })}
+                          className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                            victoryCondition.territoryShare === territoryShare
+                              ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                              : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                          }`}
+                        >
+                          <span className="font-pixy">{Math.round(territoryShare * 100)}%</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {victoryCondition.mode === 'turnLimit' && (
+                  <>
+                    <div className="text-sm font-pixy mt-3 mb-2">{t('turnLimit')}</div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {TURN_LIMIT_PRESETS.map(turnLimit => (
+                        <button
+                          key={turnLimit}
+                          onClick={() => actions.setVictoryCondition({ turnLimit })}
+                          className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                            victoryCondition.turnLimit === turnLimit
+                              ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                              : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                          }`}
+                        >
+                          <span className="font-pixy">{turnLimit}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                <div className="text-sm font-pixy mt-3 mb-2">{t('stalemateTurns')}</div>
+                <div className="grid grid-cols-4 gap-2">
+                  {STALEMATE_TURN_PRESETS.map(stalemateTurns => (
+                    <button
+                      key={stalemateTurns}
+                      onClick={() => actions.setVictoryCondition({ stalemateTurns })}
+                      className={`py-2 px-2 font-pixy border-2 rounded-lg text-sm ${
+                        victoryCondition.stalemateTurns === stalemateTurns
+                          ? 'bg-blue-600 bg-opacity-70 border-blue-800 text-white'
+                          : 'bg-gray-600 bg-opacity-70 border-gray-800 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <span className="font-pixy">{stalemateTurns === 0 ? t('off') : stalemateTurns}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
           </div>
         </div>
       </div>
@@ -717,13 +1101,14 @@ const Game: React.FC = () => {
         {gameState.players.map(player => (
           <div
             key={player.id}
-            className="flex-1"
+            className={`flex-1 ${isEliminated(player) ? 'opacity-40' : ''}`}
+            title={isEliminated(player) ? `${player.name}: ${t('eliminatedOnTurn')} ${player.eliminatedTurn}` : player.name}
           >
             <div className="w-full bg-gray-700 bg-opacity-50 rounded-full h-2"> {/* Changed h-1 to h-2 */}
               <div
                 className="h-full rounded-full flex items-center justify-end pr-1 text-[0.6rem] font-bold font-pixy"
                 style={{
-                  width: `${Math.min(100, (player.territoryCount / 2450) * 100)}%`,
+                  width: `${Math.min(100, (player.territoryCount / countOpenCells(gameState.settings.gridSize, gameState.terrain)) * 100)}%`,
                   backgroundColor: player.color,
                   color: 'white',
                   textShadow: '0 0 2px black'
@@ -736,6 +1121,59 @@ const Game: React.FC = () => {
         ))}
       </div>
 
+      {gameState.gameState === 'gameOver' && !showReplay && (
+        <GameOverScreen
+          onRematch={() => {
+            workerRef.current?.reset();
+            actions.rematch();
+          }}
+          onBackToLab={() => {
+            actions.returnToLab();
+            setLabMenuOpen(true);
+          }}
+          onWatchReplay={() => setShowReplay(true)}
+        />
+      )}
+
+      {showReplay && <ReplayViewer onClose={() => setShowReplay(false)} />}
+
+      {(eliminationNotice.length > 0 || mutationNotice.length > 0) && gameState.gameState === 'battle' && (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-[90] space-y-1 pointer-events-none">
+          {eliminationNotice.map(({ player: playerId, turn }) => {
+            const player = gameState.players[playerId];
+            return player && (
+              <div key={playerId} className="px-4 py-2 bg-gray-900 bg-opacity-90 border border-gray-700 rounded-lg font-pixy text-sm">
+                <span style={{ color: player.color }}>{player.name}</span> {t('eliminatedOnTurn')} {turn}
+              </div>
+            );
+          })}
+          {mutationNotice.map(({ player: playerId, turn, from, to }) => {
+            const player = gameState.players[playerId];
+            return player && (
+              <div key={`mutation-${playerId}`} className="px-4 py-2 bg-gray-900 bg-opacity-90 border border-purple-700 rounded-lg font-pixy text-sm">
+                🧬 <span style={{ color: player.color }}>{player.name}</span> {t('mutatedOnTurn')} {turn}: {t(from)} −1, {t(to)} +1
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Worker error banner - the battle is paused until the player dismisses it */}
+      {workerError && (
+        <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-[100] w-96 max-w-[90vw] bg-red-900 bg-opacity-90 border border-red-700 rounded-xl shadow-lg p-4">
+          <div className="font-bold font-pixy mb-1">{t('simulationError')}</div>
+          <div className="text-sm text-red-200 break-words mb-3">{workerError}</div>
+          <div className="flex justify-end">
+            <button
+              onClick={() => setWorkerError(null)}
+              className="px-4 py-2 bg-red-700 hover:bg-red-600 rounded-lg font-pixy text-sm"
+            >
+              {t('close')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* ✅ FIX: Переносим модальное окно ВНУТРЬ корневого контейнера для соблюдения правила единственного корневого элемента React */}
       {showHelp && (
         <div
@@ -14,6 +14,8 @@
 import React from 'react';
 import { useGameStore } from '../store/gameStore';
 import { useLanguageStore } from '../store/languageStore';
+import { countOpenCells } from '../utils/terrain';
+import { isEliminated } from '../utils/players';
 
 const GameControls: React.FC = () => {
   const { gameState, actions } = useGameStore();
@@ -44,7 +46,11 @@ const GameControls: React.FC = () => {
           </div>
           <div className="flex justify-between">
             <span>{t('gridSize')}</span>
-            <span className="font-mono">35x70</span>
+            <span className="font-mono">{gameState.settings.gridSize.rows}x{gameState.settings.gridSize.cols}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{t('seed')}</span>
+            <span className="font-mono">{gameState.seed}</span>
           </div>
           <div className="flex justify-between">
             <span>{t('fps')}</span>
@@ -133,7 +139,7 @@ const GameControls: React.FC = () => {
               <div
                 className="absolute bottom-0 left-0 right-0"
                 style={{
-                  height: `${Math.min(100, (player.territoryCount / 2450) * 100)}%`,
+                  height: `${Math.min(100, (player.territoryCount / countOpenCells(gameState.settings.gridSize, gameState.terrain)) * 100)}%`,
                   backgroundColor: player.color,
                   opacity: 0.3
                 }}
@@ -146,9 +152,23 @@ const GameControls: React.FC = () => {
 
               <div className="text-[0.6rem] text-center truncate w-full relative z-10">{player.name}</div>
               <div className="text-xs mt-0.5 font-mono relative z-10">{player.territoryCount}</div>
-              <div className={`text-[0.6rem] mt-1 px-1.5 py-0.5 rounded-full relative z-10 ${player.isReady ? 'bg-green-900 text-green-300' : 'bg-gray-700 text-gray-400'}`}>
-                {player.isReady ? t('ready') : t('notReady')}
-              </div>
+              {isEliminated(player) ? (
+                <div className="text-[0.6rem] mt-1 px-1.5 py-0.5 rounded-full relative z-10 bg-red-900 text-red-300">
+                  {t('eliminatedOnTurn')} {player.eliminatedTurn}
+                </div>
+              ) : (
+                <div className={`text-[0.6rem] mt-1 px-1.5 py-0.5 rounded-full relative z-10 ${player.isReady ? 'bg-green-900 text-green-300' : 'bg-gray-700 text-gray-400'}`}>
+                  {player.isReady ? t('ready') : t('notReady')}
+                </div>
+              )}
+              {!isEliminated(player) && (player.lastMutationTurn ?? 0) > 0 && (
+                <div
+                  className="text-[0.6rem] mt-1 px-1.5 py-0.5 rounded-full relative z-10 bg-purple-900 text-purple-300"
+                  title={`${t('mutatedOnTurn')} ${player.lastMutationTurn}`}
+                >
+                  🧬 {player.lastMutationTurn}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,158 @@
+/**
+ * Game Over Screen Component
+ *
+ * Компонент экрана окончания игры
+ *
+ * Results overlay shown when a battle ends: how it was decided, the final
+ * standings (survivors by territory, then viruses in reverse order of
+ * elimination), the number of turns played and, unless the battle was a
+ * draw, the winning build's strategic balance, with buttons for a rematch,
+ * going back to the laboratory and watching the replay.
+ *
+ * Экран результатов после окончания битвы: как она была решена, итоговые
+ * места (выжившие по территории, затем вирусы в обратном порядке уничтожения),
+ * число сыгранных ходов и, если это не ничья, стратегический баланс
+ * победившего вируса, с кнопками реванша, возврата в лабораторию и просмотра
+ * повтора.
+ */
+import React from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useLanguageStore } from '../store/languageStore';
+import { ParameterBalance, getParameterBalance } from '../utils/parameterValidation';
+import { countOpenCells } from '../utils/terrain';
+import { VictoryReason } from '../types/game';
+import { rankPlayers } from '../engine/victory';
+import { isEliminated } from '../utils/players';
+
+interface GameOverScreenProps {
+  onRematch: () => void;
+  onBackToLab: () => void;
+  onWatchReplay: () => void;
+}
+
+// Balance categories in display order, with their translation keys
+const BALANCE_CATEGORIES: { key: keyof ParameterBalance; label: string }[] = [
+  { key: 'offensive', label: 'balanceOffensive' },
+  { key: 'defensive', label: 'balanceDefensive' },
+  { key: 'growth', label: 'balanceGrowth' },
+  { key: 'adaptability', label: 'balanceAdaptability' },
+  { key: 'coordination', label: 'balanceCoordination' },
+  { key: 'overallBalance', label: 'balanceOverall' }
+];
+
+// Translation keys explaining how the battle was decided
+const VICTORY_REASON_LABELS: Record<VictoryReason, string> = {
+  territory: 'reasonTerritory',
+  lastStanding: 'reasonLastStanding',
+  turnLimit: 'reasonTurnLimit',
+  stalemate: 'reasonStalemate'
+};
+
+// Highest value a category can reach: all 16 points in its parameters
+const MAX_BALANCE_VALUE = 16;
+
+const GameOverScreen: React.FC<GameOverScreenProps> = ({ onRematch, onBackToLab, onWatchReplay }) => {
+  const { gameState } = useGameStore();
+  const { t } = useLanguageStore();
+
+  const totalCells = countOpenCells(gameState.settings.gridSize, gameState.terrain);
+  const standings = rankPlayers(gameState.players);
+  const { outcome } = gameState;
+  // Without a recorded outcome the territory leader is shown as the winner
+  const winner = outcome ? (outcome.winner !== null ? gameState.players[outcome.winner] : null) : standings[0];
+  // The build chosen in the lab, not the one mutations left at the end of the battle
+  const balance = winner && getParameterBalance(winner.baseVirus ?? winner.virus);
+
+  return (
+    <div className="fixed inset-0 z-[95] bg-black bg-opacity-70 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b border-gray-700 text-center">
+          {winner ? (
+            <h2 className="text-2xl font-bold font-pixy" style={{ color: winner.color }}>
+              {winner.name} — {t('victory')}
+            </h2>
+          ) : (
+            <h2 className="text-2xl font-bold font-pixy">{t('draw')}</h2>
+          )}
+          {outcome && (
+            <p className="text-sm text-gray-300 font-pixy mt-1">{t(VICTORY_REASON_LABELS[outcome.reason])}</p>
+          )}
+          <p className="text-sm text-gray-400 font-pixy mt-1">
+            {t('turnsPlayed')} {gameState.turn}
+          </p>
+        </div>
+
+        <div className="p-4 space-y-5">
+          {/* Final territory, best first */}
+          <div>
+            <h3 className="font-bold font-pixy mb-2">{t('finalTerritory')}</h3>
+            <div className="space-y-2">
+              {standings.map(player => {
+                const share = (player.territoryCount / totalCells) * 100;
+                return (
+                  <div key={player.id} className="text-sm font-pixy">
+                    <div className="flex justify-between mb-1">
+                      <span style={{ color: player.color }}>{player.name}</span>
+                      <span className="text-gray-300">
+                        {isEliminated(player)
+                          ? `${t('eliminatedOnTurn')} ${player.eliminatedTurn}`
+                          : `${player.territoryCount} (${share.toFixed(1)}%)`}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-2">
+                      <div className="h-2 rounded-full" style={{ width: `${share}%`, backgroundColor: player.color }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Winning build's balance */}
+          {winner && balance && (
+            <div>
+              <h3 className="font-bold font-pixy mb-2">{t('winningBuild')}</h3>
+              <div className="space-y-2">
+                {BALANCE_CATEGORIES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2 text-sm font-pixy">
+                    <span className="w-32 text-gray-300">{t(label)}</span>
+                    <div className="flex-1 bg-gray-700 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full"
+                        style={{ width: `${(balance[key] / MAX_BALANCE_VALUE) * 100}%`, backgroundColor: winner.color }}
+                      />
+                    </div>
+                    <span className="w-10 text-right">{Number.isInteger(balance[key]) ? balance[key] : balance[key].toFixed(1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex flex-wrap gap-2 justify-end">
+          <button
+            onClick={onWatchReplay}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm"
+          >
+            {t('watchReplay')}
+          </button>
+          <button
+            onClick={onBackToLab}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm"
+          >
+            {t('backToLab')}
+          </button>
+          <button
+            onClick={onRematch}
+            className="px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg font-pixy hover:from-blue-700 hover:to-indigo-700 transition-all text-sm"
+          >
+            {t('rematch')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameOverScreen;
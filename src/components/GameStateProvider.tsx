@@ -5,14 +5,15 @@
  *
  * This component wraps the application with game state context, providing
  * access to the game store and actions throughout the component tree.
- * It handles game logic such as victory condition checks and simulation initialization.
+ * It presents the end of a battle once the victory rules have decided it.
  *
  * Этот компонент оборачивает приложение контекстом состояния игры, обеспечивая
  * доступ к хранилищу игры и действиям во всем дереве компонентов.
- * Он обрабатывает логику игры, такую как проверка условий победы и инициализация симуляции.
+ * Он показывает окончание битвы, когда правила победы определили её исход.
  */
 import React, { useEffect } from 'react';
 import { useGameStore } from '../store/gameStore';
+import { getBattleSpawnPoints } from '../utils/battleMaps';
 
 interface GameStateProviderProps {
   children: React.ReactNode;
@@ -30,41 +31,33 @@ export const GameStateProvider: React.FC<GameStateProviderProps> = ({ children }
     }
   }, [gameState.gameState, gameState.isPaused]);
 
-  // Check for victory conditions
+  // Celebrate once the victory rules have decided the battle, then show the results
   useEffect(() => {
-    if (gameState.gameState === 'battle') {
-      // Check if any player has >75% of the grid
-      const totalCells = 35 * 70; // 70x35 = 2450 cells
-      const playerWithMostTerritory = gameState.players.reduce((max, player) =>
-        player.territoryCount > max.territoryCount ? player : max
-      );
+    const { outcome } = gameState;
+    if (gameState.gameState !== 'battle' || !outcome) return;
 
-      if (playerWithMostTerritory.territoryCount > totalCells * 0.75) {
-        // Add victory visual effects before setting game state to gameOver
-        // Create a wave of the winning player's color across the grid
-        const winningPlayer = playerWithMostTerritory;
-        const rows = 35;
-        const cols = 70;
+    if (outcome.winner !== null) {
+      const winningPlayer = gameState.players[outcome.winner];
+      const spawn = getBattleSpawnPoints(gameState.settings.gridSize, gameState.players.length, gameState.battleMap)[winningPlayer.id];
 
-        // Add victory celebration effects at the winning player's starting position
-        // (This is an approximation - in a real game, we'd track the actual starting position)
-        actions.addVisualEffect({
-          id: `victory-${Date.now()}`,
-          type: 'victory' as any,
-          position: { x: winningPlayer.id % 2 === 0 ? 2 : cols - 3, y: winningPlayer.id < 2 ? 2 : rows - 3 },
-          duration: 5000, // 5 seconds
-          intensity: 1,
-          color: winningPlayer.color,
-          startTime: Date.now()
-        });
-
-        // Set game state to gameOver after a delay to allow effects to show
-        setTimeout(() => {
-          actions.setGameState('gameOver');
-        }, 3000); // 3 seconds delay for victory effects
-      }
+      // Add victory celebration effects at the winning player's starting position
+      actions.addVisualEffect({
+        id: `victory-${Date.now()}`,
+        type: 'victory',
+        position: { x: spawn.col, y: spawn.row },
+        duration: 5000, // 5 seconds
+        intensity: 1,
+        color: winningPlayer.color,
+        startTime: Date.now()
+      });
     }
-  }, [gameState.players, gameState.gameState, actions]);
+
+    // Set game state to gameOver after a delay to allow effects to show
+    const timeoutId = setTimeout(() => {
+      actions.setGameState('gameOver');
+    }, 3000); // 3 seconds delay for victory effects
+    return () => clearTimeout(timeoutId);
+  }, [gameState.outcome, gameState.gameState, actions]);
 
   return (
     <div>
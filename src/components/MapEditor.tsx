@@ -0,0 +1,411 @@
+/**
+ * Map Editor Component
+ *
+ * Компонент редактора карт
+ *
+ * Editor for hand-made battlefields: paints terrain and territory owned from
+ * the first turn onto the grid, places a spawn point per player and keeps the
+ * results in the map library that setup chooses from.
+ *
+ * Редактор созданных вручную полей боя: рисует на сетке местность и
+ * территорию, принадлежащую игрокам с первого хода, расставляет точки
+ * появления игроков и сохраняет результат в библиотеку карт, из которой
+ * выбирают при настройке.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLanguageStore } from '../store/languageStore';
+import { BattleMap, Terrain, TerrainType } from '../types/game';
+import { GRID_SIZE_PRESETS, GridSize, getSpawnPoints } from '../utils/grid';
+import { MAX_PLAYERS, MIN_PLAYERS, PLAYER_COLORS } from '../utils/players';
+import { TERRAIN_TYPES, createPlainTerrain, drawTerrainCell, hasTerrain } from '../utils/terrain';
+import { MAX_MAP_NAME_LENGTH, createBlankMap, deleteMap, loadMaps, saveMap, validateBattleMap } from '../utils/battleMaps';
+import { Scenario, exportScenario, getScenarioFileName } from '../utils/scenarioFile';
+
+type EditorTool =
+  | { kind: 'terrain'; type: TerrainType }
+  | { kind: 'territory'; owner: number | null }
+  | { kind: 'spawn'; playerId: number };
+
+// Translation keys of the terrain types
+const TERRAIN_TYPE_LABELS: Record<TerrainType, string> = {
+  plain: 'terrainPlain',
+  wall: 'terrainWall',
+  nutrient: 'terrainNutrient',
+  hostile: 'terrainHostile'
+};
+
+// The largest preset has too many cells to paint by hand
+const EDITOR_GRID_SIZES = GRID_SIZE_PRESETS.slice(0, 3);
+
+const MAX_EDITOR_CELL_SIZE = 24;
+
+const isSameTool = (a: EditorTool, b: EditorTool) => JSON.stringify(a) === JSON.stringify(b);
+
+const optionButtonClass = (isSelected: boolean) =>
+  `px-2 py-1 rounded text-xs border-2 ${
+    isSelected ? 'border-blue-400 bg-blue-600 bg-opacity-60' : 'border-gray-700 bg-gray-700 hover:bg-gray-600'
+  }`;
+
+const MapEditor: React.FC = () => {
+  const { t } = useLanguageStore();
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef(false);
+  const [gridSize, setGridSize] = useState<GridSize>(EDITOR_GRID_SIZES[0]);
+  const [terrain, setTerrain] = useState<Terrain>(() => createPlainTerrain(EDITOR_GRID_SIZES[0]));
+  const [territory, setTerritory] = useState<(number | null)[][]>(() => createBlankMap(EDITOR_GRID_SIZES[0], 4).territory);
+  const [spawns, setSpawns] = useState(() => getSpawnPoints(EDITOR_GRID_SIZES[0], 4));
+  const [tool, setTool] = useState<EditorTool>({ kind: 'terrain', type: 'wall' });
+  const [name, setName] = useState('');
+  const [maps, setMaps] = useState<BattleMap[]>(() => loadMaps());
+  const [error, setError] = useState<string | null>(null);
+
+  const battleMap: BattleMap = { name, gridSize, terrain: hasTerrain(terrain) ? terrain : null, territory, spawns };
+
+  const getLayout = (canvas: HTMLCanvasElement) => {
+    const cellSize = Math.min(MAX_EDITOR_CELL_SIZE, canvas.clientWidth / gridSize.cols, canvas.clientHeight / gridSize.rows);
+    return {
+      cellSize,
+      offsetX: Math.max(0, (canvas.clientWidth - cellSize * gridSize.cols) / 2),
+      offsetY: Math.max(0, (canvas.clientHeight - cellSize * gridSize.rows) / 2)
+    };
+  };
+
+  // The whole map is redrawn on every edit; editor maps are small enough for that
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const devicePixelRatio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * devicePixelRatio;
+    canvas.height = canvas.clientHeight * devicePixelRatio;
+    ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
+    ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+    const { cellSize, offsetX, offsetY } = getLayout(canvas);
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(offsetX, offsetY, cellSize * gridSize.cols, cellSize * gridSize.rows);
+
+    for (let row = 0; row < gridSize.rows; row++) {
+      for (let col = 0; col < gridSize.cols; col++) {
+        const x = offsetX + col * cellSize;
+        const y = offsetY + row * cellSize;
+        drawTerrainCell(ctx, terrain[row][col], x, y, cellSize, cellSize);
+        const owner = territory[row][col];
+        if (owner !== null) {
+          ctx.globalAlpha = 0.55;
+          ctx.fillStyle = PLAYER_COLORS[owner % PLAYER_COLORS.length];
+          ctx.fillRect(x + 1, y + 1, cellSize - 2, cellSize - 2);
+          ctx.globalAlpha = 1;
+        }
+        ctx.strokeStyle = 'rgba(75, 85, 99, 0.4)';
+        ctx.lineWidth = 0.5;
+        ctx.strokeRect(x, y, cellSize, cellSize);
+      }
+    }
+
+    // Spawn points as numbered colonies
+    spawns.forEach(({ row, col }, playerId) => {
+      const centerX = offsetX + col * cellSize + cellSize / 2;
+      const centerY = offsetY + row * cellSize + cellSize / 2;
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, Math.max(3, cellSize * 0.45), 0, 2 * Math.PI);
+      ctx.fillStyle = PLAYER_COLORS[playerId % PLAYER_COLORS.length];
+      ctx.fill();
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      if (cellSize >= 10) {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = `${Math.floor(cellSize * 0.6)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(playerId + 1), centerX, centerY);
+      }
+    });
+  }, [gridSize, terrain, territory, spawns]);
+
+  const paint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const { cellSize, offsetX, offsetY } = getLayout(canvas);
+    const row = Math.floor((event.clientY - rect.top - offsetY) / cellSize);
+    const col = Math.floor((event.clientX - rect.left - offsetX) / cellSize);
+    if (row < 0 || row >= gridSize.rows || col < 0 || col >= gridSize.cols) return;
+
+    const spawnAt = spawns.findIndex(spawn => spawn.row === row && spawn.col === col);
+    const isWall = terrain[row][col] === 'wall';
+
+    switch (tool.kind) {
+      case 'terrain':
+        if (terrain[row][col] === tool.type) return;
+        // Spawn points stay reachable, and walls can't be owned
+        if (tool.type === 'wall' && spawnAt !== -1) return;
+        setTerrain(terrain.map((types, r) => (r === row ? types.map((type, c) => (c === col ? tool.type : type)) : types)));
+        if (tool.type === 'wall' && territory[row][col] !== null) {
+          setTerritory(territory.map((owners, r) => (r === row ? owners.map((owner, c) => (c === col ? null : owner)) : owners)));
+        }
+        break;
+      case 'territory':
+        if (isWall || territory[row][col] === tool.owner) return;
+        setTerritory(territory.map((owners, r) => (r === row ? owners.map((owner, c) => (c === col ? tool.owner : owner)) : owners)));
+        break;
+      case 'spawn':
+        if (isWall || spawnAt !== -1) return;
+        setSpawns(spawns.map((spawn, playerId) => (playerId === tool.playerId ? { row, col } : spawn)));
+        break;
+    }
+  };
+
+  const resize = (size: GridSize, playerCount: number) => {
+    const blank = createBlankMap(size, playerCount);
+    setGridSize(size);
+    setTerrain(createPlainTerrain(size));
+    setTerritory(blank.territory);
+    setSpawns(blank.spawns);
+    setError(null);
+  };
+
+  // Existing spawn points are kept; territory of dropped players is cleared
+  const changePlayerCount = (playerCount: number) => {
+    const defaults = getSpawnPoints(gridSize, playerCount);
+    const taken = new Set(spawns.slice(0, playerCount).map(({ row, col }) => `${row},${col}`));
+    setSpawns(defaults.map((spawn, playerId) => {
+      if (spawns[playerId]) return spawns[playerId];
+      // A new player whose default cell is taken or walled gets the first free open cell
+      let free = spawn;
+      for (let i = 0; taken.has(`${free.row},${free.col}`) || terrain[free.row][free.col] === 'wall'; i++) {
+        free = { row: Math.floor(i / gridSize.cols), col: i % gridSize.cols };
+      }
+      taken.add(`${free.row},${free.col}`);
+      return free;
+    }));
+    setTerritory(territory.map(owners => owners.map(owner => (owner !== null && owner >= playerCount ? null : owner))));
+    if (tool.kind === 'spawn' && tool.playerId >= playerCount) setTool({ kind: 'spawn', playerId: 0 });
+    if (tool.kind === 'territory' && tool.owner !== null && tool.owner >= playerCount) setTool({ kind: 'territory', owner: 0 });
+  };
+
+  const load = (saved: BattleMap) => {
+    setGridSize(saved.gridSize);
+    setTerrain(saved.terrain ?? createPlainTerrain(saved.gridSize));
+    setTerritory(saved.territory.map(owners => [...owners]));
+    setSpawns(saved.spawns.map(spawn => ({ ...spawn })));
+    setName(saved.name);
+    setError(null);
+  };
+
+  const save = () => {
+    const problem = validateBattleMap(battleMap);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (!saveMap(battleMap)) {
+      setError(t('mapSaveFailed'));
+      return;
+    }
+    setMaps(loadMaps());
+    setError(null);
+  };
+
+  // Writes the map as a scenario file with open builds, ready to share or edit by hand
+  const exportFile = () => {
+    const problem = validateBattleMap(battleMap);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const scenario: Scenario = {
+      name: battleMap.name.trim(),
+      description: '',
+      battleMap,
+      builds: battleMap.spawns.map(() => ({ name: null, virus: null, locked: false })),
+      victoryCondition: null,
+      seed: null
+    };
+    const blob = new Blob([exportScenario(scenario)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getScenarioFileName(scenario);
+    link.click();
+    URL.revokeObjectURL(url);
+    setError(null);
+  };
+
+  const remove = (mapName: string) => {
+    deleteMap(mapName);
+    setMaps(loadMaps());
+  };
+
+  const toolButtonClass = (candidate: EditorTool) => optionButtonClass(isSameTool(tool, candidate));
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-900 text-white overflow-hidden">
+      <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold font-pixy">{t('mapEditor')}</h1>
+          <p className="text-gray-400">{t('mapEditorDesc')}</p>
+        </div>
+        <button onClick={() => navigate('/')} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm">
+          {t('backToLab')}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0 p-4">
+          <canvas
+            ref={canvasRef}
+            className="w-full h-full touch-none cursor-crosshair"
+            onPointerDown={(e) => {
+              isPaintingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              paint(e);
+            }}
+            onPointerMove={(e) => isPaintingRef.current && paint(e)}
+            onPointerUp={() => { isPaintingRef.current = false; }}
+            onPointerCancel={() => { isPaintingRef.current = false; }}
+          />
+        </div>
+
+        <div className="w-72 flex-shrink-0 border-l border-gray-700 p-3 space-y-4 overflow-y-auto text-sm font-pixy">
+          <div>
+            <div className="mb-1">{t('gridSize')}</div>
+            <div className="grid grid-cols-3 gap-1">
+              {EDITOR_GRID_SIZES.map(size => (
+                <button
+                  key={`${size.rows}x${size.cols}`}
+                  onClick={() => resize(size, spawns.length)}
+                  className={optionButtonClass(size.rows === gridSize.rows && size.cols === gridSize.cols)}
+                >
+                  {size.rows}x{size.cols}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1">{t('playerCount')}</div>
+            <div className="flex flex-wrap gap-1">
+              {Array(MAX_PLAYERS - MIN_PLAYERS + 1).fill(null).map((_, i) => MIN_PLAYERS + i).map(count => (
+                <button
+                  key={count}
+                  onClick={() => changePlayerCount(count)}
+                  className={`w-8 ${optionButtonClass(spawns.length === count)}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1">{t('terrain')}</div>
+            <div className="flex flex-wrap gap-1">
+              {TERRAIN_TYPES.map(type => (
+                <button key={type} onClick={() => setTool({ kind: 'terrain', type })} className={toolButtonClass({ kind: 'terrain', type })}>
+                  {t(TERRAIN_TYPE_LABELS[type])}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1">{t('editorTerritory')}</div>
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => setTool({ kind: 'territory', owner: null })} className={toolButtonClass({ kind: 'territory', owner: null })}>
+                {t('editorUnowned')}
+              </button>
+              {spawns.map((_, owner) => (
+                <button
+                  key={owner}
+                  onClick={() => setTool({ kind: 'territory', owner })}
+                  className={toolButtonClass({ kind: 'territory', owner })}
+                  style={{ color: PLAYER_COLORS[owner % PLAYER_COLORS.length] }}
+                >
+                  {owner + 1}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1">{t('editorSpawns')}</div>
+            <div className="flex flex-wrap gap-1">
+              {spawns.map((_, playerId) => (
+                <button
+                  key={playerId}
+                  onClick={() => setTool({ kind: 'spawn', playerId })}
+                  className={toolButtonClass({ kind: 'spawn', playerId })}
+                  style={{ color: PLAYER_COLORS[playerId % PLAYER_COLORS.length] }}
+                >
+                  ● {playerId + 1}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => resize(gridSize, spawns.length)}
+            className="w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+          >
+            {t('editorClear')}
+          </button>
+
+          <div className="space-y-1">
+            <div className="flex gap-1">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_MAP_NAME_LENGTH}
+                placeholder={t('mapName')}
+                className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-1 text-xs"
+              />
+              <button
+                onClick={save}
+                disabled={!name.trim()}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+              >
+                {t('save')}
+              </button>
+              <button
+                onClick={exportFile}
+                disabled={!name.trim()}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+              >
+                {t('scenarioExport')}
+              </button>
+            </div>
+            {error && <p className="text-red-400 text-xs break-words">{error}</p>}
+          </div>
+
+          <div>
+            <div className="mb-1">{t('mapLibrary')}</div>
+            {maps.length === 0 && <p className="text-xs text-gray-400">{t('mapLibraryEmpty')}</p>}
+            <div className="flex flex-wrap gap-1">
+              {maps.map(saved => (
+                <span key={saved.name} className="flex items-center bg-gray-700 rounded text-xs">
+                  <button onClick={() => load(saved)} className="px-2 py-1 hover:bg-gray-600 rounded">
+                    {saved.name}
+                  </button>
+                  <button
+                    onClick={() => remove(saved.name)}
+                    title={t('mapDelete')}
+                    className="px-1 py-1 text-gray-400 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapEditor;
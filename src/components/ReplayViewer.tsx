@@ -0,0 +1,234 @@
+/**
+ * Replay Viewer Component
+ *
+ * Компонент просмотра повторов
+ *
+ * Plays back the recorded battle turn by turn. The viewer can scrub to any
+ * turn, step forwards and backwards, and play at variable speed, and shows
+ * each virus' territory for the current frame. Replays can be exported to a
+ * file and imported from teammates' files.
+ *
+ * Воспроизводит записанную битву по ходам. Можно перемотать на любой ход,
+ * шагать вперед и назад и проигрывать с разной скоростью; для текущего кадра
+ * показывается территория каждого вируса. Повторы можно экспортировать в файл
+ * и импортировать из файлов других игроков.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useReplayStore } from '../store/replayStore';
+import { useLanguageStore } from '../store/languageStore';
+import { Replay, createReplayCursor, getFrameTerritory } from '../utils/replay';
+import { exportReplay, getReplayFileName, importReplay } from '../utils/replayFile';
+import { countOpenCells } from '../utils/terrain';
+import CanvasGridOptimized from './CanvasGridOptimized';
+
+interface ReplayViewerProps {
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+// Same base pace as the live simulation at 1x
+const BASE_FRAME_INTERVAL = 400;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ onClose }) => {
+  const recordedReplay = useReplayStore(state => state.replay);
+  const { t } = useLanguageStore();
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // An imported file is shown instead of the recording until the viewer is closed
+  const [importedReplay, setImportedReplay] = useState<Replay | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const replay = importedReplay ?? recordedReplay;
+
+  // Rebuilt as a live recording grows; keyframes are recomputed lazily
+  const cursor = useMemo(() => (replay ? createReplayCursor(replay) : null), [replay]);
+  const lastFrame = cursor ? cursor.frameCount - 1 : 0;
+
+  // Playback
+  useEffect(() => {
+    if (!isPlaying) return;
+    const intervalId = window.setInterval(() => {
+      setFrameIndex(index => Math.min(index + 1, lastFrame));
+    }, BASE_FRAME_INTERVAL / speed);
+    return () => window.clearInterval(intervalId);
+  }, [isPlaying, speed, lastFrame]);
+
+  // Stop at the end of the recording
+  useEffect(() => {
+    if (isPlaying && frameIndex >= lastFrame) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, frameIndex, lastFrame]);
+
+  const handleExport = () => {
+    if (!replay) return;
+    const blob = new Blob([exportReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReplayFileName(replay);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (readError) {
+      setImportError(`${t('replayImportError')} ${readError instanceof Error ? readError.message : String(readError)}`);
+      return;
+    }
+    const { replay: imported, error } = importReplay(text);
+    if (!imported) {
+      setImportError(`${t('replayImportError')} ${error}`);
+      return;
+    }
+    setImportError(null);
+    setImportedReplay(imported);
+    setIsPlaying(false);
+    setFrameIndex(0);
+  };
+
+  const fileControls = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = ''; // Allow importing the same file again
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm"
+      >
+        {t('importReplay')}
+      </button>
+    </>
+  );
+
+  if (!replay || !cursor) {
+    return (
+      <div className="fixed inset-0 z-[100] bg-black bg-opacity-70 flex items-center justify-center">
+        <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-lg p-6 w-80">
+          <p className="text-gray-300 font-pixy mb-4">{t('noReplay')}</p>
+          {importError && <p className="text-red-400 text-sm mb-4 break-words">{importError}</p>}
+          <div className="flex justify-end gap-2">
+            {fileControls}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg font-pixy hover:from-blue-700 hover:to-indigo-700 transition-all text-sm"
+            >
+              {t('close')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const currentFrame = Math.min(frameIndex, lastFrame);
+  const grid = cursor.getFrame(currentFrame);
+  const territory = getFrameTerritory(replay, currentFrame);
+  const totalCells = countOpenCells(replay.gridSize, replay.terrain);
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.max(0, Math.min(lastFrame, currentFrame + delta)));
+  };
+
+  const controlButtonClass = 'px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm disabled:opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex flex-col p-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-bold font-pixy">{t('advancedReplay')}</h2>
+        <div className="flex items-center gap-2">
+          {fileControls}
+          <button onClick={handleExport} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-pixy text-sm">
+            {t('exportReplay')}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl font-pixy ml-2">
+            &times;
+          </button>
+        </div>
+      </div>
+      {importError && <p className="text-red-400 text-sm mb-2 break-words">{importError}</p>}
+
+      <div className="flex-1 min-h-0 relative">
+        <CanvasGridOptimized
+          frame={{ grid, players: replay.players, turn: replay.startTurn + currentFrame, gridSize: replay.gridSize, terrain: replay.terrain, topology: replay.topology }}
+        />
+      </div>
+
+      <div className="mt-3 space-y-3">
+        {/* Territory at this frame */}
+        <div className="flex flex-wrap gap-3 text-xs font-pixy">
+          {replay.players.map((player, playerId) => (
+            <div key={playerId} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: player.color }} />
+              <span>{player.name}</span>
+              <span className="text-gray-400">
+                {(((territory[playerId] ?? 0) / totalCells) * 100).toFixed(1)}%
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={lastFrame}
+          value={currentFrame}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setFrameIndex(Number(e.target.value));
+          }}
+          className="w-full"
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button className={controlButtonClass} onClick={() => step(-lastFrame)} disabled={currentFrame === 0}>⏮</button>
+          <button className={controlButtonClass} onClick={() => step(-1)} disabled={currentFrame === 0}>◀</button>
+          <button
+            className={controlButtonClass}
+            onClick={() => {
+              // Playing from the end starts over
+              if (!isPlaying && currentFrame >= lastFrame) setFrameIndex(0);
+              setIsPlaying(!isPlaying);
+            }}
+            disabled={lastFrame === 0}
+          >
+            {isPlaying ? '⏸' : '▶'}
+          </button>
+          <button className={controlButtonClass} onClick={() => step(1)} disabled={currentFrame >= lastFrame}>▶|</button>
+          <button className={controlButtonClass} onClick={() => step(lastFrame)} disabled={currentFrame >= lastFrame}>⏭</button>
+
+          <span className="font-pixy text-sm ml-2">
+            {t('turn')} {replay.startTurn + currentFrame} / {replay.startTurn + lastFrame}
+          </span>
+
+          <span className="font-pixy text-sm ml-auto">{t('replaySpeed')}</span>
+          {PLAYBACK_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-2 py-1 rounded font-pixy text-xs ${speed === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
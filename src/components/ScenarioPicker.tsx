@@ -0,0 +1,104 @@
+/**
+ * Scenario Picker Component
+ *
+ * Компонент выбора сценария
+ *
+ * Lab panel that loads a scenario, a battle map with its starting builds,
+ * victory condition and seed, either from the bundled list or from a file on
+ * disk. Files that fail the checks list every invalid field.
+ *
+ * Панель лаборатории, загружающая сценарий — карту сражения с начальными
+ * сборками, условием победы и зерном — из встроенного списка или из файла на
+ * диске. Для файлов, не прошедших проверку, перечисляются все неверные поля.
+ */
+import React, { useRef, useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useLanguageStore } from '../store/languageStore';
+import { BUNDLED_SCENARIOS } from '../scenarios';
+import { importScenario } from '../utils/scenarioFile';
+
+const ScenarioPicker: React.FC = () => {
+  const { actions } = useGameStore();
+  const { t } = useLanguageStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const scenario = BUNDLED_SCENARIOS[selected];
+
+  const handleImport = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (readError) {
+      setErrors([readError instanceof Error ? readError.message : String(readError)]);
+      return;
+    }
+    const { scenario: imported, errors: importErrors } = importScenario(text);
+    setErrors(importErrors);
+    if (imported) actions.loadScenario(imported);
+  };
+
+  const loadBundled = () => {
+    if (!scenario) return;
+    setErrors([]);
+    actions.loadScenario(scenario);
+  };
+
+  return (
+    <div className="bg-gray-800 bg-opacity-50 rounded-xl p-3 border border-gray-600 text-sm font-pixy space-y-2">
+      <h3 className="font-bold text-sm">{t('scenario')}</h3>
+
+      <div className="flex gap-1">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(Number(e.target.value))}
+          className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-1 text-xs"
+        >
+          {BUNDLED_SCENARIOS.map((bundled, index) => (
+            <option key={bundled.name} value={index}>
+              {bundled.name} ({bundled.battleMap.gridSize.rows}x{bundled.battleMap.gridSize.cols}, {bundled.battleMap.spawns.length})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={loadBundled}
+          disabled={!scenario}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+        >
+          {t('scenarioLoad')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = ''; // Allow importing the same file again
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+        >
+          {t('scenarioLoadFile')}
+        </button>
+      </div>
+
+      {scenario?.description && <p className="text-gray-400 text-xs">{scenario.description}</p>}
+
+      {errors.length > 0 && (
+        <div className="text-red-400 text-xs break-words">
+          <p>{t('scenarioErrors')}</p>
+          <ul className="list-disc list-inside">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPicker;
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { BattleMap, GameSettings, VirusParameters } from '../types/game';
+import { createBlankMap } from '../utils/battleMaps';
+import { createEmptyVirus } from '../utils/players';
+import { validateParameterAllocation } from '../utils/parameterValidation';
+import { AI_ARCHETYPES } from './ai';
+import { clearSpawnPoints, generateTerrain } from '../utils/terrain';
+import { AdvisorOptions, AdvisorProgress, DEFAULT_ADVISOR_OPTIONS, REFERENCE_POOL, getGameAdvisorOptions, getReallocations, playMatch, runAdvisor } from './advisor';
+import { runHeadlessBattle } from './battle';
+import { DEFAULT_VICTORY_CONDITION } from './victory';
+
+const QUICK_OPTIONS: AdvisorOptions = {
+  battles: 6,
+  candidateCount: 3,
+  candidateBattles: 4,
+  gridSize: { rows: 8, cols: 12 },
+  turnLimit: 60
+};
+
+describe('getReallocations', () => {
+  it('moves one point from a funded parameter to any other', () => {
+    const build: VirusParameters = { ...createEmptyVirus(), aggression: 10, defense: 6 };
+    const moves = getReallocations(build, 1);
+    expect(moves).toHaveLength(2 * 15);
+    for (const { from, to } of moves) {
+      expect(build[from]).toBeGreaterThan(0);
+      expect(to).not.toBe(from);
+    }
+  });
+
+  it('never pushes a parameter past 16', () => {
+    const build: VirusParameters = { ...createEmptyVirus(), stealth: 16 };
+    expect(getReallocations(build, 1).some(({ to }) => to === 'stealth')).toBe(false);
+  });
+});
+
+describe('playMatch', () => {
+  it('plays on the given terrain and topology, with every spawn point of the match cleared', () => {
+    const { gridSize, turnLimit } = QUICK_OPTIONS;
+    // Made for two players, played by three
+    const terrain = generateTerrain(gridSize, 'rugged', 2, 4)!;
+    const opponents = [AI_ARCHETYPES.turtle, AI_ARCHETYPES.rusher];
+    const { winner } = runHeadlessBattle({
+      builds: [AI_ARCHETYPES.turtle, AI_ARCHETYPES.balanced, AI_ARCHETYPES.rusher],
+      gridSize,
+      seed: 1,
+      turnLimit,
+      victoryCondition: { ...DEFAULT_VICTORY_CONDITION, mode: 'turnLimit', turnLimit, stalemateTurns: 0 },
+      terrain: clearSpawnPoints(terrain, gridSize, 3),
+      topology: 'hex'
+    });
+    const expected = winner === null ? 'draw' : winner === 1 ? 'win' : 'loss';
+    expect(playMatch(AI_ARCHETYPES.balanced, opponents, 1, 0, { ...QUICK_OPTIONS, terrain, topology: 'hex' })).toBe(expected);
+  });
+
+  it('plays on the spawn points and terrain of a battle map, filling its seats from the opponents', () => {
+    const { gridSize, turnLimit } = QUICK_OPTIONS;
+    const blank = createBlankMap(gridSize, 2);
+    const battleMap: BattleMap = {
+      ...blank,
+      name: 'Pocket',
+      terrain: blank.territory.map((cells, row) => cells.map((_, col) => (col === 6 && row > 1 ? 'wall' : 'plain'))),
+      spawns: [{ row: 4, col: 3 }, { row: 5, col: 9 }]
+    };
+    const opponents = [AI_ARCHETYPES.turtle, AI_ARCHETYPES.rusher];
+    // Two battles per round of seats, and every round meets the next opponent
+    const lineups = [
+      [AI_ARCHETYPES.balanced, AI_ARCHETYPES.turtle],
+      [AI_ARCHETYPES.turtle, AI_ARCHETYPES.balanced],
+      [AI_ARCHETYPES.balanced, AI_ARCHETYPES.rusher],
+      [AI_ARCHETYPES.rusher, AI_ARCHETYPES.balanced]
+    ];
+    const expected = lineups.map((builds, battle) => {
+      const { winner } = runHeadlessBattle({
+        builds,
+        gridSize,
+        seed: battle,
+        turnLimit,
+        victoryCondition: { ...DEFAULT_VICTORY_CONDITION, mode: 'turnLimit', turnLimit, stalemateTurns: 0 },
+        battleMap
+      });
+      return winner === null ? 'draw' : winner === battle % 2 ? 'win' : 'loss';
+    });
+    const results = lineups.map((_, battle) => playMatch(AI_ARCHETYPES.balanced, opponents, battle, 0, { ...QUICK_OPTIONS, battleMap }));
+    expect(results).toEqual(expected);
+  });
+});
+
+describe('getGameAdvisorOptions', () => {
+  const optionsFor = (gridSize: { rows: number; cols: number }) =>
+    getGameAdvisorOptions({ settings: { gridSize, topology: 'moore' } as GameSettings, terrain: null, battleMap: null });
+
+  it('keeps the default battle counts on the smallest grid', () => {
+    expect(optionsFor({ rows: 20, cols: 40 })).toMatchObject({
+      battles: DEFAULT_ADVISOR_OPTIONS.battles,
+      candidateBattles: DEFAULT_ADVISOR_OPTIONS.candidateBattles
+    });
+  });
+
+  it('plays fewer battles on larger grids, down to a floor', () => {
+    const medium = optionsFor({ rows: 35, cols: 70 });
+    expect(medium.battles).toBeLessThan(DEFAULT_ADVISOR_OPTIONS.battles);
+    expect(optionsFor({ rows: 100, cols: 200 })).toMatchObject({ gridSize: { rows: 100, cols: 200 }, battles: 40, candidateBattles: 4 });
+  });
+});
+
+describe('runAdvisor', () => {
+  it('reports progress for every battle', () => {
+    const progress: AdvisorProgress[] = [];
+    runAdvisor(AI_ARCHETYPES.rusher, REFERENCE_POOL.slice(1, 3), 5, QUICK_OPTIONS, update => progress.push(update));
+    const total = QUICK_OPTIONS.battles + QUICK_OPTIONS.candidateCount * QUICK_OPTIONS.candidateBattles;
+    expect(progress).toHaveLength(total);
+    expect(progress[progress.length - 1]).toEqual({ completed: total, total });
+  });
+
+  it('is reproducible for the same seed', () => {
+    const opponents = [AI_ARCHETYPES.turtle];
+    expect(runAdvisor(AI_ARCHETYPES.balanced, opponents, 9, QUICK_OPTIONS))
+      .toEqual(runAdvisor(AI_ARCHETYPES.balanced, opponents, 9, QUICK_OPTIONS));
+  });
+
+  it('only suggests valid builds that improved on the baseline', () => {
+    const build = AI_ARCHETYPES.balanced;
+    const report = runAdvisor(build, [AI_ARCHETYPES.rusher], 3, QUICK_OPTIONS);
+    expect(report.winRate).toBeGreaterThanOrEqual(0);
+    expect(report.winRate + report.drawRate).toBeLessThanOrEqual(1);
+    for (const { from, to, improvement } of report.suggestions) {
+      expect(improvement).toBeGreaterThan(0);
+      const candidate = { ...build, [from]: build[from] - 1, [to]: build[to] + 1 };
+      expect(validateParameterAllocation(candidate).total).toBe(16);
+    }
+  });
+});
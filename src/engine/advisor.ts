@@ -0,0 +1,190 @@
+/**
+ * Build Advisor
+ *
+ * Советник по сборке
+ *
+ * Scores a virus build by playing headless battles against a set of
+ * opponents (the other players' builds or the reference pool of AI
+ * archetypes) and looks for single-point reallocations that improve its win
+ * rate. Candidates are played on the same seeds as the first baseline
+ * battles, so their win rates can be compared directly.
+ *
+ * Оценивает вирус, проводя безголовые битвы против набора соперников (вирусы
+ * других игроков или эталонный набор архетипов ИИ), и ищет перенос одного
+ * очка, повышающий процент побед. Варианты играются на тех же сидах, что и
+ * первые базовые битвы, поэтому их результаты можно сравнивать напрямую.
+ */
+import { BattleMap, GameState, Terrain, Topology, VirusParameters } from '../types/game';
+import { GridSize } from '../utils/grid';
+import { createSeededRandom } from '../utils/seededRandom';
+import { clearSpawnPoints } from '../utils/terrain';
+import { AI_ARCHETYPES } from './ai';
+import { runHeadlessBattle } from './battle';
+import { DEFAULT_VICTORY_CONDITION } from './victory';
+
+// Opponents used when the advisor is not scoring against the other players
+export const REFERENCE_POOL: VirusParameters[] = Object.values(AI_ARCHETYPES);
+
+export interface MatchOptions {
+  gridSize: GridSize;
+  turnLimit: number; // The largest territory at this turn wins, so short battles still count
+  battleMap?: BattleMap | null; // Hand-made map with its own spawn points; replaces the grid size and terrain
+  terrain?: Terrain | null; // Open map when left out
+  topology?: Topology; // Moore neighbourhood when left out
+}
+
+// The parts of the game state that describe its map
+export type GameMap = Pick<GameState, 'settings' | 'terrain' | 'battleMap'>;
+
+// Match options that play on the map of the current game
+export const getGameMatchOptions = ({ settings, terrain, battleMap }: GameMap) => ({
+  gridSize: battleMap ? battleMap.gridSize : settings.gridSize,
+  battleMap,
+  terrain,
+  topology: settings.topology
+});
+
+export interface AdvisorOptions extends MatchOptions {
+  battles: number; // Battles for the baseline win rate
+  candidateCount: number; // Single-point reallocations to try
+  candidateBattles: number; // Battles per reallocation, at most the baseline battles
+}
+
+export const DEFAULT_ADVISOR_OPTIONS: AdvisorOptions = {
+  battles: 200,
+  candidateCount: 12,
+  candidateBattles: 16,
+  gridSize: { rows: 20, cols: 40 },
+  turnLimit: 200
+};
+
+// Cells of the grid the default battle counts are sized for
+const REFERENCE_MATCH_CELLS = 20 * 40;
+
+// Grids larger than the reference one get fewer battles
+export const isLargeMatchGrid = ({ rows, cols }: GridSize): boolean => rows * cols > REFERENCE_MATCH_CELLS;
+
+// Scales a battle count down in proportion to the grid's cells, so a big map costs a few
+// reference analyses rather than dozens; never below the minimum
+export const scaleBattleCount = (count: number, { rows, cols }: GridSize, minimum: number): number =>
+  Math.max(Math.min(count, minimum), Math.round(count * Math.min(1, REFERENCE_MATCH_CELLS / (rows * cols))));
+
+// Advisor options for the map of the current game
+export const getGameAdvisorOptions = (game: GameMap): AdvisorOptions => {
+  const match = getGameMatchOptions(game);
+  return {
+    ...DEFAULT_ADVISOR_OPTIONS,
+    ...match,
+    battles: scaleBattleCount(DEFAULT_ADVISOR_OPTIONS.battles, match.gridSize, 40),
+    candidateBattles: scaleBattleCount(DEFAULT_ADVISOR_OPTIONS.candidateBattles, match.gridSize, 4)
+  };
+};
+
+export interface Reallocation {
+  from: keyof VirusParameters;
+  to: keyof VirusParameters;
+  winRate: number; // Over the candidate battles
+  improvement: number; // Against the baseline on the same seeds
+}
+
+export interface AdvisorReport {
+  battles: number;
+  winRate: number;
+  drawRate: number;
+  suggestions: Reallocation[]; // Only reallocations that helped, best first
+}
+
+export interface AdvisorProgress {
+  completed: number;
+  total: number;
+}
+
+export type MatchResult = 'win' | 'draw' | 'loss';
+
+// The build changes seat every battle so no spawn point is favoured. A battle map has a seat per
+// spawn point; when there are more opponents than other seats, each round of seats meets the next ones.
+export const playMatch = (
+  build: VirusParameters,
+  opponents: VirusParameters[],
+  battle: number,
+  seed: number,
+  options: MatchOptions
+): MatchResult => {
+  const { battleMap = null } = options;
+  const seats = battleMap ? battleMap.spawns.length : opponents.length + 1;
+  const seat = battle % seats;
+  const firstOpponent = Math.floor(battle / seats) * (seats - 1);
+  const builds = Array(seats - 1).fill(null).map((_, i) => opponents[(firstOpponent + i) % opponents.length]);
+  builds.splice(seat, 0, build);
+  const { winner } = runHeadlessBattle({
+    builds,
+    gridSize: battleMap ? battleMap.gridSize : options.gridSize,
+    seed: (seed + battle) >>> 0,
+    turnLimit: options.turnLimit,
+    battleMap,
+    // Generated terrain may have been made for another player count, so every spawn point of this match is cleared
+    terrain: battleMap ? battleMap.terrain : options.terrain && clearSpawnPoints(options.terrain, options.gridSize, seats),
+    topology: options.topology,
+    victoryCondition: { ...DEFAULT_VICTORY_CONDITION, mode: 'turnLimit', turnLimit: options.turnLimit, stalemateTurns: 0 }
+  });
+  if (winner === null) return 'draw';
+  return winner === seat ? 'win' : 'loss';
+};
+
+const countWins = (results: MatchResult[]) => results.filter(result => result === 'win').length;
+
+// Every move of one point from a funded parameter to another, in a seeded random order
+export const getReallocations = (build: VirusParameters, seed: number): Pick<Reallocation, 'from' | 'to'>[] => {
+  const parameters = Object.keys(build) as (keyof VirusParameters)[];
+  const moves = parameters
+    .filter(from => build[from] > 0)
+    .flatMap(from => parameters.filter(to => to !== from && build[to] < 16).map(to => ({ from, to })));
+
+  const rng = createSeededRandom(seed);
+  for (let i = moves.length - 1; i > 0; i--) {
+    const j = rng.nextInt(i + 1);
+    [moves[i], moves[j]] = [moves[j], moves[i]];
+  }
+  return moves;
+};
+
+export const runAdvisor = (
+  build: VirusParameters,
+  opponents: VirusParameters[],
+  seed: number,
+  options: AdvisorOptions = DEFAULT_ADVISOR_OPTIONS,
+  onProgress?: (progress: AdvisorProgress) => void
+): AdvisorReport => {
+  const candidates = getReallocations(build, seed).slice(0, options.candidateCount);
+  const total = options.battles + candidates.length * options.candidateBattles;
+  let completed = 0;
+  const play = (virus: VirusParameters, battle: number) => {
+    const result = playMatch(virus, opponents, battle, seed, options);
+    onProgress?.({ completed: ++completed, total });
+    return result;
+  };
+
+  const baseline = Array(options.battles).fill(null).map((_, battle) => play(build, battle));
+  const baselineSubsetWins = countWins(baseline.slice(0, options.candidateBattles));
+
+  const suggestions: Reallocation[] = candidates.map(({ from, to }) => {
+    const candidate = { ...build, [from]: build[from] - 1, [to]: build[to] + 1 };
+    const results = Array(options.candidateBattles).fill(null).map((_, battle) => play(candidate, battle));
+    const wins = countWins(results);
+    return {
+      from,
+      to,
+      winRate: wins / options.candidateBattles,
+      improvement: (wins - baselineSubsetWins) / options.candidateBattles
+    };
+  });
+
+  return {
+    battles: options.battles,
+    winRate: options.battles > 0 ? countWins(baseline) / options.battles : 0,
+    drawRate: options.battles > 0 ? baseline.filter(result => result === 'draw').length / options.battles : 0,
+    suggestions: suggestions
+      .filter(suggestion => suggestion.improvement > 0)
+      .sort((a, b) => b.improvement - a.improvement)
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { VirusParameters } from '../types/game';
+import { createEmptyVirus } from '../utils/players';
+import { validateParameterAllocation } from '../utils/parameterValidation';
+import { createSeededRandom } from '../utils/seededRandom';
+import { AI_ARCHETYPES, AI_STRATEGIES, chooseCounterArchetype, createAiBuild } from './ai';
+
+const build = (parameters: Partial<VirusParameters>): VirusParameters => ({ ...createEmptyVirus(), ...parameters });
+
+const expectFullBuild = (virus: VirusParameters) => {
+  const validation = validateParameterAllocation(virus);
+  expect(validation.isValid).toBe(true);
+  expect(validation.total).toBe(16);
+};
+
+describe('AI archetypes', () => {
+  it('spend exactly 16 points each', () => {
+    Object.values(AI_ARCHETYPES).forEach(expectFullBuild);
+  });
+});
+
+describe('createAiBuild', () => {
+  it('always produces a valid 16-point build', () => {
+    const opponentBuild = fc.array(fc.integer({ min: 0, max: 4 }), { minLength: 16, maxLength: 16 })
+      .map(values => Object.fromEntries(Object.keys(createEmptyVirus()).map((key, i) => [key, values[i]])) as unknown as VirusParameters);
+    fc.assert(fc.property(
+      fc.constantFrom(...AI_STRATEGIES),
+      fc.array(opponentBuild, { maxLength: 7 }),
+      fc.integer({ min: 0, max: 0xffffffff }),
+      (strategy, opponents, seed) => {
+        expectFullBuild(createAiBuild(strategy, opponents, createSeededRandom(seed).next));
+      }
+    ));
+  });
+
+  it('stays close to the chosen archetype', () => {
+    const virus = createAiBuild('stealthSwarm', [], createSeededRandom(3).next);
+    expect(virus.stealth).toBeGreaterThanOrEqual(9);
+  });
+});
+
+describe('chooseCounterArchetype', () => {
+  it('plays balanced when no opponent has revealed a build', () => {
+    expect(chooseCounterArchetype([createEmptyVirus(), createEmptyVirus()])).toBe('balanced');
+  });
+
+  it('turtles against attackers', () => {
+    expect(chooseCounterArchetype([build({ aggression: 8, virulence: 8 })])).toBe('turtle');
+  });
+
+  it('avoids fighting defensive builds', () => {
+    expect(chooseCounterArchetype([build({ defense: 8, resistance: 8 }), build({ stability: 16 })])).toBe('stealthSwarm');
+  });
+
+  it('rushes fast expanders', () => {
+    expect(chooseCounterArchetype([build({ speed: 10, mobility: 6 })])).toBe('rusher');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * AI Opponents
+ *
+ * ИИ-противники
+ *
+ * Builds viruses for AI-controlled players. An AI either follows one of the
+ * strategy archetypes (rusher, turtle, stealth swarm, balanced), with a
+ * little random variation so no two battles are alike, or counter-picks: it
+ * reads the builds its opponents have revealed and chooses the archetype that
+ * answers their dominant strategy. Every build spends exactly 16 points and
+ * passes validateParameterAllocation.
+ *
+ * Создает вирусы для игроков под управлением ИИ. ИИ либо следует одному из
+ * архетипов стратегии (штурмовик, черепаха, скрытный рой, сбалансированный) с
+ * небольшим случайным разбросом, чтобы битвы не повторялись, либо подбирает
+ * контрстратегию: изучает раскрытые вирусы соперников и выбирает архетип,
+ * отвечающий их основной стратегии. Каждый вирус тратит ровно 16 очков и
+ * проходит validateParameterAllocation.
+ */
+import { AiStrategy, VirusParameters } from '../types/game';
+import { ParameterBalance, getParameterBalance, validateParameterAllocation } from '../utils/parameterValidation';
+import { createEmptyVirus } from '../utils/players';
+
+export type AiArchetype = Exclude<AiStrategy, 'counterPick'>;
+
+export const AI_STRATEGIES: AiStrategy[] = ['rusher', 'turtle', 'stealthSwarm', 'balanced', 'counterPick'];
+
+// Points every build must spend
+const BUILD_POINTS = 16;
+
+// Single points an archetype build moves at random, so AI players are not fully predictable
+const ARCHETYPE_VARIATION = 2;
+
+export const AI_ARCHETYPES: Record<AiArchetype, VirusParameters> = {
+  // Fights for every border cell and spreads fast behind the front
+  rusher: { ...createEmptyVirus(), aggression: 6, reproduction: 4, infectivity: 3, speed: 3 },
+  // Holds what it has; slow expansion behind a wall of defense
+  turtle: { ...createEmptyVirus(), defense: 5, resistance: 4, resilience: 3, endurance: 2, reproduction: 2 },
+  // Jumps over contested cells to seed territory in empty space (stealth above 10)
+  stealthSwarm: { ...createEmptyVirus(), stealth: 11, infectivity: 3, reproduction: 2 },
+  // A little of everything
+  balanced: {
+    ...createEmptyVirus(),
+    aggression: 2, defense: 2, speed: 2, reproduction: 2, intelligence: 2, adaptability: 2, infectivity: 2, lethality: 2
+  }
+};
+
+type BalanceCategory = Exclude<keyof ParameterBalance, 'overallBalance'>;
+
+// Archetype that answers an opponent field dominated by each strategic category
+const COUNTER_ARCHETYPES: Record<BalanceCategory, AiArchetype> = {
+  offensive: 'turtle', // Out-defend the attackers
+  defensive: 'stealthSwarm', // Don't fight the walls, take the empty land around them
+  growth: 'rusher', // Fast, thin expansion is easy to break through
+  adaptability: 'rusher', // End the battle before mutation and comebacks pay off
+  coordination: 'turtle' // Swarms and support bonuses stall against a solid defense
+};
+
+const isRevealed = (virus: VirusParameters) => Object.values(virus).some(value => value > 0);
+
+// Picks the counter to the opponents' combined build; balanced when nothing has been revealed
+export const chooseCounterArchetype = (opponents: VirusParameters[]): AiArchetype => {
+  const revealed = opponents.filter(isRevealed);
+  if (revealed.length === 0) return 'balanced';
+
+  const totals: Record<BalanceCategory, number> = { offensive: 0, defensive: 0, growth: 0, adaptability: 0, coordination: 0 };
+  for (const virus of revealed) {
+    const balance = getParameterBalance(virus);
+    (Object.keys(totals) as BalanceCategory[]).forEach(category => {
+      totals[category] += balance[category];
+    });
+  }
+
+  const dominant = (Object.keys(totals) as BalanceCategory[])
+    .reduce((best, category) => (totals[category] > totals[best] ? category : best));
+  return COUNTER_ARCHETYPES[dominant];
+};
+
+// Moves single points between parameters; the total stays the same
+const varyBuild = (virus: VirusParameters, moves: number, random: () => number): VirusParameters => {
+  const build = { ...virus };
+  const parameters = Object.keys(build) as (keyof VirusParameters)[];
+  for (let i = 0; i < moves; i++) {
+    const funded = parameters.filter(parameter => build[parameter] > 0);
+    const from = funded[Math.floor(random() * funded.length)];
+    const to = parameters[Math.floor(random() * parameters.length)];
+    build[from]--;
+    build[to]++;
+  }
+  return build;
+};
+
+export const isFullBuild = (virus: VirusParameters) => {
+  const { isValid, total } = validateParameterAllocation(virus);
+  return isValid && total === BUILD_POINTS;
+};
+
+// Builds a virus for an AI player; opponents are the other players' current builds
+export const createAiBuild = (
+  strategy: AiStrategy,
+  opponents: VirusParameters[],
+  random: () => number = Math.random
+): VirusParameters => {
+  const archetype = strategy === 'counterPick' ? chooseCounterArchetype(opponents) : strategy;
+  const template = AI_ARCHETYPES[archetype];
+  const build = varyBuild(template, ARCHETYPE_VARIATION, random);
+  return isFullBuild(build) ? build : { ...template };
+};
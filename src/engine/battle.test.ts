@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { BattleMap, Cell, GameSettings, Player, Terrain, VirusParameters } from '../types/game';
+import { createBattleGrid, createBlankMap } from '../utils/battleMaps';
+import { createStartingGrid } from '../utils/grid';
+import { applyEliminations, applyMutations, createEmptyVirus, createPlayer } from '../utils/players';
+import { runHeadlessBattle, summariseBattles } from './battle';
+import { calculateNextGameState } from './simulation';
+import { DEFAULT_VICTORY_CONDITION } from './victory';
+
+const GRID_SIZE = { rows: 12, cols: 20 };
+
+const BUILDS: VirusParameters[] = [
+  { ...createEmptyVirus(), mobility: 11, reproduction: 3, mutation: 2 },
+  { ...createEmptyVirus(), stealth: 11, infectivity: 5 },
+  { ...createEmptyVirus(), aggression: 13, reproduction: 3 }
+];
+
+// Plays turns the way the game does, which sends the worker a fresh copy of the players every turn
+const playLikeTheGame = (startGrid: Cell[][], terrain: Terrain | null, seed: number, turns: number): Cell[][] => {
+  const settings = {
+      gridSize: GRID_SIZE,
+      playerCount: BUILDS.length,
+      victoryCondition: DEFAULT_VICTORY_CONDITION,
+      topology: 'moore'
+  } as GameSettings;
+  let players: Player[] = BUILDS.map((virus, id) => ({ ...createPlayer(id), isReady: true, virus: { ...virus } }));
+  let grid = startGrid;
+  let rngState = seed;
+  for (let turn = 0; turn < turns; turn++) {
+    const result = calculateNextGameState(grid, structuredClone(players), turn, settings, seed, rngState, terrain);
+    grid = result.newGrid;
+    rngState = result.rngState;
+    players = applyMutations(applyEliminations(players, result.eliminationEvents), result.mutationEvents);
+  }
+  return grid;
+};
+
+describe('runHeadlessBattle', () => {
+  it('plays the same battle as the game worker for the same seed', () => {
+    const seed = 2024;
+    const headless = runHeadlessBattle({ builds: BUILDS, gridSize: GRID_SIZE, seed, turnLimit: 80 });
+    const grid = playLikeTheGame(createStartingGrid(GRID_SIZE, BUILDS.length), null, seed, headless.turns);
+    expect(headless.finalGrid).toEqual(grid);
+  });
+
+  it('starts from the spawn points, territory and terrain of a battle map', () => {
+    const seed = 77;
+    const blank = createBlankMap(GRID_SIZE, BUILDS.length);
+    const battleMap: BattleMap = {
+      ...blank,
+      name: 'Crossing',
+      terrain: blank.territory.map((cells, row) => cells.map((_, col) => (col === 10 && row !== 6 ? 'wall' : 'plain'))),
+      territory: blank.territory.map((cells, row) => cells.map((_, col) => (row === 0 && col < 3 ? 1 : null))),
+      spawns: [{ row: 6, col: 4 }, { row: 2, col: 15 }, { row: 10, col: 16 }]
+    };
+    const headless = runHeadlessBattle({ builds: BUILDS, gridSize: GRID_SIZE, seed, turnLimit: 40, battleMap });
+    const grid = playLikeTheGame(createBattleGrid(GRID_SIZE, BUILDS.length, battleMap), battleMap.terrain, seed, headless.turns);
+    expect(headless.finalGrid).toEqual(grid);
+    expect(headless.finalGrid).not.toEqual(
+      runHeadlessBattle({ builds: BUILDS, gridSize: GRID_SIZE, seed, turnLimit: 40, terrain: battleMap.terrain }).finalGrid
+    );
+  });
+});
+
+describe('summariseBattles', () => {
+  it('measures territory shares against the open cells of a walled map', () => {
+    const gridSize = { rows: 2, cols: 2 };
+    const terrain: Terrain = [['wall', 'plain'], ['plain', 'plain']];
+    // Player 1 holds every cell that isn't a wall
+    const result = { seed: 1, winner: 0, reason: null, turns: 1, territoryHistory: [[3, 0]], finalTerritory: [3, 0], finalGrid: [] };
+    const summary = summariseBattles([result], 2, gridSize, 1, terrain);
+    expect(summary.averageTerritoryCurve).toEqual([[1, 0]]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Headless Battles
+ *
+ * Безголовые битвы
+ *
+ * Runs complete battles with the simulation engine, without rendering or a
+ * worker, and aggregates many of them into balance statistics: win rates,
+ * average territory curves and turns to victory. Used by the batch battle
+ * runner and anything else that needs to play battles out of the browser.
+ *
+ * Проводит полные битвы с помощью движка симуляции без отрисовки и воркера и
+ * сводит множество битв в статистику баланса: процент побед, средние кривые
+ * территории и число ходов до победы. Используется пакетным запуском битв и
+ * всем, что должно проигрывать битвы вне браузера.
+ */
+import { BattleMap, Cell, GameSettings, Player, Terrain, Topology, VictoryCondition, VictoryOutcome, VictoryReason, VirusParameters } from '../types/game';
+import { createBattleGrid } from '../utils/battleMaps';
+import { GridSize } from '../utils/grid';
+import { applyEliminations, applyMutations, createPlayer } from '../utils/players';
+import { countOpenCells } from '../utils/terrain';
+import { DEFAULT_TOPOLOGY } from '../utils/topology';
+import { calculateNextGameState } from './simulation';
+import { DEFAULT_VICTORY_CONDITION, countUnchangedTurns, evaluateVictory } from './victory';
+
+export interface HeadlessBattleOptions {
+  builds: VirusParameters[]; // One build per player, in player order
+  gridSize: GridSize;
+  seed: number;
+  turnLimit: number; // Battle is a draw if nobody has won by this turn
+  victoryCondition?: VictoryCondition; // Defaults to the in-game default
+  battleMap?: BattleMap | null; // Hand-made map to start from; generated spawn points when left out
+  terrain?: Terrain | null; // The battle map's terrain, or an open map, when left out
+  topology?: Topology; // Moore neighbourhood when left out
+}
+
+export interface HeadlessBattleResult {
+  seed: number;
+  winner: number | null; // Player id, or null for a draw
+  reason: VictoryReason | null; // How the battle was decided, null when it hit the turn limit
+  turns: number;
+  territoryHistory: number[][]; // [turn][player] cells owned after each turn
+  finalTerritory: number[];
+  finalGrid: Cell[][]; // Grid after the last turn
+}
+
+export interface BattleBatchSummary {
+  battles: number;
+  playerCount: number;
+  turnLimit: number;
+  wins: number[];
+  winRates: number[];
+  draws: number;
+  averageTurnsToVictory: (number | null)[]; // Per player, over the battles that player won
+  averageTerritoryCurve: number[][]; // [turn][player] average share of the grid, 0..1
+}
+
+const createHeadlessSettings = (
+  gridSize: GridSize,
+  playerCount: number,
+  victoryCondition: VictoryCondition,
+  topology: Topology
+): GameSettings => ({
+  simulationInterval: 0,
+  maxEffects: 0,
+  enableVisualEffects: false,
+  enableSound: false,
+  gridSize,
+  playerCount,
+  visualEffectQuality: 'low',
+  victoryCondition,
+  terrainPreset: 'open',
+  scenarioSeed: null,
+  topology
+});
+
+const createHeadlessPlayers = (builds: VirusParameters[]): Player[] =>
+  builds.map((virus, id) => ({ ...createPlayer(id), isReady: true, virus: { ...virus } }));
+
+export const runHeadlessBattle = ({
+  builds,
+  gridSize,
+  seed,
+  turnLimit,
+  victoryCondition = DEFAULT_VICTORY_CONDITION,
+  battleMap = null,
+  terrain = battleMap?.terrain ?? null,
+  topology = DEFAULT_TOPOLOGY
+}: HeadlessBattleOptions): HeadlessBattleResult => {
+  let players = createHeadlessPlayers(builds);
+  const settings = createHeadlessSettings(gridSize, players.length, victoryCondition, topology);
+  const totalCells = countOpenCells(gridSize, terrain);
+
+  let grid = createBattleGrid(gridSize, players.length, battleMap);
+  let rngState = seed;
+  let unchangedTurns = 0;
+  let outcome: VictoryOutcome | null = null;
+  const territoryHistory: number[][] = [];
+
+  for (let turn = 0; turn < turnLimit && outcome === null; turn++) {
+    const result = calculateNextGameState(grid, players, turn, settings, seed, rngState, terrain);
+    unchangedTurns = countUnchangedTurns(grid, result.newGrid, unchangedTurns);
+    grid = result.newGrid;
+    rngState = result.rngState;
+    players = applyMutations(applyEliminations(players, result.eliminationEvents), result.mutationEvents);
+    territoryHistory.push(result.territoryCounts);
+
+    outcome = evaluateVictory(victoryCondition, {
+      territoryCounts: result.territoryCounts,
+      totalCells,
+      turn: result.turn,
+      unchangedTurns
+    });
+  }
+
+  return {
+    seed,
+    winner: outcome?.winner ?? null,
+    reason: outcome?.reason ?? null,
+    turns: territoryHistory.length,
+    territoryHistory,
+    finalTerritory: territoryHistory[territoryHistory.length - 1] ?? players.map(() => 0),
+    finalGrid: grid
+  };
+};
+
+export interface BattleStatistics {
+  add: (result: HeadlessBattleResult) => void;
+  summary: () => BattleBatchSummary;
+}
+
+// Accumulates results one battle at a time, so large batches don't have to keep every territory history
+export const createBattleStatistics = (
+  playerCount: number,
+  gridSize: GridSize,
+  turnLimit: number,
+  terrain: Terrain | null = null // Shares are of the open cells, as in the victory check
+): BattleStatistics => {
+  const totalCells = countOpenCells(gridSize, terrain);
+  const wins: number[] = Array(playerCount).fill(0);
+  const victoryTurns: number[] = Array(playerCount).fill(0);
+  const curveTotals: number[][] = Array(turnLimit).fill(null).map(() => Array(playerCount).fill(0));
+  let battles = 0;
+  let draws = 0;
+
+  return {
+    add: (result) => {
+      battles++;
+      if (result.winner === null) {
+        draws++;
+      } else {
+        wins[result.winner]++;
+        victoryTurns[result.winner] += result.turns;
+      }
+      // A finished battle keeps its final territory for the remaining turns, so every curve has the same length
+      for (let turn = 0; turn < turnLimit; turn++) {
+        const counts = result.territoryHistory[Math.min(turn, result.territoryHistory.length - 1)] ?? [];
+        for (let player = 0; player < playerCount; player++) {
+          curveTotals[turn][player] += counts[player] ?? 0;
+        }
+      }
+    },
+    summary: () => ({
+      battles,
+      playerCount,
+      turnLimit,
+      wins: [...wins],
+      winRates: wins.map(count => (battles > 0 ? count / battles : 0)),
+      draws,
+      averageTurnsToVictory: wins.map((count, player) => (count > 0 ? victoryTurns[player] / count : null)),
+      averageTerritoryCurve: curveTotals.map(row =>
+        row.map(total => (battles > 0 ? total / battles / totalCells : 0))
+      )
+    })
+  };
+};
+
+export const summariseBattles = (
+  results: HeadlessBattleResult[],
+  playerCount: number,
+  gridSize: GridSize,
+  turnLimit: number,
+  terrain: Terrain | null = null
+): BattleBatchSummary => {
+  const statistics = createBattleStatistics(playerCount, gridSize, turnLimit, terrain);
+  results.forEach(statistics.add);
+  return statistics.summary();
+};
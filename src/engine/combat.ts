@@ -0,0 +1,63 @@
+/**
+ * Combat Resolution
+ *
+ * Разрешение боя
+ *
+ * Pure combat formula used by the grid simulation. A capture attempt is a
+ * contest between the local strength of the attacking and the defending cell:
+ * virus-wide power, scaled by the cell's growth and by how many friendly
+ * neighbours back it up. The stronger side is favoured, but the weaker one
+ * always keeps a chance to win a single fight.
+ *
+ * Чистая формула боя, используемая симуляцией сетки. Попытка захвата — это
+ * состязание локальной силы атакующей и защищающейся клетки: общая сила вируса,
+ * умноженная на рост клетки и на количество поддерживающих её соседей.
+ * Сильная сторона в преимуществе, но у слабой всегда остается шанс.
+ */
+
+// Minimum power every virus fights with, even with no points in attack or defense
+export const COMBAT_BASE_POWER = 0.1;
+
+// Strength bonus for a cell fully surrounded by friendly cells (0.5 = +50%)
+export const NEIGHBOUR_SUPPORT_WEIGHT = 0.5;
+
+// How strongly the contest favours the stronger side (1 = proportional)
+export const CONTEST_SHARPNESS = 2;
+
+// Chance of capture when the attacker completely overwhelms the defender
+export const MAX_CAPTURE_CHANCE = 0.6;
+
+export interface CombatContext {
+  attackPower: number; // Attacker's virus-wide attack after parameter modifiers
+  attackerGrowth: number; // Growth of the attacking cell
+  attackerSupport: number; // Friendly neighbours of the attacking cell
+  defensePower: number; // Defender's virus-wide defense after parameter modifiers
+  defenderGrowth: number; // Growth of the defending cell
+  defenderSupport: number; // Friendly neighbours of the defending cell
+  neighbourCount: number; // Size of a full neighbourhood, used to normalise support
+}
+
+export const calculateLocalStrength = (
+  power: number,
+  growth: number,
+  support: number,
+  neighbourCount: number
+): number => {
+  const supportRatio = neighbourCount > 0 ? Math.min(1, support / neighbourCount) : 0;
+  return (Math.max(0, power) + COMBAT_BASE_POWER) * Math.max(1, growth) * (1 + NEIGHBOUR_SUPPORT_WEIGHT * supportRatio);
+};
+
+export const calculateCaptureProbability = (context: CombatContext): number => {
+  const attack = calculateLocalStrength(
+    context.attackPower, context.attackerGrowth, context.attackerSupport, context.neighbourCount
+  ) ** CONTEST_SHARPNESS;
+  const defense = calculateLocalStrength(
+    context.defensePower, context.defenderGrowth, context.defenderSupport, context.neighbourCount
+  ) ** CONTEST_SHARPNESS;
+
+  return MAX_CAPTURE_CHANCE * (attack / (attack + defense));
+};
+
+// `roll` is a uniform random number in [0, 1) supplied by the caller's generator
+export const resolveCapture = (context: CombatContext, roll: number): boolean =>
+  roll < calculateCaptureProbability(context);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyVirus } from '../utils/players';
+import { validateParameterAllocation } from '../utils/parameterValidation';
+import { AI_ARCHETYPES } from './ai';
+import { OptimizerOptions, OptimizerProgress, runOptimizer } from './optimizer';
+
+const QUICK_OPTIONS: OptimizerOptions = {
+  generations: 3,
+  offspring: 2,
+  battlesPerBuild: 3,
+  gridSize: { rows: 8, cols: 12 },
+  turnLimit: 60
+};
+
+describe('runOptimizer', () => {
+  it('streams the best build after every build it scores', () => {
+    const progress: OptimizerProgress[] = [];
+    runOptimizer(AI_ARCHETYPES.rusher, [AI_ARCHETYPES.turtle], 4, QUICK_OPTIONS, update => progress.push(update));
+    const total = QUICK_OPTIONS.generations * (QUICK_OPTIONS.offspring + 1) * QUICK_OPTIONS.battlesPerBuild;
+    expect(progress).toHaveLength(QUICK_OPTIONS.generations * (QUICK_OPTIONS.offspring + 1));
+    expect(progress[progress.length - 1]).toMatchObject({ completed: total, total, generation: QUICK_OPTIONS.generations });
+    for (const { best } of progress) {
+      expect(validateParameterAllocation(best).total).toBe(16);
+    }
+  });
+
+  it('is reproducible for the same seed', () => {
+    const opponents = [AI_ARCHETYPES.stealthSwarm, AI_ARCHETYPES.turtle];
+    expect(runOptimizer(AI_ARCHETYPES.balanced, opponents, 11, QUICK_OPTIONS))
+      .toEqual(runOptimizer(AI_ARCHETYPES.balanced, opponents, 11, QUICK_OPTIONS));
+  });
+
+  it('returns a valid 16-point build with a score between 0 and 1', () => {
+    const result = runOptimizer(AI_ARCHETYPES.turtle, [AI_ARCHETYPES.rusher], 2, QUICK_OPTIONS);
+    const validation = validateParameterAllocation(result.best);
+    expect(validation.isValid).toBe(true);
+    expect(validation.total).toBe(16);
+    expect(result.fitness).toBeGreaterThanOrEqual(0);
+    expect(result.fitness).toBeLessThanOrEqual(1);
+    expect(result.battles).toBe(QUICK_OPTIONS.generations * (QUICK_OPTIONS.offspring + 1) * QUICK_OPTIONS.battlesPerBuild);
+  });
+
+  it('starts from the balanced archetype when the build is incomplete', () => {
+    const progress: OptimizerProgress[] = [];
+    runOptimizer(createEmptyVirus(), [AI_ARCHETYPES.rusher], 6, { ...QUICK_OPTIONS, generations: 1, offspring: 0 },
+      update => progress.push(update));
+    expect(progress[0].best).toEqual(AI_ARCHETYPES.balanced);
+  });
+});
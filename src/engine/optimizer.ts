@@ -0,0 +1,129 @@
+/**
+ * Parameter Optimizer
+ *
+ * Оптимизатор параметров
+ *
+ * Searches the 16-point build space for the virus that does best against a
+ * set of opponents. The search is a seeded hill climb: every generation the
+ * current build and a few mutated copies (one to three points moved) play the
+ * same headless battles, and the one with the best score carries on. A tie
+ * keeps the current build. Each generation uses new seeds, so a build has to
+ * keep winning to stay on top.
+ *
+ * Ищет среди сборок на 16 очков вирус, который лучше всего играет против
+ * набора соперников. Поиск — восхождение на холм с сидом: в каждом поколении
+ * текущая сборка и несколько ее мутаций (перенос от одного до трех очков)
+ * играют одни и те же безголовые битвы, и дальше идет сборка с лучшим счетом.
+ * При равенстве остается текущая. Каждое поколение играет на новых сидах,
+ * поэтому сборка остается лучшей, только если продолжает побеждать.
+ */
+import { VirusParameters } from '../types/game';
+import { SeededRandom, createSeededRandom } from '../utils/seededRandom';
+import { AI_ARCHETYPES, isFullBuild } from './ai';
+import { GameMap, MatchOptions, MatchResult, getGameMatchOptions, playMatch, scaleBattleCount } from './advisor';
+
+export interface OptimizerOptions extends MatchOptions {
+  generations: number;
+  offspring: number; // Mutated builds tried against the current one each generation
+  battlesPerBuild: number; // Battles every build plays in a generation
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: OptimizerOptions = {
+  generations: 12,
+  offspring: 5,
+  battlesPerBuild: 12,
+  gridSize: { rows: 20, cols: 40 },
+  turnLimit: 200
+};
+
+// Optimizer options for the map of the current game, with fewer generations and battles on large maps
+export const getGameOptimizerOptions = (game: GameMap): OptimizerOptions => {
+  const match = getGameMatchOptions(game);
+  return {
+    ...DEFAULT_OPTIMIZER_OPTIONS,
+    ...match,
+    generations: scaleBattleCount(DEFAULT_OPTIMIZER_OPTIONS.generations, match.gridSize, 6),
+    battlesPerBuild: scaleBattleCount(DEFAULT_OPTIMIZER_OPTIONS.battlesPerBuild, match.gridSize, 4)
+  };
+};
+
+export interface OptimizerProgress {
+  completed: number; // Battles played so far
+  total: number;
+  generation: number; // Generation being played, from 1
+  best: VirusParameters;
+  fitness: number; // Score of the best build so far in this generation
+}
+
+export interface OptimizerResult {
+  best: VirusParameters;
+  fitness: number;
+  initialFitness: number; // Score of the starting build in the first generation
+  battles: number;
+}
+
+// Most points a single mutation moves
+const MAX_MUTATION_POINTS = 3;
+
+// A win scores 1 and a draw half, so builds that hold on are preferred to ones that lose
+const scoreResults = (results: MatchResult[]) =>
+  results.reduce((score, result) => score + (result === 'win' ? 1 : result === 'draw' ? 0.5 : 0), 0) / results.length;
+
+const mutateBuild = (build: VirusParameters, rng: SeededRandom): VirusParameters => {
+  const mutated = { ...build };
+  const parameters = Object.keys(mutated) as (keyof VirusParameters)[];
+  const points = 1 + rng.nextInt(MAX_MUTATION_POINTS);
+  for (let i = 0; i < points; i++) {
+    const funded = parameters.filter(parameter => mutated[parameter] > 0);
+    const from = funded[rng.nextInt(funded.length)];
+    const targets = parameters.filter(parameter => parameter !== from && mutated[parameter] < 16);
+    const to = targets[rng.nextInt(targets.length)];
+    mutated[from]--;
+    mutated[to]++;
+  }
+  return mutated;
+};
+
+// Starts from the given build, or from the balanced archetype when it doesn't spend exactly 16 points
+export const runOptimizer = (
+  build: VirusParameters,
+  opponents: VirusParameters[],
+  seed: number,
+  options: OptimizerOptions = DEFAULT_OPTIMIZER_OPTIONS,
+  onProgress?: (progress: OptimizerProgress) => void
+): OptimizerResult => {
+  const rng = createSeededRandom(seed);
+  const total = options.generations * (options.offspring + 1) * options.battlesPerBuild;
+  let completed = 0;
+  let best = isFullBuild(build) ? { ...build } : { ...AI_ARCHETYPES.balanced };
+  let fitness = 0;
+  let initialFitness = 0;
+
+  for (let generation = 0; generation < options.generations; generation++) {
+    const firstBattle = generation * options.battlesPerBuild;
+    // Every build of a generation plays the same seeds and seats, so scores compare directly
+    const evaluate = (virus: VirusParameters) => {
+      const results = Array(options.battlesPerBuild).fill(null)
+        .map((_, battle) => playMatch(virus, opponents, firstBattle + battle, seed, options));
+      completed += results.length;
+      return scoreResults(results);
+    };
+    const report = () => onProgress?.({ completed, total, generation: generation + 1, best: { ...best }, fitness });
+
+    fitness = evaluate(best);
+    if (generation === 0) initialFitness = fitness;
+    report();
+
+    for (let i = 0; i < options.offspring; i++) {
+      const candidate = mutateBuild(best, rng);
+      const candidateFitness = evaluate(candidate);
+      if (candidateFitness > fitness) {
+        best = candidate;
+        fitness = candidateFitness;
+      }
+      report();
+    }
+  }
+
+  return { best, fitness, initialFitness, battles: completed };
+};
@@ -0,0 +1,401 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { Cell, GameSettings, Player, Topology, VirusParameters } from '../types/game';
+import { MAX_CELL_GROWTH, createEmptyCell, createOwnedCell, createStartingGrid } from '../utils/grid';
+import { MAX_PLAYERS, MIN_PLAYERS, createEmptyVirus, createPlayer } from '../utils/players';
+import { calculateNextGameState, getMutationInterval } from './simulation';
+import { decodeTerrain } from '../utils/terrain';
+import { DEFAULT_VICTORY_CONDITION } from './victory';
+
+const PARAMETER_NAMES = Object.keys(createEmptyVirus()) as (keyof VirusParameters)[];
+
+const createSettings = (rows: number, cols: number, playerCount: number, topology: Topology = 'moore'): GameSettings => ({
+  simulationInterval: 0,
+  maxEffects: 0,
+  enableVisualEffects: false,
+  enableSound: false,
+  gridSize: { rows, cols },
+  playerCount,
+  visualEffectQuality: 'low',
+  victoryCondition: DEFAULT_VICTORY_CONDITION,
+  terrainPreset: 'open',
+  scenarioSeed: null,
+  topology
+});
+
+const createTestPlayers = (builds: Partial<VirusParameters>[]): Player[] =>
+  builds.map((build, id) => ({ ...createPlayer(id), virus: { ...createEmptyVirus(), ...build } }));
+
+// Grid from rows of characters: '.' is empty, digits are the owning player
+const parseGrid = (rows: string[]): Cell[][] =>
+  rows.map(row => [...row].map(char => (char === '.' ? createEmptyCell() : createOwnedCell(Number(char)))));
+
+const countOwned = (grid: Cell[][], owner: number) =>
+  grid.flat().filter(cell => cell.owner === owner).length;
+
+const step = (grid: Cell[][], players: Player[], rngState: number, turn = 0) =>
+  calculateNextGameState(grid, players, turn, createSettings(grid.length, grid[0].length, players.length), 1, rngState);
+
+describe('calculateNextGameState', () => {
+  it('replays the same turn for the same generator state', () => {
+    const players = createTestPlayers([{ reproduction: 8, aggression: 8 }, { defense: 8, infectivity: 8 }]);
+    const grid = parseGrid(['0.....', '......', '.....1']);
+    expect(step(grid, players, 123)).toEqual(step(grid, players, 123));
+  });
+
+  it('does not modify the input grid', () => {
+    const players = createTestPlayers([{ reproduction: 16 }, { reproduction: 16 }]);
+    const grid = parseGrid(['0...', '...1']);
+    const snapshot = JSON.stringify(grid);
+    step(grid, players, 7);
+    expect(JSON.stringify(grid)).toBe(snapshot);
+  });
+
+  it('does not modify the input players', () => {
+    const players = createTestPlayers([{ mobility: 16, reproduction: 16 }, { mobility: 16, infectivity: 16 }]);
+    const snapshot = JSON.stringify(players);
+    step(parseGrid(['0.....', '......', '.....1']), players, 11);
+    expect(JSON.stringify(players)).toBe(snapshot);
+  });
+
+  it('plays the same battle from the same seed with reused player objects', () => {
+    const players = createTestPlayers([{ mobility: 16, reproduction: 16 }, { mobility: 16, infectivity: 16 }]);
+    const play = () => {
+      let grid = createStartingGrid({ rows: 12, cols: 20 }, players.length);
+      let rngState = 42;
+      for (let turn = 0; turn < 15; turn++) {
+        const result = step(grid, players, rngState, turn);
+        grid = result.newGrid;
+        rngState = result.rngState;
+      }
+      return grid;
+    };
+    expect(play()).toEqual(play());
+  });
+
+  it('advances the turn and echoes the seed', () => {
+    const players = createTestPlayers([{}, {}]);
+    const result = calculateNextGameState(parseGrid(['0..1']), players, 41, createSettings(1, 4, 2), 99, 5);
+    expect(result.turn).toBe(42);
+    expect(result.seed).toBe(99);
+    expect(result.rngState).not.toBe(5);
+  });
+
+  describe('combat phase', () => {
+    it('lets a strong attacker capture a weak neighbour', () => {
+      const players = createTestPlayers([{ aggression: 16 }, {}]);
+      const captures = Array(50).fill(null).filter((_, seed) => {
+        const result = step(parseGrid(['01']), players, seed);
+        return result.newGrid[0][1].owner === 0;
+      }).length;
+      expect(captures).toBeGreaterThan(10);
+    });
+
+    it('never captures without contact', () => {
+      const players = createTestPlayers([{ aggression: 16 }, {}]);
+      for (let seed = 0; seed < 50; seed++) {
+        expect(step(parseGrid(['0..1']), players, seed).territoryCounts).toEqual([1, 1]);
+      }
+    });
+
+    it('starts captured cells at the lowest growth', () => {
+      const players = createTestPlayers([{ aggression: 16 }, {}]);
+      const grid = parseGrid(['01']);
+      grid[0][1].growth = MAX_CELL_GROWTH;
+      for (let seed = 0; seed < 50; seed++) {
+        const result = step(grid, players, seed);
+        if (result.newGrid[0][1].owner === 0) {
+          expect(result.newGrid[0][1].growth).toBe(1);
+          return;
+        }
+      }
+      throw new Error('No capture in 50 seeds');
+    });
+
+    it('lets lethal viruses destroy cells instead of taking them', () => {
+      const players = createTestPlayers([{ aggression: 8, lethality: 8 }, {}]);
+      const outcomes = Array(200).fill(null).map((_, seed) => step(parseGrid(['01']), players, seed).newGrid[0][1].owner);
+      expect(outcomes).toContain(null);
+      expect(outcomes).toContain(0);
+    });
+
+    it('skips dormant cells', () => {
+      const players = createTestPlayers([{ aggression: 16 }, {}]);
+      const grid = parseGrid(['01']);
+      grid[0][0].latency = true;
+      for (let seed = 0; seed < 50; seed++) {
+        expect(step(grid, players, seed).newGrid[0][1].owner).toBe(1);
+      }
+    });
+  });
+
+  describe('growth phase', () => {
+    it('grows held cells by one per turn up to the maximum', () => {
+      const players = createTestPlayers([{}]);
+      let grid = parseGrid(['...', '.0.', '...']);
+      for (let turn = 0; turn < MAX_CELL_GROWTH + 2; turn++) {
+        grid = step(grid, players, turn, turn).newGrid;
+        expect(grid[1][1].growth).toBe(Math.min(MAX_CELL_GROWTH, turn + 2));
+      }
+    });
+
+    it('ticks burst cooldowns down', () => {
+      const players = createTestPlayers([{}]);
+      const grid = parseGrid(['0.']);
+      grid[0][0].burstCooldown = 3;
+      expect(step(grid, players, 1).newGrid[0][0].burstCooldown).toBe(2);
+    });
+  });
+
+  describe('expansion phase', () => {
+    it('does not expand without reproduction, mobility or infectivity', () => {
+      const players = createTestPlayers([{ defense: 16 }]);
+      let grid = parseGrid(['.....', '..0..', '.....']);
+      for (let turn = 0; turn < 20; turn++) {
+        grid = step(grid, players, turn, turn).newGrid;
+      }
+      expect(countOwned(grid, 0)).toBe(1);
+    });
+
+    it('expands only into adjacent empty cells', () => {
+      const players = createTestPlayers([{ reproduction: 16 }]);
+      for (let seed = 0; seed < 30; seed++) {
+        const result = step(parseGrid(['.....', '.....', '..0..', '.....', '.....']), players, seed);
+        result.newGrid.forEach((row, r) => row.forEach((cell, c) => {
+          if (cell.owner === 0) {
+            expect(Math.max(Math.abs(r - 2), Math.abs(c - 2))).toBeLessThanOrEqual(1);
+          }
+        }));
+      }
+    });
+
+    it('starts new cells at the lowest growth', () => {
+      const players = createTestPlayers([{ reproduction: 16, infectivity: 16 }]);
+      let grid = parseGrid(['...', '.0.', '...']);
+      grid[1][1].growth = 3;
+      for (let turn = 0; countOwned(grid, 0) === 1; turn++) {
+        grid = step(grid, players, turn, turn).newGrid;
+      }
+      expect(grid.flat().filter(cell => cell.owner === 0 && cell.growth === 1).length).toBe(countOwned(grid, 0) - 1);
+    });
+  });
+
+  describe('speed phase', () => {
+    it('gives fast viruses extra expansion passes', () => {
+      let slow = parseGrid(['.......', '.......', '...0...', '.......', '.......']);
+      let fast = slow;
+      const slowPlayers = createTestPlayers([{ speed: 5 }]);
+      const fastPlayers = createTestPlayers([{ speed: 16 }]);
+      for (let turn = 0; turn < 10; turn++) {
+        slow = step(slow, slowPlayers, turn, turn).newGrid;
+        fast = step(fast, fastPlayers, turn, turn).newGrid;
+      }
+      expect(countOwned(slow, 0)).toBe(1);
+      expect(countOwned(fast, 0)).toBeGreaterThan(1);
+    });
+  });
+
+  describe('dormancy', () => {
+    it('marks cells surrounded by their own virus as dormant', () => {
+      const players = createTestPlayers([{}]);
+      const result = step(parseGrid(['000', '000', '00.']), players, 1);
+      expect(result.newGrid[0][0].latency).toBe(true);
+      expect(result.newGrid[1][1].latency).toBe(false);
+      expect(result.newGrid[2][1].latency).toBe(false);
+      expect(result.newGrid[2][2].latency).toBe(false);
+    });
+  });
+
+  describe('elimination', () => {
+    it('reports a virus that lost its last cell on this turn', () => {
+      const players = createTestPlayers([{ aggression: 16 }, {}]);
+      for (let seed = 0; seed < 50; seed++) {
+        const result = step(parseGrid(['01']), players, seed, 9);
+        if (result.territoryCounts[1] === 0) {
+          expect(result.eliminationEvents).toEqual([{ player: 1, turn: 10 }]);
+          return;
+        }
+        expect(result.eliminationEvents).toEqual([]);
+      }
+      throw new Error('No elimination in 50 seeds');
+    });
+
+    it('does not report a virus that was already eliminated', () => {
+      const players = createTestPlayers([{}, {}]);
+      players[1].eliminatedTurn = 3;
+      expect(step(parseGrid(['0..']), players, 1).eliminationEvents).toEqual([]);
+    });
+
+    it('leaves eliminated viruses out of the comeback bonus', () => {
+      // With the eliminated third virus counted, the fair share would drop and player 1 would no longer be behind
+      const builds = [{ aggression: 8 }, { aggression: 8, adaptability: 16 }, {}];
+      const grid = parseGrid(['0001']);
+      const alive = createTestPlayers(builds);
+      const withEliminated = createTestPlayers(builds);
+      withEliminated[2].eliminatedTurn = 1;
+      for (let seed = 0; seed < 20; seed++) {
+        expect(step(grid, withEliminated, seed).newGrid).toEqual(step(grid, alive.slice(0, 2), seed).newGrid);
+      }
+    });
+  });
+
+  describe('mutation', () => {
+    it('mutates more often the higher the mutation parameter', () => {
+      expect(getMutationInterval(0)).toBeNull();
+      expect(getMutationInterval(1)).toBe(400);
+      expect(getMutationInterval(16)).toBe(25);
+    });
+
+    it('shifts one point once the interval has passed since the last mutation', () => {
+      const players = createTestPlayers([{ mutation: 16 }, { mutation: 0, defense: 16 }]);
+      const grid = parseGrid(['0..1']);
+      expect(step(grid, players, 1, 23).mutationEvents).toEqual([]);
+
+      const [event, ...others] = step(grid, players, 1, 24).mutationEvents;
+      expect(others).toEqual([]);
+      expect(event).toMatchObject({ player: 0, turn: 25, from: 'mutation' });
+      expect(event.to).not.toBe('mutation');
+
+      players[0].lastMutationTurn = 25;
+      expect(step(grid, players, 1, 30).mutationEvents).toEqual([]);
+    });
+
+    it('does not mutate eliminated viruses', () => {
+      const players = createTestPlayers([{}, { mutation: 16 }]);
+      players[1].eliminatedTurn = 3;
+      expect(step(parseGrid(['0..']), players, 1, 99).mutationEvents).toEqual([]);
+    });
+  });
+
+  describe('terrain', () => {
+    const stepOn = (grid: Cell[][], players: Player[], terrain: string[], rngState: number, turn = 0) =>
+      calculateNextGameState(grid, players, turn, createSettings(grid.length, grid[0].length, players.length), 1, rngState,
+        decodeTerrain(terrain, { rows: grid.length, cols: grid[0].length }).terrain);
+
+    it('keeps walls empty and viruses on their own side', () => {
+      const players = createTestPlayers([{ reproduction: 8, aggression: 8 }, { mobility: 8, infectivity: 8 }]);
+      const terrain = ['..#..', '..#..', '..#..'];
+      let grid = parseGrid(['0....', '.....', '....1']);
+      for (let turn = 0; turn < 40; turn++) {
+        grid = stepOn(grid, players, terrain, turn, turn).newGrid;
+      }
+      grid.forEach(row => {
+        expect(row[2].owner).toBeNull();
+        expect(row.slice(0, 2).every(cell => cell.owner === 0)).toBe(true);
+        expect(row.slice(3).every(cell => cell.owner === 1)).toBe(true);
+      });
+    });
+
+    it('makes expansion into hostile zones fail more often', () => {
+      const players = createTestPlayers([{ reproduction: 16 }]);
+      const grid = parseGrid(['.....', '.....', '..0..', '.....', '.....']);
+      const hostile = ['~~~~~', '~~~~~', '~~.~~', '~~~~~', '~~~~~'];
+      const plain = ['.....', '.....', '.....', '.....', '.....'];
+      const spread = (terrain: string[]) => Array(50).fill(null)
+        .reduce((sum, _, seed) => sum + countOwned(stepOn(grid, players, terrain, seed).newGrid, 0), 0);
+      expect(spread(hostile)).toBeLessThan(spread(plain));
+    });
+
+    it('grows cells on nutrient terrain faster', () => {
+      const players = createTestPlayers([{}]);
+      const result = stepOn(parseGrid(['0.0']), players, ['+..'], 1);
+      expect(result.newGrid[0][0].growth).toBe(result.newGrid[0][2].growth + 1);
+    });
+  });
+
+  describe('topologies', () => {
+    const stepWith = (topology: Topology, grid: Cell[][], players: Player[], rngState: number, turn = 0) =>
+      calculateNextGameState(grid, players, turn, createSettings(grid.length, grid[0].length, players.length, topology), 1, rngState);
+
+    const ownedCells = (grid: Cell[][], owner: number) => grid.flatMap((cells, row) =>
+      cells.flatMap((cell, col) => (cell.owner === owner ? [`${row},${col}`] : [])));
+
+    it('expands only into the neighbours of the chosen topology', () => {
+      const players = createTestPlayers([{ reproduction: 16 }]);
+      const grid = parseGrid(['.....', '.....', '..0..', '.....', '.....']);
+      const neighbours: Record<Exclude<Topology, 'moore'>, string[]> = {
+        vonNeumann: ['1,2', '2,1', '2,2', '2,3', '3,2'],
+        hex: ['1,1', '1,2', '2,1', '2,2', '2,3', '3,1', '3,2'] // Odd rows sit half a cell to the right, so row 2 touches columns 1 and 2 above and below
+      };
+      for (const [topology, allowed] of Object.entries(neighbours) as [Topology, string[]][]) {
+        const reached = new Set<string>();
+        for (let seed = 0; seed < 200; seed++) {
+          ownedCells(stepWith(topology, grid, players, seed).newGrid, 0).forEach(cell => reached.add(cell));
+        }
+        expect([...reached].sort()).toEqual(allowed);
+      }
+    });
+  });
+});
+
+describe('simulation properties', () => {
+  // A random allocation of exactly 16 points
+  const buildArbitrary = fc.array(fc.integer({ min: 0, max: PARAMETER_NAMES.length - 1 }), { minLength: 16, maxLength: 16 })
+    .map(indices => {
+      const virus = createEmptyVirus();
+      indices.forEach(index => virus[PARAMETER_NAMES[index]]++);
+      return virus;
+    });
+
+  const battleArbitrary = fc.record({
+    builds: fc.array(buildArbitrary, { minLength: MIN_PLAYERS, maxLength: MAX_PLAYERS }),
+    rows: fc.integer({ min: 4, max: 12 }),
+    cols: fc.integer({ min: 4, max: 16 }),
+    seed: fc.integer({ min: 0, max: 0xffffffff }),
+    turns: fc.integer({ min: 1, max: 30 })
+  });
+
+  const playBattle = (
+    { builds, rows, cols, seed, turns }: { builds: VirusParameters[]; rows: number; cols: number; seed: number; turns: number },
+    check: (grid: Cell[][], territoryCounts: number[], players: Player[]) => void
+  ) => {
+    const players = createTestPlayers(builds);
+    const settings = createSettings(rows, cols, players.length);
+    let grid = createStartingGrid(settings.gridSize, players.length);
+    let rngState = seed;
+    for (let turn = 0; turn < turns; turn++) {
+      const result = calculateNextGameState(grid, players, turn, settings, seed, rngState);
+      grid = result.newGrid;
+      rngState = result.rngState;
+      check(grid, result.territoryCounts, players);
+    }
+  };
+
+  it('territory counts always sum to the owned cells', () => {
+    fc.assert(fc.property(battleArbitrary, battle => {
+      playBattle(battle, (grid, territoryCounts) => {
+        const owned = grid.flat().filter(cell => cell.owner !== null).length;
+        expect(territoryCounts.reduce((sum, count) => sum + count, 0)).toBe(owned);
+      });
+    }), { numRuns: 40 });
+  });
+
+  it('a cell is never owned by a nonexistent player', () => {
+    fc.assert(fc.property(battleArbitrary, battle => {
+      playBattle(battle, (grid, _territoryCounts, players) => {
+        for (const cell of grid.flat()) {
+          if (cell.owner !== null) {
+            expect(Number.isInteger(cell.owner)).toBe(true);
+            expect(cell.owner).toBeGreaterThanOrEqual(0);
+            expect(cell.owner).toBeLessThan(players.length);
+          }
+        }
+      });
+    }), { numRuns: 40 });
+  });
+
+  it('cell growth stays within bounds', () => {
+    fc.assert(fc.property(battleArbitrary, battle => {
+      playBattle(battle, grid => {
+        for (const cell of grid.flat()) {
+          if (cell.owner === null) {
+            expect(cell.growth).toBe(0);
+          } else {
+            expect(cell.growth).toBeGreaterThanOrEqual(1);
+            expect(cell.growth).toBeLessThanOrEqual(MAX_CELL_GROWTH);
+          }
+        }
+      });
+    }), { numRuns: 40 });
+  });
+});
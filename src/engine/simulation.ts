@@ -0,0 +1,682 @@
+/**
+ * Simulation Engine
+ *
+ * Движок симуляции
+ *
+ * Pure implementation of the battle rules: combat, growth, expansion and
+ * territory counting for one turn, on top of an optional terrain layer. It
+ * has no DOM or Web Worker dependencies, so the game's worker, Node scripts,
+ * tests and batch tools all run battles with exactly the same rules.
+ *
+ * Чистая реализация правил битвы: бой, рост, расширение и подсчет территории
+ * за один ход с учетом необязательного слоя местности. Модуль не зависит от
+ * DOM и веб-воркеров, поэтому воркер игры, скрипты Node, тесты и пакетные
+ * инструменты используют одни и те же правила.
+ */
+import { Player, GameSettings, Cell, Terrain, Topology, VirusParameters } from '../types/game';
+import { SeededRandom, createSeededRandom } from '../utils/seededRandom';
+import { MAX_CELL_GROWTH, createEmptyCell, createOwnedCell } from '../utils/grid';
+import { isEliminated } from '../utils/players';
+import { getTerrainAt } from '../utils/terrain';
+import { DEFAULT_TOPOLOGY, TOPOLOGY_DIRECTIONS, getDistance, getLineCells, getNeighbourCount, stepInDirection } from '../utils/topology';
+import { resolveCapture } from './combat';
+
+export interface GridPosition2D {
+  row: number;
+  col: number;
+}
+
+export interface AttackEvent {
+  from: GridPosition2D;
+  to: GridPosition2D;
+  attacker: number;
+}
+
+export interface ExpansionEvent {
+  from: GridPosition2D;
+  to: GridPosition2D;
+  player: number;
+}
+
+export interface ParameterEvent {
+  position: GridPosition2D;
+  type: string;
+  player: number;
+}
+
+export interface InteractionEvent {
+  position: GridPosition2D;
+  type: 'attack' | 'defense' | 'capture';
+  player: number;
+}
+
+export interface EliminationEvent {
+  player: number;
+  turn: number; // Turn on which the virus lost its last cell
+}
+
+export interface MutationEvent {
+  player: number;
+  turn: number;
+  from: keyof VirusParameters; // Parameter that lost a point
+  to: keyof VirusParameters; // Parameter that gained it
+}
+
+export interface SimulationResult {
+  newGrid: Cell[][];
+  turn: number;
+  seed: number;
+  rngState: number; // Generator state after this turn, to be passed into the next one
+  territoryCounts: number[];
+  attackEvents: AttackEvent[];
+  expansionEvents: ExpansionEvent[];
+  parameterEvents: ParameterEvent[];
+  interactionEvents: InteractionEvent[];
+  eliminationEvents: EliminationEvent[]; // Viruses that lost their last cell this turn
+  mutationEvents: MutationEvent[]; // Viruses whose build shifted by one point this turn
+}
+
+// Turns a cell must wait after an explosive growth burst
+const BURST_COOLDOWN_TURNS = 5;
+
+// Turns between build mutations at mutation 1; divided by the mutation value, so 25 turns at 16
+const MUTATION_INTERVAL_TURNS = 400;
+
+// Extra defense of a cell standing on a nutrient cell
+const NUTRIENT_DEFENSE_BONUS = 0.1;
+
+// Extra growth per turn of a cell standing on a nutrient cell
+const NUTRIENT_GROWTH_BONUS = 1;
+
+// Chance that an expansion into a hostile zone takes hold
+const HOSTILE_EXPANSION_CHANCE = 0.4;
+
+// Adjacency tables keyed by grid size, topology and wall layout, built once and reused every turn
+const adjacentCellsCache = new Map<string, { row: number; col: number }[][][]>();
+
+// Tables kept for different maps before the oldest is dropped
+const MAX_CACHED_ADJACENCY_TABLES = 8;
+
+// Positions of the walls as part of a cache key; empty for a map without walls
+function getWallKey(terrain: Terrain | null | undefined): string {
+  if (!terrain) return '';
+  const walls: number[] = [];
+  terrain.forEach((cells, row) => cells.forEach((type, col) => {
+    if (type === 'wall') walls.push(row * cells.length + col);
+  }));
+  return walls.length > 0 ? `:${walls.join(',')}` : '';
+}
+
+// Get (or build) the precomputed adjacent cells for every position on a grid of the given size.
+// Walls are left out of the table entirely: they have no neighbours and are no cell's neighbour.
+export function getAdjacencyTable(
+  rows: number,
+  cols: number,
+  terrain?: Terrain | null,
+  topology: Topology = DEFAULT_TOPOLOGY
+): { row: number; col: number }[][][] {
+  const key = `${rows}x${cols}:${topology}${getWallKey(terrain)}`;
+  const cached = adjacentCellsCache.get(key);
+  if (cached) return cached;
+
+  const precomputedAdjacentCells: { row: number; col: number }[][][] = [];
+  const directions = TOPOLOGY_DIRECTIONS[topology];
+
+  for (let row = 0; row < rows; row++) {
+    precomputedAdjacentCells[row] = [];
+    for (let col = 0; col < cols; col++) {
+      const adjacent: { row: number; col: number }[] = [];
+      const isWall = getTerrainAt(terrain, row, col) === 'wall';
+
+      for (const direction of directions) {
+        const { row: newRow, col: newCol } = stepInDirection(topology, row, col, direction);
+
+        if (!isWall && newRow >= 0 && newRow < rows && newCol >= 0 && newCol < cols
+          && getTerrainAt(terrain, newRow, newCol) !== 'wall') {
+          adjacent.push({ row: newRow, col: newCol });
+        }
+      }
+
+      precomputedAdjacentCells[row][col] = adjacent;
+    }
+  }
+
+  if (adjacentCellsCache.size >= MAX_CACHED_ADJACENCY_TABLES) {
+    adjacentCellsCache.delete(adjacentCellsCache.keys().next().value!);
+  }
+  adjacentCellsCache.set(key, precomputedAdjacentCells);
+  return precomputedAdjacentCells;
+}
+
+// Helper function to get adjacent cells
+export function getAdjacentCells(adjacency: { row: number; col: number }[][][], row: number, col: number): { row: number; col: number }[] {
+  return adjacency[row][col];
+}
+
+// Per-player combat and growth modifiers derived from the virus parameters
+interface PlayerFactors {
+  attack: number;
+  defense: number;
+  mutationVariance: number; // mutation: random swing applied to every attack roll
+  extraExpansionPasses: number; // speed: additional expansion passes per turn
+  extraExpansionChance: number; // speed: success chance of each extra expansion attempt
+  comebackBonus: number; // adaptability: attack bonus while holding less than a fair share of cells
+  defensePiercing: number; // virulence: fraction of the defender's defense that is ignored
+  survivalChance: number; // endurance: chance an attacked cell holds out despite losing
+  weakestTargetChance: number; // intelligence: chance to target the weakest neighbouring enemy
+  supportBonus: number; // resilience: defense bonus per friendly neighbour of an attacked cell
+  killChance: number; // lethality: chance a captured cell is destroyed instead of taken over
+}
+
+// Precompute attack/defense factors for each player to avoid repeated calculations
+// Eliminated viruses are skipped and don't count towards the fair share of the map
+function precomputePlayerFactors(players: Player[], territoryCounts: number[], totalOwnedCells: number): PlayerFactors[] {
+  const activePlayers = players.filter(player => player && !isEliminated(player)).length;
+  const fairShare = activePlayers > 0 ? totalOwnedCells / activePlayers : 0;
+
+  return players.map((player, playerId) => {
+    if (!player || isEliminated(player)) {
+      return {
+        attack: 0, defense: 0, mutationVariance: 0, extraExpansionPasses: 0, extraExpansionChance: 0,
+        comebackBonus: 0, defensePiercing: 0, survivalChance: 0, weakestTargetChance: 0, supportBonus: 0, killChance: 0
+      };
+    }
+    const {
+      mobility, infectivity, aggression, resistance, defense: playerDefense,
+      mutation, speed, adaptability, virulence, endurance, intelligence, resilience, lethality
+    } = player.virus;
+    const attack = (mobility / 16 + infectivity / 16 + aggression / 16) / 3;
+    const defense = (resistance / 16 + playerDefense / 16) / 2;
+
+    // Adaptability only kicks in for viruses that are behind, scaled by how far behind they are
+    const territoryDeficit = fairShare > 0 ? Math.max(0, 1 - territoryCounts[playerId] / fairShare) : 0;
+
+    return {
+      attack,
+      defense,
+      mutationVariance: (mutation / 16) * 0.25,
+      extraExpansionPasses: Math.floor(speed / 6),
+      extraExpansionChance: (speed / 16) * 0.5,
+      comebackBonus: (adaptability / 16) * territoryDeficit,
+      defensePiercing: (virulence / 16) * 0.5,
+      survivalChance: (endurance / 16) * 0.5,
+      weakestTargetChance: intelligence / 16,
+      supportBonus: (resilience / 16) * 0.05,
+      killChance: (lethality / 16) * 0.5
+    };
+  });
+}
+
+// Turns between two mutations of a virus, or null when it doesn't mutate at all
+export function getMutationInterval(mutation: number): number | null {
+  return mutation > 0 ? Math.round(MUTATION_INTERVAL_TURNS / mutation) : null;
+}
+
+// Moves one point of a build from a funded parameter to another one below the cap
+function rollMutation(virus: VirusParameters, rng: SeededRandom) {
+  const parameters = Object.keys(virus) as (keyof VirusParameters)[];
+  const funded = parameters.filter(parameter => virus[parameter] > 0);
+  const from = funded[rng.nextInt(funded.length)];
+  const targets = parameters.filter(parameter => parameter !== from && virus[parameter] < 16);
+  const to = targets[rng.nextInt(targets.length)];
+  return { from, to };
+}
+
+// Main simulation function
+// All randomness comes from the seeded generator so that the same seed and
+// virus parameters always replay the same battle.
+export function calculateNextGameState(
+  _grid: Cell[][],
+  players: Player[],
+  turn: number,
+  settings: GameSettings,
+  seed: number,
+  rngState: number,
+  terrain: Terrain | null = null
+): SimulationResult {
+  const rng = createSeededRandom(rngState);
+
+  // Create a copy of the grid for this turn
+  const newGrid = _grid.map(row => row.map(cell => ({ ...cell })));
+  const { rows, cols } = settings.gridSize;
+  const { topology } = settings;
+  const adjacency = getAdjacencyTable(rows, cols, terrain, topology);
+
+  // Expansion into a hostile zone needs an extra roll; other cells don't draw from the generator
+  const takesHold = (target: GridPosition2D) =>
+    getTerrainAt(terrain, target.row, target.col) !== 'hostile' || rng.next() < HOSTILE_EXPANSION_CHANCE;
+
+  // Track events for visual effects
+  const attackEvents: AttackEvent[] = [];
+  const expansionEvents: ExpansionEvent[] = [];
+  const parameterEvents: ParameterEvent[] = [];
+  const interactionEvents: InteractionEvent[] = [];
+
+  // Phase 0: Direct combat - cells battle with adjacent opponent cells
+  // Count current territory first, adaptability depends on each virus' share of the map
+  const startingCounts: number[] = Array(players.length).fill(0);
+  let totalOwnedCells = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const owner = _grid[row][col].owner;
+      if (owner !== null && owner >= 0 && owner < players.length) {
+        startingCounts[owner]++;
+        totalOwnedCells++;
+      }
+    }
+  }
+
+  // Precompute attack/defense factors to avoid repeated calculations
+  const playerFactors = precomputePlayerFactors(players, startingCounts, totalOwnedCells);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const attackerCell = newGrid[row][col];
+      const owner = attackerCell.owner;
+      // Dormant cells have no enemies around them and sit out the combat phase
+      if (owner !== null && !attackerCell.latency) {
+        const player = players[owner];
+        if (player) {
+          // Get adjacent opponent cells
+          const adjacentCells = getAdjacentCells(adjacency, row, col);
+          
+          // Collect all opponent cells in a single pass
+          const opponentCells: { cell: { row: number; col: number }; defender: number }[] = [];
+          for (const adj of adjacentCells) {
+            const cellOwner = newGrid[adj.row][adj.col].owner;
+            if (cellOwner !== null && cellOwner !== owner) {
+              opponentCells.push({ cell: adj, defender: cellOwner });
+            }
+          }
+
+          // Attempt to attack opponent cells
+          if (opponentCells.length > 0) {
+            const attackerFactors = playerFactors[owner];
+
+            // Intelligent viruses go for the neighbour with the weakest defense,
+            // everyone else selects a random opponent cell to attack
+            let target = opponentCells[0];
+            if (attackerFactors.weakestTargetChance > 0 && rng.next() < attackerFactors.weakestTargetChance) {
+              for (const candidate of opponentCells) {
+                if (playerFactors[candidate.defender].defense < playerFactors[target.defender].defense) {
+                  target = candidate;
+                }
+              }
+            } else {
+              target = opponentCells[rng.nextInt(opponentCells.length)];
+            }
+            const { cell: targetCell, defender } = target;
+            const defenderFactors = playerFactors[defender];
+            const defenderCell = newGrid[targetCell.row][targetCell.col];
+
+            // Attack: base power, boosted while behind, with a mutation-driven random swing
+            let attackPower = attackerFactors.attack * (1 + attackerFactors.comebackBonus);
+            if (attackerFactors.mutationVariance > 0) {
+              attackPower += (rng.next() * 2 - 1) * attackerFactors.mutationVariance;
+            }
+
+            // Local support on both sides of the fight
+            const attackerSupport = adjacentCells.filter(adj => newGrid[adj.row][adj.col].owner === owner).length;
+            const defenderNeighbours = getAdjacentCells(adjacency, targetCell.row, targetCell.col);
+            const defenderSupport = defenderNeighbours.filter(adj => newGrid[adj.row][adj.col].owner === defender).length;
+
+            // Defense: reduced by the attacker's virulence, reinforced by resilience per friendly neighbour
+            // and by the nutrients of the cell under attack
+            const defensePower = defenderFactors.defense * (1 - attackerFactors.defensePiercing)
+              + defenderFactors.supportBonus * defenderSupport
+              + (getTerrainAt(terrain, targetCell.row, targetCell.col) === 'nutrient' ? NUTRIENT_DEFENSE_BONUS : 0);
+
+            // Capture is a probabilistic contest of local strength (see engine/combat);
+            // enduring cells may still hold out after losing it
+            const attackSuccess = resolveCapture({
+              attackPower,
+              attackerGrowth: attackerCell.growth,
+              attackerSupport,
+              defensePower,
+              defenderGrowth: defenderCell.growth,
+              defenderSupport,
+              neighbourCount: getNeighbourCount(topology)
+            }, rng.next())
+              && !(defenderFactors.survivalChance > 0 && rng.next() < defenderFactors.survivalChance);
+
+            if (attackSuccess) {
+              // Lethal viruses sometimes destroy the cell instead of taking it over
+              if (attackerFactors.killChance > 0 && rng.next() < attackerFactors.killChance) {
+                newGrid[targetCell.row][targetCell.col] = createEmptyCell();
+              } else {
+                // Capture the cell
+                newGrid[targetCell.row][targetCell.col] = createOwnedCell(owner);
+              }
+
+              // Winning a fight costs the attacking cell some of its strength
+              attackerCell.growth = Math.max(1, attackerCell.growth - 1);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Phase 1: Growth - existing cells grow stronger based on parameters
+  // Cells held since the start of the turn gain strength, and burst cooldowns tick down
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = newGrid[row][col];
+      if (cell.owner !== null && cell.owner === _grid[row][col].owner) {
+        const nutrients = getTerrainAt(terrain, row, col) === 'nutrient' ? NUTRIENT_GROWTH_BONUS : 0;
+        cell.growth = Math.min(MAX_CELL_GROWTH, cell.growth + 1 + nutrients);
+      }
+      if (cell.burstCooldown > 0) {
+        cell.burstCooldown--;
+      }
+    }
+  }
+
+  // Phase 2: Expansion - cells attempt to spread to adjacent empty cells with parameter-based behavior
+  const expansionAttempts: {
+    from: { row: number; col: number };
+    to: { row: number; col: number };
+    player: number;
+  }[] = [];
+
+  // Direction each mobile virus grows towards this turn; kept here so the input players are never modified
+  const preferredDirections = players.map(player => player?.preferredDirection ?? null);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const sourceCell = newGrid[row][col];
+      const owner = sourceCell.owner;
+      if (owner !== null && !sourceCell.latency) {
+        const player = players[owner];
+        if (player) {
+          // Precompute parameter values to avoid repeated access
+          const { stability, stealth, mobility, aggression, reproduction, infectivity } = player.virus;
+
+          // Check if this player has stability > 10, which overrides other behaviors
+          const hasHighStability = stability > 10;
+
+          // Combined expansion logic with early returns
+          if (hasHighStability) {
+            // Only expand to immediate adjacent empty cells
+            const adjacentCells = getAdjacentCells(adjacency, row, col);
+            const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col].owner === null);
+
+            if (emptyCells.length > 0) {
+              // Select a random empty cell to expand to
+              const targetCell = emptyCells[rng.nextInt(emptyCells.length)];
+
+              // Calculate expansion success chance based on reproduction and infectivity (mobility ignored for stability)
+              const reproductionFactor = reproduction / 16;
+              const infectivityFactor = infectivity / 16;
+
+              // Combined expansion chance
+              const expansionChance = (reproductionFactor + infectivityFactor) / 2;
+
+              if (rng.next() < expansionChance) {
+                expansionAttempts.push({
+                  from: { row, col },
+                  to: targetCell,
+                  player: owner
+                });
+              }
+            }
+          } else {
+            // Handle all expansion types in a single pass with early returns
+            const adjacentCells = getAdjacentCells(adjacency, row, col);
+            const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col].owner === null);
+
+            if (emptyCells.length > 0) {
+              // Handle stealth expansion (skip immediate neighbors, look for distant cells)
+              if (stealth > 10 && rng.next() < 0.3) { // 30% chance to try stealth expansion
+                // Look for empty cells 2-3 steps away, counted in the steps of the topology
+                const distantEmptyCells = [];
+                for (let dr = -3; dr <= 3; dr++) {
+                  for (let dc = -3; dc <= 3; dc++) {
+                    const newRow = row + dr;
+                    const newCol = col + dc;
+                    const distance = getDistance(topology, row, col, newRow, newCol);
+
+                    // Only consider cells that are 2-3 steps away
+                    if (distance >= 2 && distance <= 3) {
+                      // Check if within bounds
+                      if (newRow >= 0 && newRow < rows && newCol >= 0 && newCol < cols) {
+                        // Check if cell is empty
+                        if (newGrid[newRow][newCol].owner === null && getTerrainAt(terrain, newRow, newCol) !== 'wall') {
+                          // Check if there's a path to this cell (simplified: check if at least one intermediate cell is owned)
+                          const pathCells = getLineCells(topology, row, col, newRow, newCol);
+
+                          // If at least one path cell is owned by this player, consider it a valid target
+                          const hasValidPath = pathCells.some(pathCell =>
+                            newGrid[pathCell.row][pathCell.col].owner === owner
+                          );
+
+                          if (hasValidPath) {
+                            distantEmptyCells.push({row: newRow, col: newCol});
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+
+                if (distantEmptyCells.length > 0) {
+                  const targetCell = distantEmptyCells[rng.nextInt(distantEmptyCells.length)];
+
+                  // Calculate expansion success chance based on stealth and infectivity
+                  const stealthFactor = stealth / 16;
+                  const infectivityFactor = infectivity / 16;
+
+                  const expansionChance = (stealthFactor + infectivityFactor) / 2;
+
+                  if (rng.next() < expansionChance) {
+                    expansionAttempts.push({
+                      from: { row, col },
+                      to: targetCell,
+                      player: owner
+                    });
+                    expansionEvents.push({
+                      from: { row, col },
+                      to: targetCell,
+                      player: owner
+                    });
+                  }
+                }
+              }
+              // Handle mobility-based directional growth
+              else if (mobility > 10) {
+                // If no preferred direction is set, choose one randomly
+                if (!preferredDirections[owner]) {
+                  const directions = TOPOLOGY_DIRECTIONS[topology];
+                  preferredDirections[owner] = directions[rng.nextInt(directions.length)];
+                }
+                const preferredDirection = preferredDirections[owner]!;
+
+                // Get adjacent cells with preference for the preferred direction
+                const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col].owner === null);
+
+                if (emptyCells.length > 0) {
+                  // Calculate expansion success chance based on reproduction, mobility and infectivity
+                  const reproductionFactor = reproduction / 16;
+                  const mobilityFactor = mobility / 16;
+                  const infectivityFactor = infectivity / 16;
+
+                  // Combined expansion chance
+                  const expansionChance = (reproductionFactor + mobilityFactor + infectivityFactor) / 3;
+
+                  if (rng.next() < expansionChance) {
+                    // Prefer cells in the preferred direction
+                    let targetCell;
+                    const preferred = stepInDirection(topology, row, col, preferredDirection);
+                    const preferredCells = emptyCells.filter(adj => adj.row === preferred.row && adj.col === preferred.col);
+
+                    if (preferredCells.length > 0 && rng.next() < 0.7) { // 70% chance to follow preferred direction
+                      targetCell = preferredCells[rng.nextInt(preferredCells.length)];
+                    } else {
+                      targetCell = emptyCells[rng.nextInt(emptyCells.length)];
+                    }
+
+                    expansionAttempts.push({
+                      from: { row, col },
+                      to: targetCell,
+                      player: owner
+                    });
+                  }
+                }
+              }
+              // Handle aggression-based explosive growth
+              else if (aggression > 12 && sourceCell.burstCooldown === 0 && rng.next() < 0.2) { // 20% chance for explosive growth
+                // Try to capture 2-3 adjacent empty cells in one direction
+                if (emptyCells.length >= 2) {
+                  // Pick a random direction
+                  const directions: { [key: string]: { row: number; col: number }[] } = {};
+                  for (const cell of emptyCells) {
+                    const dr = cell.row - row;
+                    const dc = cell.col - col;
+                    const dirKey = `${dr},${dc}`;
+
+                    if (!directions[dirKey]) {
+                      directions[dirKey] = [];
+                    }
+                    directions[dirKey].push(cell);
+                  }
+
+                  const dirKeys = Object.keys(directions);
+                  if (dirKeys.length > 0) {
+                    // The cell has to recover before it can burst again
+                    sourceCell.burstCooldown = BURST_COOLDOWN_TURNS;
+
+                    const randomDirKey = dirKeys[rng.nextInt(dirKeys.length)];
+                    const cellsInDirection = directions[randomDirKey];
+
+                    // Try to capture up to 3 cells in this direction
+                    const maxCellsToCapture = Math.min(3, cellsInDirection.length);
+                    const cellsToCapture = cellsInDirection.slice(0, maxCellsToCapture);
+
+                    for (const cell of cellsToCapture) {
+                      if (newGrid[cell.row][cell.col].owner === null && rng.next() < 0.7 && takesHold(cell)) { // 70% success rate
+                        newGrid[cell.row][cell.col] = createOwnedCell(owner);
+                      }
+                    }
+                  }
+                }
+              }
+              // Standard expansion for other viruses
+              else {
+                // Calculate expansion success chance based on reproduction and mobility parameters
+                const reproductionFactor = reproduction / 16;
+                const mobilityFactor = mobility / 16;
+                const infectivityFactor = infectivity / 16;
+
+                // Combined expansion chance
+                const expansionChance = (reproductionFactor + mobilityFactor + infectivityFactor) / 3;
+
+                if (rng.next() < expansionChance) {
+                  // Select a random empty cell to expand to
+                  const targetCell = emptyCells[rng.nextInt(emptyCells.length)];
+
+                  expansionAttempts.push({
+                    from: { row, col },
+                    to: targetCell,
+                    player: owner
+                  });
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Execute standard expansion attempts (excluding those handled by special behaviors)
+  for (const attempt of expansionAttempts) {
+    // Only expand if the target cell is still empty, and hostile zones may still resist
+    if (newGrid[attempt.to.row][attempt.to.col].owner === null && takesHold(attempt.to)) {
+      newGrid[attempt.to.row][attempt.to.col] = createOwnedCell(attempt.player);
+    }
+  }
+
+  // Phase 3: Speed - fast viruses get extra expansion passes into adjacent empty cells
+  const maxExtraPasses = Math.max(0, ...playerFactors.map(factors => factors.extraExpansionPasses));
+  for (let pass = 1; pass <= maxExtraPasses; pass++) {
+    const extraAttempts: { to: { row: number; col: number }; player: number }[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const owner = newGrid[row][col].owner;
+        if (owner === null || !players[owner]) continue;
+
+        const { extraExpansionPasses, extraExpansionChance } = playerFactors[owner];
+        if (extraExpansionPasses < pass) continue;
+
+        const emptyCells = getAdjacentCells(adjacency, row, col).filter(adj => newGrid[adj.row][adj.col].owner === null);
+        if (emptyCells.length > 0 && rng.next() < extraExpansionChance) {
+          extraAttempts.push({ to: emptyCells[rng.nextInt(emptyCells.length)], player: owner });
+        }
+      }
+    }
+
+    for (const attempt of extraAttempts) {
+      if (newGrid[attempt.to.row][attempt.to.col].owner === null && takesHold(attempt.to)) {
+        newGrid[attempt.to.row][attempt.to.col] = createOwnedCell(attempt.player);
+      }
+    }
+  }
+
+  // Mark dormant cells: owned cells surrounded only by cells of the same owner
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = newGrid[row][col];
+      cell.latency = cell.owner !== null
+        && getAdjacentCells(adjacency, row, col).every(adj => newGrid[adj.row][adj.col].owner === cell.owner);
+    }
+  }
+
+  // Count territories for each player
+  const territoryCounts: number[] = Array(players.length).fill(0);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const owner = newGrid[row][col].owner;
+      if (owner !== null && owner >= 0 && owner < players.length) {
+        territoryCounts[owner]++;
+      }
+    }
+  }
+
+  // A virus still in the game with no cells left has just been eliminated
+  const eliminationEvents: EliminationEvent[] = [];
+  players.forEach((player, playerId) => {
+    if (player && !isEliminated(player) && territoryCounts[playerId] === 0) {
+      eliminationEvents.push({ player: playerId, turn: turn + 1 });
+    }
+  });
+
+  // Surviving viruses mutate on a schedule set by their mutation parameter;
+  // the build keeps its point total, so it stays a valid allocation
+  const mutationEvents: MutationEvent[] = [];
+  players.forEach((player, playerId) => {
+    if (!player || isEliminated(player) || territoryCounts[playerId] === 0) return;
+    const interval = getMutationInterval(player.virus.mutation);
+    if (interval === null || turn + 1 - (player.lastMutationTurn ?? 0) < interval) return;
+    mutationEvents.push({ player: playerId, turn: turn + 1, ...rollMutation(player.virus, rng) });
+  });
+
+  return {
+    newGrid,
+    turn: turn + 1,
+    seed,
+    rngState: rng.getState(),
+    territoryCounts,
+    attackEvents,
+    expansionEvents,
+    parameterEvents,
+    interactionEvents,
+    eliminationEvents,
+    mutationEvents
+  };
+}
+
+// Drop cached adjacency tables, e.g. when a long-running process is done with a grid size
+export function clearAdjacencyCache() {
+  adjacentCellsCache.clear();
+}
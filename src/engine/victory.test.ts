@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Cell, VictoryCondition } from '../types/game';
+import { createEmptyCell, createOwnedCell } from '../utils/grid';
+import { createPlayers } from '../utils/players';
+import { DEFAULT_VICTORY_CONDITION, VictoryCheck, countUnchangedTurns, evaluateVictory, rankPlayers } from './victory';
+
+const condition = (overrides: Partial<VictoryCondition>): VictoryCondition =>
+  ({ ...DEFAULT_VICTORY_CONDITION, stalemateTurns: 0, ...overrides });
+
+const check = (overrides: Partial<VictoryCheck>): VictoryCheck =>
+  ({ territoryCounts: [1, 1], totalCells: 100, turn: 1, unchangedTurns: 0, ...overrides });
+
+// Grid from rows of characters: '.' is empty, digits are the owning player
+const parseGrid = (rows: string[]): Cell[][] =>
+  rows.map(row => [...row].map(char => (char === '.' ? createEmptyCell() : createOwnedCell(Number(char)))));
+
+describe('evaluateVictory', () => {
+  it('awards a territory win only above the chosen share', () => {
+    const rule = condition({ mode: 'territory', territoryShare: 0.6 });
+    expect(evaluateVictory(rule, check({ territoryCounts: [60, 10] }))).toBeNull();
+    expect(evaluateVictory(rule, check({ territoryCounts: [10, 61] }))).toEqual({ winner: 1, reason: 'territory' });
+  });
+
+  it('awards last standing once every other virus is wiped out', () => {
+    const rule = condition({ mode: 'lastStanding' });
+    expect(evaluateVictory(rule, check({ territoryCounts: [90, 1, 0] }))).toBeNull();
+    expect(evaluateVictory(rule, check({ territoryCounts: [0, 5, 0] }))).toEqual({ winner: 1, reason: 'lastStanding' });
+  });
+
+  it('ignores the territory share in last standing mode', () => {
+    const rule = condition({ mode: 'lastStanding' });
+    expect(evaluateVictory(rule, check({ territoryCounts: [99, 1] }))).toBeNull();
+  });
+
+  it('gives the largest territory the win at the turn limit', () => {
+    const rule = condition({ mode: 'turnLimit', turnLimit: 200 });
+    expect(evaluateVictory(rule, check({ territoryCounts: [30, 40], turn: 199 }))).toBeNull();
+    expect(evaluateVictory(rule, check({ territoryCounts: [30, 40], turn: 200 }))).toEqual({ winner: 1, reason: 'turnLimit' });
+  });
+
+  it('calls a draw at the turn limit when the lead is shared', () => {
+    const rule = condition({ mode: 'turnLimit', turnLimit: 10 });
+    expect(evaluateVictory(rule, check({ territoryCounts: [40, 40, 5], turn: 10 }))).toEqual({ winner: null, reason: 'turnLimit' });
+  });
+
+  it('declares a stalemate draw in any mode after enough unchanged turns', () => {
+    const rule = condition({ mode: 'lastStanding', stalemateTurns: 25 });
+    expect(evaluateVictory(rule, check({ unchangedTurns: 24 }))).toBeNull();
+    expect(evaluateVictory(rule, check({ unchangedTurns: 25 }))).toEqual({ winner: null, reason: 'stalemate' });
+  });
+
+  it('never declares a stalemate when detection is off', () => {
+    expect(evaluateVictory(condition({ stalemateTurns: 0 }), check({ unchangedTurns: 10000 }))).toBeNull();
+  });
+
+  it('prefers a decisive win over a stalemate on the same turn', () => {
+    const rule = condition({ mode: 'territory', territoryShare: 0.5, stalemateTurns: 5 });
+    expect(evaluateVictory(rule, check({ territoryCounts: [80, 1], unchangedTurns: 5 }))).toEqual({ winner: 0, reason: 'territory' });
+  });
+});
+
+describe('countUnchangedTurns', () => {
+  it('counts up while no cell changes owner', () => {
+    const previous = parseGrid(['0..1']);
+    const next = parseGrid(['0..1']);
+    next[0][0] = { ...next[0][0], growth: 3 };
+    expect(countUnchangedTurns(previous, next, 4)).toBe(5);
+  });
+
+  it('resets when any cell changes owner', () => {
+    expect(countUnchangedTurns(parseGrid(['0..1']), parseGrid(['00.1']), 4)).toBe(0);
+  });
+});
+
+describe('rankPlayers', () => {
+  it('ranks survivors by territory, then the eliminated from last to first to fall', () => {
+    const players = createPlayers(5).map((player, id) => ({
+      ...player,
+      territoryCount: [0, 40, 0, 0, 12][id],
+      eliminatedTurn: [30, null, 75, 12, null][id]
+    }));
+    expect(rankPlayers(players).map(player => player.id)).toEqual([1, 4, 2, 0, 3]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Victory Rules
+ *
+ * Правила победы
+ *
+ * Decides when a battle is over and who won, for every selectable victory
+ * mode: holding a share of the grid, being the last virus standing, or having
+ * the largest territory after a number of turns. In every mode a battle in
+ * which no cell changes owner for long enough ends as a stalemate draw.
+ * Used by both the in-game loop and headless battles, so they follow the
+ * same rules. Final standings are ranked here as well.
+ *
+ * Определяет, когда битва окончена и кто победил, для каждого режима победы:
+ * захват доли сетки, последний выживший вирус или наибольшая территория после
+ * заданного числа ходов. В любом режиме битва, в которой достаточно долго ни
+ * одна клетка не меняет владельца, заканчивается ничьей (патом). Используется
+ * и игровым циклом, и безголовыми битвами, поэтому правила у них одинаковые.
+ * Здесь же определяется итоговый порядок мест.
+ */
+import { Cell, Player, VictoryCondition, VictoryMode, VictoryOutcome } from '../types/game';
+import { isEliminated } from '../utils/players';
+
+export const VICTORY_MODES: VictoryMode[] = ['territory', 'lastStanding', 'turnLimit'];
+
+// Choices offered during setup
+export const TERRITORY_SHARE_PRESETS = [0.5, 0.6, 0.75, 0.9];
+export const TURN_LIMIT_PRESETS = [200, 500, 1000, 2000];
+export const STALEMATE_TURN_PRESETS = [0, 25, 50, 100];
+
+export const DEFAULT_VICTORY_CONDITION: VictoryCondition = {
+  mode: 'territory',
+  territoryShare: 0.75,
+  turnLimit: 500,
+  stalemateTurns: 50
+};
+
+export interface VictoryCheck {
+  territoryCounts: number[]; // Cells owned by each player after the turn
+  totalCells: number;
+  turn: number; // Turns played so far
+  unchangedTurns: number; // Consecutive turns without an ownership change
+}
+
+// Counts turns in which no cell changed owner; growth and cooldowns alone don't break a stalemate
+export const countUnchangedTurns = (previousGrid: Cell[][], nextGrid: Cell[][], unchangedTurns: number): number => {
+  for (let row = 0; row < nextGrid.length; row++) {
+    for (let col = 0; col < nextGrid[row].length; col++) {
+      if (previousGrid[row]?.[col]?.owner !== nextGrid[row][col].owner) return 0;
+    }
+  }
+  return unchangedTurns + 1;
+};
+
+// Player with strictly the largest territory, or null when the lead is shared
+const getSoleLeader = (territoryCounts: number[]): number | null => {
+  const most = Math.max(...territoryCounts);
+  const leaders = territoryCounts.filter(count => count === most);
+  return leaders.length === 1 ? territoryCounts.indexOf(most) : null;
+};
+
+// Returns the outcome once the battle is decided, or null while it goes on
+export const evaluateVictory = (condition: VictoryCondition, check: VictoryCheck): VictoryOutcome | null => {
+  const { territoryCounts, totalCells, turn, unchangedTurns } = check;
+
+  switch (condition.mode) {
+    case 'territory': {
+      const leader = getSoleLeader(territoryCounts);
+      if (leader !== null && territoryCounts[leader] > totalCells * condition.territoryShare) {
+        return { winner: leader, reason: 'territory' };
+      }
+      break;
+    }
+    case 'lastStanding': {
+      const alive = territoryCounts.filter(count => count > 0).length;
+      if (alive <= 1) {
+        return { winner: alive === 1 ? territoryCounts.findIndex(count => count > 0) : null, reason: 'lastStanding' };
+      }
+      break;
+    }
+    case 'turnLimit':
+      if (turn >= condition.turnLimit) {
+        return { winner: getSoleLeader(territoryCounts), reason: 'turnLimit' };
+      }
+      break;
+  }
+
+  if (condition.stalemateTurns > 0 && unchangedTurns >= condition.stalemateTurns) {
+    return { winner: null, reason: 'stalemate' };
+  }
+  return null;
+};
+
+// Final standings: surviving viruses by territory, then eliminated ones, the last to fall first
+export const rankPlayers = (players: Player[]): Player[] =>
+  [...players].sort((a, b) => {
+    const aEliminated = isEliminated(a);
+    const bEliminated = isEliminated(b);
+    if (aEliminated !== bEliminated) return aEliminated ? 1 : -1;
+    if (aEliminated) return (b.eliminatedTurn ?? 0) - (a.eliminatedTurn ?? 0);
+    return b.territoryCount - a.territoryCount;
+  });
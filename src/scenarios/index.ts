@@ -0,0 +1,25 @@
+/**
+ * Bundled Scenarios
+ *
+ * Встроенные сценарии
+ *
+ * Scenario files that ship with the game. They go through the same checks as
+ * files loaded from disk, so a broken bundled file is left out instead of
+ * breaking setup.
+ *
+ * Файлы сценариев, поставляемые с игрой. Они проходят те же проверки, что и
+ * файлы, загруженные с диска, поэтому поврежденный встроенный файл
+ * пропускается, а не ломает настройку.
+ */
+import { Scenario, parseScenario } from '../utils/scenarioFile';
+import greatWall from './great-wall.json';
+import siege from './siege.json';
+import fourRivers from './four-rivers.json';
+
+export const BUNDLED_SCENARIO_FILES: unknown[] = [greatWall, siege, fourRivers];
+
+export const BUNDLED_SCENARIOS: Scenario[] = BUNDLED_SCENARIO_FILES.flatMap(file => {
+  const { scenario, errors } = parseScenario(file);
+  if (!scenario) console.error('Invalid bundled scenario:', errors);
+  return scenario ? [scenario] : [];
+});
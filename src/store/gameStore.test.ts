@@ -0,0 +1,312 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGameStore } from './gameStore';
+import { getSpawnPoints } from '../utils/grid';
+import { createBlankMap } from '../utils/battleMaps';
+import { DEFAULT_PLAYER_COUNT, createEmptyVirus } from '../utils/players';
+import { validateParameterAllocation } from '../utils/parameterValidation';
+
+const getState = () => useGameStore.getState().gameState;
+const getActions = () => useGameStore.getState().actions;
+
+describe('gameStore', () => {
+  beforeEach(() => {
+    getActions().resetGame();
+  });
+
+  describe('setPlayerParameter', () => {
+    it('sets a single parameter of a single player', () => {
+      getActions().setPlayerParameter(1, 'aggression', 7);
+      const { players } = getState();
+      expect(players[1].virus.aggression).toBe(7);
+      expect(players[1].virus.defense).toBe(0);
+      expect(players[0].virus.aggression).toBe(0);
+    });
+
+    it('replaces the players array so subscribers see the change', () => {
+      const before = getState().players;
+      getActions().setPlayerParameter(0, 'speed', 3);
+      expect(getState().players).not.toBe(before);
+    });
+  });
+
+  describe('setPlayerVirus', () => {
+    it('replaces the build of one player with a copy', () => {
+      const virus = { ...getState().players[0].virus, defense: 10, speed: 6 };
+      getActions().setPlayerVirus(2, virus);
+      virus.defense = 0;
+      expect(getState().players[2].virus.defense).toBe(10);
+      expect(getState().players[2].virus.speed).toBe(6);
+      expect(getState().players[1].virus.defense).toBe(0);
+    });
+  });
+
+  describe('resetGame', () => {
+    it('returns to setup with fresh players', () => {
+      getActions().setPlayerParameter(0, 'stealth', 16);
+      getActions().setGameState('battle');
+      getActions().setSimulationSpeed(8);
+      getActions().togglePause();
+
+      getActions().resetGame();
+
+      const state = getState();
+      expect(state.gameState).toBe('setup');
+      expect(state.isPaused).toBe(false);
+      expect(state.simulationSpeed).toBe(1);
+      expect(state.players).toHaveLength(DEFAULT_PLAYER_COUNT);
+      expect(state.players[0].virus.stealth).toBe(0);
+      expect(state.players.every(player => !player.isReady)).toBe(true);
+    });
+
+    it('restores the default player count', () => {
+      getActions().setPlayerCount(6);
+      getActions().resetGame();
+      expect(getState().players).toHaveLength(DEFAULT_PLAYER_COUNT);
+    });
+  });
+
+  describe('testBattle', () => {
+    it('gives every player a valid 16-point build and starts the battle', () => {
+      getActions().testBattle();
+      const state = getState();
+      expect(state.gameState).toBe('battle');
+      expect(state.turn).toBe(0);
+      for (const player of state.players) {
+        const validation = validateParameterAllocation(player.virus);
+        expect(validation.isValid).toBe(true);
+        expect(validation.total).toBe(16);
+        expect(player.isReady).toBe(true);
+      }
+    });
+
+    it('places one starting colony per player at its spawn point', () => {
+      getActions().setPlayerCount(3);
+      getActions().testBattle();
+      const { grid, players, settings } = getState();
+      const spawns = getSpawnPoints(settings.gridSize, players.length);
+      spawns.forEach(({ row, col }, playerId) => {
+        expect(grid[row][col].owner).toBe(playerId);
+      });
+      expect(grid.flat().filter(cell => cell.owner !== null)).toHaveLength(3);
+    });
+
+    it('rewinds the generator to a new seed', () => {
+      getActions().testBattle();
+      const { seed, rngState } = getState();
+      expect(rngState).toBe(seed);
+    });
+  });
+
+  describe('AI players', () => {
+    it('build a valid virus and are ready as soon as they are switched to AI', () => {
+      getActions().setPlayerController(1, 'ai');
+      const player = getState().players[1];
+      expect(player.isReady).toBe(true);
+      expect(validateParameterAllocation(player.virus).total).toBe(16);
+    });
+
+    it('rebuild when their strategy changes', () => {
+      getActions().setPlayerController(1, 'ai');
+      getActions().setAiStrategy(1, 'stealthSwarm');
+      expect(getState().players[1].virus.stealth).toBeGreaterThanOrEqual(9);
+    });
+
+    it('hand the build back to a human unlocked', () => {
+      getActions().setPlayerController(1, 'ai');
+      getActions().setPlayerController(1, 'human');
+      expect(getState().players[1].isReady).toBe(false);
+    });
+
+    it('leave human builds alone when preparing for battle', () => {
+      getActions().setPlayerParameter(0, 'defense', 16);
+      getActions().setPlayerController(1, 'ai');
+      getActions().prepareAiPlayers();
+      expect(getState().players[0].virus.defense).toBe(16);
+      expect(getState().players[0].isReady).toBe(false);
+    });
+  });
+
+  describe('eliminatePlayers', () => {
+    it('records the elimination turn until the next battle', () => {
+      getActions().testBattle();
+      getActions().eliminatePlayers([{ player: 2, turn: 57 }]);
+      expect(getState().players.map(player => player.eliminatedTurn)).toEqual([null, null, 57, null]);
+
+      getActions().rematch();
+      expect(getState().players.every(player => player.eliminatedTurn === null)).toBe(true);
+    });
+  });
+
+  describe('mutatePlayers', () => {
+    it('shifts one point for the battle and restores the lab build afterwards', () => {
+      getActions().testBattle();
+      const build = { ...getState().players[0].virus };
+      const from = (Object.keys(build) as (keyof typeof build)[]).find(parameter => build[parameter] > 0)!;
+      const to = from === 'stealth' ? 'speed' : 'stealth';
+
+      getActions().mutatePlayers([{ player: 0, turn: 40, from, to }]);
+      const mutated = getState().players[0];
+      expect(mutated.virus[from]).toBe(build[from] - 1);
+      expect(mutated.virus[to]).toBe(build[to] + 1);
+      expect(mutated.lastMutationTurn).toBe(40);
+
+      getActions().returnToLab();
+      expect(getState().players[0].virus).toEqual(build);
+      expect(getState().players[0].lastMutationTurn).toBe(0);
+    });
+  });
+
+  describe('setTerrainPreset', () => {
+    it('draws a new map for the preset and clears it for an open one', () => {
+      getActions().setTerrainPreset('rugged');
+      const { terrain, settings } = getState();
+      expect(settings.terrainPreset).toBe('rugged');
+      expect(terrain).toHaveLength(settings.gridSize.rows);
+
+      getActions().setTerrainPreset('open');
+      expect(getState().terrain).toBeNull();
+    });
+
+    it('keeps spawn points clear when players are added', () => {
+      getActions().setTerrainPreset('rugged');
+      getActions().setPlayerCount(8);
+      const { terrain, settings } = getState();
+      for (const { row, col } of getSpawnPoints(settings.gridSize, 8)) {
+        expect(terrain?.[row][col]).toBe('plain');
+      }
+    });
+  });
+
+  describe('setBattleMap', () => {
+    it('takes the size, player count and terrain of the map and starts battles from it', () => {
+      const battleMap = { ...createBlankMap({ rows: 10, cols: 12 }, 3), name: 'Triangle' };
+      battleMap.territory[5][6] = 2;
+      getActions().setBattleMap(battleMap);
+
+      expect(getState().settings.gridSize).toEqual({ rows: 10, cols: 12 });
+      expect(getState().players).toHaveLength(3);
+
+      getActions().testBattle();
+      const { grid } = getState();
+      expect(grid[5][6].owner).toBe(2);
+      battleMap.spawns.forEach(({ row, col }, playerId) => expect(grid[row][col].owner).toBe(playerId));
+    });
+
+    it('is dropped when the player count changes', () => {
+      getActions().setBattleMap({ ...createBlankMap({ rows: 10, cols: 12 }, 3), name: 'Triangle' });
+      getActions().setPlayerCount(4);
+      expect(getState().battleMap).toBeNull();
+    });
+  });
+
+  describe('loadScenario', () => {
+    const loadTestScenario = () => getActions().loadScenario({
+      name: 'Siege',
+      description: '',
+      battleMap: { ...createBlankMap({ rows: 10, cols: 12 }, 2), name: 'Siege' },
+      builds: [
+        { name: 'Besieger', virus: null, locked: false },
+        { name: 'Fortress', virus: { ...createEmptyVirus(), defense: 16 }, locked: true }
+      ],
+      victoryCondition: null,
+      seed: 7
+    });
+
+    it('locks the scenario builds and keeps its seed', () => {
+      loadTestScenario();
+      const [besieger, fortress] = getState().players;
+      expect(besieger.name).toBe('Besieger');
+      expect(fortress).toMatchObject({ name: 'Fortress', buildLocked: true, isReady: true, controller: 'human' });
+      expect(getState().settings.scenarioSeed).toBe(7);
+
+      getActions().setPlayerParameter(1, 'defense', 8);
+      expect(getState().players[1].virus.defense).toBe(16);
+    });
+
+    it('keeps the locked builds and seed in a test battle', () => {
+      loadTestScenario();
+      getActions().testBattle();
+      const [besieger, fortress] = getState().players;
+      expect(fortress).toMatchObject({ buildLocked: true, virus: { ...createEmptyVirus(), defense: 16 } });
+      expect(Object.values(besieger.virus).reduce((sum, points) => sum + points, 0)).toBe(16);
+      expect(getState().seed).toBe(7);
+    });
+
+    it('keeps the controller and AI strategy of a locked build', () => {
+      loadTestScenario();
+      const fortress = getState().players[1];
+      getActions().setPlayerController(1, 'ai');
+      getActions().setAiStrategy(1, 'rusher');
+      expect(getState().players[1]).toEqual(fortress);
+    });
+
+    it('is left when the player count changes', () => {
+      loadTestScenario();
+      getActions().setPlayerCount(3);
+      expect(getState().players.some(player => player.buildLocked)).toBe(false);
+      expect(getState().settings.scenarioSeed).toBeNull();
+    });
+  });
+
+  describe('checkVictory', () => {
+    it('records the outcome chosen by the victory condition', () => {
+      getActions().setVictoryCondition({ mode: 'turnLimit', turnLimit: 10 });
+      getActions().testBattle();
+      const { grid, players } = getState();
+      getActions().setTerritoryCount(0, 5);
+      players.slice(1).forEach(player => getActions().setTerritoryCount(player.id, 1));
+
+      getActions().checkVictory(grid, grid);
+      expect(getState().outcome).toBeNull();
+      expect(getState().unchangedTurns).toBe(1);
+
+      getActions().updateTurn(10);
+      getActions().checkVictory(grid, grid);
+      expect(getState().outcome).toEqual({ winner: 0, reason: 'turnLimit' });
+    });
+
+    it('is cleared when a new battle starts', () => {
+      getActions().setVictoryCondition({ mode: 'turnLimit', turnLimit: 1 });
+      getActions().testBattle();
+      getActions().updateTurn(1);
+      getActions().checkVictory(getState().grid, getState().grid);
+      expect(getState().outcome).not.toBeNull();
+
+      getActions().rematch();
+      expect(getState().outcome).toBeNull();
+      expect(getState().unchangedTurns).toBe(0);
+    });
+  });
+
+  describe('rematch', () => {
+    it('keeps the builds and restarts with a new seed', () => {
+      getActions().testBattle();
+      const before = getState();
+      getActions().setGameState('gameOver');
+
+      getActions().rematch();
+
+      const state = getState();
+      expect(state.gameState).toBe('battle');
+      expect(state.turn).toBe(0);
+      expect(state.rngState).toBe(state.seed);
+      expect(state.players.map(player => player.virus)).toEqual(before.players.map(player => player.virus));
+      expect(state.players.every(player => player.territoryCount === 1)).toBe(true);
+      expect(state.grid.flat().filter(cell => cell.owner !== null)).toHaveLength(state.players.length);
+    });
+  });
+
+  describe('returnToLab', () => {
+    it('goes back to setup keeping the builds', () => {
+      getActions().testBattle();
+      const builds = getState().players.map(player => player.virus);
+
+      getActions().returnToLab();
+
+      const state = getState();
+      expect(state.gameState).toBe('setup');
+      expect(state.players.map(player => player.virus)).toEqual(builds);
+      expect(state.grid.flat().every(cell => cell.owner === null)).toBe(true);
+    });
+  });
+});
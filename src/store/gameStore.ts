@@ -5,38 +5,49 @@ import {
   VirusParameters,
   VisualEffect,
   PerformanceMetrics,
-  GameSettings
+  GameSettings,
+  VictoryCondition,
+  PlayerController,
+  AiStrategy,
+  Cell,
+  TerrainPreset,
+  Topology,
+  BattleMap
 } from '../types/game';
+import { generateSeed } from '../utils/seededRandom';
+import { createEmptyGrid } from '../utils/grid';
+import { countStartingTerritory, createBattleGrid } from '../utils/battleMaps';
+import { Scenario } from '../utils/scenarioFile';
+import { clearSpawnPoints, countOpenCells, generateTerrain } from '../utils/terrain';
+import { DEFAULT_TOPOLOGY } from '../utils/topology';
+import { DEFAULT_PLAYER_COUNT, applyEliminations, applyMutations, clampPlayerCount, createPlayer, createPlayers, restoreBaseVirus } from '../utils/players';
+import { DEFAULT_VICTORY_CONDITION, countUnchangedTurns, evaluateVictory } from '../engine/victory';
+import { EliminationEvent, MutationEvent } from '../engine/simulation';
+import { createAiBuild } from '../engine/ai';
+
+// AI players build their virus from their strategy and are always ready;
+// counter-picking AIs read the other players' builds as they stand
+const buildAiPlayer = (player: Player, players: Player[]): Player => {
+  const opponents = players.filter(other => other.id !== player.id).map(other => other.virus);
+  return { ...player, virus: createAiBuild(player.aiStrategy ?? 'balanced', opponents), isReady: true };
+};
+
+// Rebuilds every AI player in turn, each one seeing the builds made before it
+// Locked scenario builds are played as written, even by AI players
+const buildAiPlayers = (players: Player[]): Player[] =>
+  players.reduce<Player[]>((built, player, index) => [
+    ...built,
+    player.controller === 'ai' && !player.buildLocked ? buildAiPlayer(player, [...built, ...players.slice(index)]) : player
+  ], []);
+
+// A different map ends a loaded scenario: its builds are unlocked and battles draw new seeds again
+const leaveScenario = (gameState: GameState): Pick<GameState, 'players' | 'settings'> => ({
+  players: gameState.players.map(player => (player.buildLocked ? { ...player, buildLocked: false } : player)),
+  settings: { ...gameState.settings, scenarioSeed: null }
+});
 
 // Initialize default game state
-const initialPlayers: Player[] = Array(4).fill(null).map((_, i) => ({
-  id: i,
-  name: `Player ${i + 1}`,
-  color: ['#EF4444', '#3B82F6', '#10B981', '#F59E0B'][i], // Red, Blue, Green, Yellow
-  isReady: false,
-  virus: {
-    aggression: 0,
-    mutation: 0,
-    speed: 0,
-    defense: 0,
-    reproduction: 0,
-    resistance: 0,
-    stealth: 0,
-    adaptability: 0,
-    virulence: 0,
-    endurance: 0,
-    mobility: 0,
-    intelligence: 0,
-    resilience: 0,
-    infectivity: 0,
-    lethality: 0,
-    stability: 0,
-  },
-  territoryCount: 0,
-  preferredDirection: null,
-  lastMutationTurn: 0,
-  skin: undefined, // No skin applied by default
-}));
+const initialPlayers: Player[] = createPlayers(DEFAULT_PLAYER_COUNT);
 
 const initialSettings: GameSettings = {
   simulationInterval: 400,
@@ -44,12 +55,19 @@ const initialSettings: GameSettings = {
   enableVisualEffects: false, // Все визуальные эффекты отключены для улучшения производительности
   enableSound: true,
   gridSize: { rows: 35, cols: 70 },
+  playerCount: DEFAULT_PLAYER_COUNT,
   visualEffectQuality: 'low', // 'low', 'medium', 'high' - все равно не используется
+  victoryCondition: DEFAULT_VICTORY_CONDITION,
+  terrainPreset: 'open',
+  scenarioSeed: null,
+  topology: DEFAULT_TOPOLOGY
 };
 
 const initialGameState: GameState = {
   gameState: 'setup',
-  grid: Array(35).fill(null).map(() => Array(70).fill(null)), // 70x35 grid (35 rows, 70 columns)
+  grid: createEmptyGrid(initialSettings.gridSize),
+  terrain: null,
+  battleMap: null,
   players: initialPlayers,
   visualEffects: [], // Визуальные эффекты отключены для улучшения производительности
   cellAge: [], // Cell age system has been removed for performance optimization
@@ -62,6 +80,10 @@ const initialGameState: GameState = {
   },
   settings: initialSettings,
   turn: 0,
+  seed: 0,
+  rngState: 0,
+  unchangedTurns: 0,
+  outcome: null,
   phase: 0,
   simulationSpeed: 1,
   isPaused: false,
@@ -73,9 +95,16 @@ interface GameStore {
   actions: {
     setGameState: (state: 'setup' | 'battle' | 'gameOver') => void;
     setPlayerParameter: (playerId: number, param: keyof VirusParameters, value: number) => void;
+    setPlayerVirus: (playerId: number, virus: VirusParameters) => void;
     setPlayerReady: (playerId: number) => void;
-    updateGrid: (newGrid: (number | null)[][]) => void;
+    setPlayerController: (playerId: number, controller: PlayerController) => void;
+    setAiStrategy: (playerId: number, strategy: AiStrategy) => void;
+    prepareAiPlayers: () => void;
+    updateGrid: (newGrid: Cell[][]) => void;
     updateTurn: (turn: number) => void;
+    setSeed: (seed: number) => void;
+    updateRngState: (rngState: number) => void;
+    checkVictory: (previousGrid: Cell[][], nextGrid: Cell[][]) => void;
     addAttackEffect: (from: { row: number; col: number }, to: { row: number; col: number }, attacker: number) => void;
     addExpansionEffect: (from: { row: number; col: number }, to: { row: number; col: number }, player: number) => void;
     addParameterEffect: (position: { row: number; col: number }, type: string, player: number) => void;
@@ -86,15 +115,27 @@ interface GameStore {
     setSimulationSpeed: (speed: number) => void;
     togglePause: () => void;
     resetGame: () => void;
+    loadGameState: (state: GameState) => void;
     updatePerformance: (metrics: Partial<PerformanceMetrics>) => void;
     setTerritoryCount: (playerId: number, count: number) => void;
     updatePlayers: (players: Player[]) => void;
+    eliminatePlayers: (events: EliminationEvent[]) => void;
+    mutatePlayers: (events: MutationEvent[]) => void;
     addExpansionSourceEffect: (position: { row: number; col: number }, player: number) => void;
     addExpansionPathEffect: (from: { row: number; col: number }, to: { row: number; col: number }, player: number) => void;
     addExpansionTargetEffect: (position: { row: number; col: number }, player: number) => void;
     updateSettings: (settings: Partial<GameSettings>) => void;
+    setGridSize: (gridSize: GameSettings['gridSize']) => void;
+    setPlayerCount: (count: number) => void;
+    setVictoryCondition: (condition: Partial<VictoryCondition>) => void;
+    setTerrainPreset: (preset: TerrainPreset) => void;
+    setTopology: (topology: Topology) => void;
+    setBattleMap: (battleMap: BattleMap | null) => void;
+    loadScenario: (scenario: Scenario) => void;
     calculateFPS: () => void;
     testBattle: () => void;
+    rematch: () => void;
+    returnToLab: () => void;
     setShowHelpOnStart: (show: boolean) => void;
   };
 }
@@ -107,20 +148,64 @@ export const useGameStore = create<GameStore>((set) => ({
     })),
 
     setPlayerParameter: (playerId, param, value) => set((store) => {
+      if (store.gameState.players[playerId]?.buildLocked) return store;
       const players = [...store.gameState.players];
       players[playerId].virus[param] = value;
       return { gameState: { ...store.gameState, players } };
     }),
 
+    // Replaces the whole build, e.g. with one found by the optimizer
+    setPlayerVirus: (playerId, virus) => set((store) => {
+      const players = store.gameState.players.map(player =>
+        player.id === playerId && !player.buildLocked ? { ...player, virus: { ...virus } } : player
+      );
+      return { gameState: { ...store.gameState, players } };
+    }),
+
     setPlayerReady: (playerId) => set((store) => {
       const players = [...store.gameState.players];
       players[playerId].isReady = true;
       players[playerId].preferredDirection = null;
       players[playerId].lastMutationTurn = 0;
+      players[playerId].eliminatedTurn = null;
       return { gameState: { ...store.gameState, players } };
     }),
 
-    updateGrid: (newGrid: (number | null)[][]) => set((store) => ({
+    // Switching to AI builds the virus right away; switching back hands the build over unlocked
+    setPlayerController: (playerId, controller) => set((store) => {
+      const { players } = store.gameState;
+      return {
+        gameState: {
+          ...store.gameState,
+          players: players.map(player => {
+            if (player.id !== playerId || player.buildLocked) return player;
+            const updated = { ...player, controller, isReady: false };
+            return controller === 'ai' ? buildAiPlayer(updated, players) : updated;
+          })
+        }
+      };
+    }),
+
+    setAiStrategy: (playerId, strategy) => set((store) => {
+      const { players } = store.gameState;
+      return {
+        gameState: {
+          ...store.gameState,
+          players: players.map(player => {
+            if (player.id !== playerId || player.buildLocked) return player;
+            const updated = { ...player, aiStrategy: strategy };
+            return updated.controller === 'ai' ? buildAiPlayer(updated, players) : updated;
+          })
+        }
+      };
+    }),
+
+    // Rebuild every AI player against the final human builds, just before a battle
+    prepareAiPlayers: () => set((store) => ({
+      gameState: { ...store.gameState, players: buildAiPlayers(store.gameState.players) }
+    })),
+
+    updateGrid: (newGrid: Cell[][]) => set((store) => ({
       gameState: {
         ...store.gameState,
         grid: newGrid
@@ -131,6 +216,30 @@ export const useGameStore = create<GameStore>((set) => ({
       gameState: { ...store.gameState, turn }
     })),
 
+    // Setting a seed also rewinds the generator, so the battle replays from the start
+    setSeed: (seed: number) => set((store) => ({
+      gameState: { ...store.gameState, seed, rngState: seed, unchangedTurns: 0, outcome: null }
+    })),
+
+    updateRngState: (rngState: number) => set((store) => ({
+      gameState: { ...store.gameState, rngState }
+    })),
+
+    // Called after each calculated turn, once territory and turn are up to date
+    checkVictory: (previousGrid, nextGrid) => set((store) => {
+      const { gameState } = store;
+      if (gameState.gameState !== 'battle' || gameState.outcome) return store;
+
+      const unchangedTurns = countUnchangedTurns(previousGrid, nextGrid, gameState.unchangedTurns);
+      const outcome = evaluateVictory(gameState.settings.victoryCondition, {
+        territoryCounts: gameState.players.map(player => player.territoryCount),
+        totalCells: countOpenCells(gameState.settings.gridSize, gameState.terrain),
+        turn: gameState.turn,
+        unchangedTurns
+      });
+      return { gameState: { ...gameState, unchangedTurns, outcome } };
+    }),
+
     addAttackEffect: (from: { row: number; col: number }, to: { row: number; col: number }, attacker: number) => set((store) => {
       // Все визуальные эффекты отключены для улучшения производительности
       return {
@@ -228,34 +337,7 @@ export const useGameStore = create<GameStore>((set) => ({
 
     resetGame: () => {
       // Create fresh initial players to ensure proper reset
-      const freshInitialPlayers = Array(4).fill(null).map((_, i) => ({
-        id: i,
-        name: `Player ${i + 1}`,
-        color: ['#EF4444', '#3B82F6', '#10B981', '#F59E0B'][i], // Red, Blue, Green, Yellow
-        isReady: false,
-        virus: {
-          aggression: 0,
-          mutation: 0,
-          speed: 0,
-          defense: 0,
-          reproduction: 0,
-          resistance: 0,
-          stealth: 0,
-          adaptability: 0,
-          virulence: 0,
-          endurance: 0,
-          mobility: 0,
-          intelligence: 0,
-          resilience: 0,
-          infectivity: 0,
-          lethality: 0,
-          stability: 0,
-        },
-        territoryCount: 0,
-        preferredDirection: null,
-        lastMutationTurn: 0,
-        skin: undefined, // No skin applied by default
-      }));
+      const freshInitialPlayers = createPlayers(DEFAULT_PLAYER_COUNT);
 
       set(() => ({
         gameState: {
@@ -270,6 +352,17 @@ export const useGameStore = create<GameStore>((set) => ({
       }));
     },
 
+    // Resume a saved game; session-only state (effects, FPS counters) starts fresh
+    loadGameState: (state) => set(() => ({
+      gameState: {
+        ...state,
+        visualEffects: [],
+        performance: { ...initialGameState.performance, lastUpdate: Date.now() },
+        isPaused: false,
+        showHelpOnStart: false
+      }
+    })),
+
     updatePerformance: (metrics) => set((store) => ({
       gameState: {
         ...store.gameState,
@@ -320,6 +413,14 @@ export const useGameStore = create<GameStore>((set) => ({
       gameState: { ...store.gameState, players }
     })),
 
+    eliminatePlayers: (events) => set((store) => ({
+      gameState: { ...store.gameState, players: applyEliminations(store.gameState.players, events) }
+    })),
+
+    mutatePlayers: (events) => set((store) => ({
+      gameState: { ...store.gameState, players: applyMutations(store.gameState.players, events) }
+    })),
+
     updateSettings: (settings) => set((store) => ({
       gameState: {
         ...store.gameState,
@@ -327,6 +428,122 @@ export const useGameStore = create<GameStore>((set) => ({
       }
     })),
 
+    // Resizing only makes sense before a battle, so the grid is simply recreated empty
+    // A generated map doesn't fit another size, so a new one is drawn in place of any chosen map
+    setGridSize: (gridSize) => set((store) => ({
+      gameState: {
+        ...store.gameState,
+        ...leaveScenario(store.gameState),
+        settings: { ...store.gameState.settings, gridSize, scenarioSeed: null },
+        grid: createEmptyGrid(gridSize),
+        battleMap: null,
+        terrain: generateTerrain(gridSize, store.gameState.settings.terrainPreset, store.gameState.players.length, generateSeed())
+      }
+    })),
+
+    // Existing players keep their builds; new slots start empty and players beyond the count are dropped
+    setPlayerCount: (count) => set((store) => {
+      const playerCount = clampPlayerCount(count);
+      const unlocked = leaveScenario(store.gameState).players;
+      const players = Array(playerCount).fill(null).map((_, i) => unlocked[i] ?? createPlayer(i));
+      // A chosen map has a spawn point per player, so it gives way to a generated one;
+      // a generated map stays, but the new spawn points are cleared
+      const { terrain, settings, battleMap } = store.gameState;
+      return {
+        gameState: {
+          ...store.gameState,
+          settings: { ...settings, playerCount, scenarioSeed: null },
+          players,
+          battleMap: null,
+          terrain: battleMap
+            ? generateTerrain(settings.gridSize, settings.terrainPreset, playerCount, generateSeed())
+            : terrain && clearSpawnPoints(terrain, settings.gridSize, playerCount)
+        }
+      };
+    }),
+
+    setVictoryCondition: (condition) => set((store) => ({
+      gameState: {
+        ...store.gameState,
+        settings: {
+          ...store.gameState.settings,
+          victoryCondition: { ...store.gameState.settings.victoryCondition, ...condition }
+        }
+      }
+    })),
+
+    // Maps and scenarios work with any topology, so they are kept
+    setTopology: (topology) => set((store) => ({
+      gameState: {
+        ...store.gameState,
+        settings: { ...store.gameState.settings, topology }
+      }
+    })),
+
+    // Picking a preset, even the current one, draws a new map
+    setTerrainPreset: (preset) => set((store) => ({
+      gameState: {
+        ...store.gameState,
+        ...leaveScenario(store.gameState),
+        settings: { ...store.gameState.settings, terrainPreset: preset, scenarioSeed: null },
+        battleMap: null,
+        terrain: generateTerrain(store.gameState.settings.gridSize, preset, store.gameState.players.length, generateSeed())
+      }
+    })),
+
+    // A chosen map brings its own size, player count and terrain; clearing it draws a generated map again
+    setBattleMap: (battleMap) => set((store) => {
+      const { players, settings } = leaveScenario(store.gameState);
+      if (!battleMap) {
+        return {
+          gameState: {
+            ...store.gameState,
+            players,
+            settings,
+            battleMap: null,
+            terrain: generateTerrain(settings.gridSize, settings.terrainPreset, store.gameState.players.length, generateSeed())
+          }
+        };
+      }
+      const playerCount = battleMap.spawns.length;
+      return {
+        gameState: {
+          ...store.gameState,
+          settings: { ...settings, gridSize: battleMap.gridSize, playerCount },
+          players: Array(playerCount).fill(null).map((_, i) => players[i] ?? createPlayer(i)),
+          grid: createEmptyGrid(battleMap.gridSize),
+          terrain: battleMap.terrain,
+          battleMap
+        }
+      };
+    }),
+
+    // The scenario's map plus its builds, victory condition and seed; builds it leaves out stay as they are
+    loadScenario: (scenario) => {
+      useGameStore.getState().actions.setBattleMap(scenario.battleMap);
+      set((store) => ({
+        gameState: {
+          ...store.gameState,
+          settings: {
+            ...store.gameState.settings,
+            victoryCondition: scenario.victoryCondition ?? store.gameState.settings.victoryCondition,
+            scenarioSeed: scenario.seed
+          },
+          players: store.gameState.players.map((player, i) => {
+            const { name, virus, locked } = scenario.builds[i];
+            return {
+              ...player,
+              name: name ?? player.name,
+              virus: virus ? { ...virus } : player.virus,
+              isReady: locked || (virus === null && player.isReady), // A new build is confirmed in the lab first
+              controller: locked ? 'human' : player.controller,
+              buildLocked: locked
+            };
+          })
+        }
+      }));
+    },
+
     testBattle: () => set((store) => {
       // For each player, randomly distribute 16 points among all 16 parameters
       const updatedPlayers = store.gameState.players.map((player, playerId) => {
@@ -358,45 +575,43 @@ export const useGameStore = create<GameStore>((set) => ({
           newVirus[paramName as keyof VirusParameters] = params[index];
         });
 
-        // Return updated player with random parameters and marked as ready
+        // Return updated player with random parameters and marked as ready; locked scenario builds are played as written
         return {
           ...player,
-          virus: newVirus,
+          virus: player.buildLocked ? player.virus : newVirus,
+          baseVirus: null,
           isReady: true,
           preferredDirection: null,
-          lastMutationTurn: 0
+          lastMutationTurn: 0,
+          eliminatedTurn: null
         };
       });
 
-      // Create a new grid with starting positions
-      const grid = Array(35).fill(null).map(() => Array(70).fill(null));
-
-      // Place starting colonies in corners
-      const placeStartingColony = (playerId: number, x: number, y: number) => {
-        grid[y][x] = playerId; // Set owner in 2D format
-      };
-
-      // Place starting colonies in 4 corners with padding
-      placeStartingColony(0, 2, 2);      // Top-left
-      placeStartingColony(1, 67, 2);     // Top-right (70-3 for padding)
-      placeStartingColony(2, 2, 32);     // Bottom-left (35-3 for padding)
-      placeStartingColony(3, 67, 32);    // Bottom-right (70-3, 35-3 for padding)
+      // Create a new grid with a starting colony at each player's spawn point
+      const grid = createBattleGrid(store.gameState.settings.gridSize, updatedPlayers.length, store.gameState.battleMap);
 
       // Cell age system has been removed for performance optimization
       // Initialize cell age grid as empty
       const initialCellAge = [];
 
+      // Each test battle gets a fresh seed so it can be reproduced afterwards, unless a scenario fixes one
+      const seed = store.gameState.settings.scenarioSeed ?? generateSeed();
+
       return {
         gameState: {
           ...store.gameState,
           gameState: 'battle',
-          players: updatedPlayers.map((player, index) => ({
+          players: buildAiPlayers(updatedPlayers.map((player, index) => ({
             ...player,
             skin: store.gameState.players[index]?.skin // Preserve skins during test battle
-          })),
+          }))),
           grid,
           cellAge: initialCellAge,
           turn: 0,
+          seed,
+          rngState: seed,
+          unchangedTurns: 0,
+          outcome: null,
           phase: 0,
           isPaused: false,
           showHelpOnStart: false // Explicitly set to false for test battle
@@ -404,6 +619,54 @@ export const useGameStore = create<GameStore>((set) => ({
       };
     }),
 
+    // Replay the same builds, as chosen in the lab, on a fresh grid with a new seed
+    rematch: () => set((store) => {
+      const grid = createBattleGrid(store.gameState.settings.gridSize, store.gameState.players.length, store.gameState.battleMap);
+      const startingTerritory = countStartingTerritory(grid, store.gameState.players.length);
+      const players = store.gameState.players.map((player, playerId) => ({
+        ...restoreBaseVirus(player),
+        isReady: true,
+        territoryCount: startingTerritory[playerId], // Stale counts from the last battle would end this one at once
+        preferredDirection: null,
+        lastMutationTurn: 0,
+        eliminatedTurn: null
+      }));
+      const seed = generateSeed();
+
+      return {
+        gameState: {
+          ...store.gameState,
+          gameState: 'battle',
+          players,
+          grid,
+          visualEffects: [],
+          turn: 0,
+          seed,
+          rngState: seed,
+          unchangedTurns: 0,
+          outcome: null,
+          phase: 0,
+          isPaused: false
+        }
+      };
+    }),
+
+    // Back to setup keeping every build as chosen in the lab, so players can tweak them before the next battle
+    returnToLab: () => set((store) => ({
+      gameState: {
+        ...store.gameState,
+        gameState: 'setup',
+        players: store.gameState.players.map(player => ({ ...restoreBaseVirus(player), territoryCount: 0, eliminatedTurn: null })),
+        grid: createEmptyGrid(store.gameState.settings.gridSize),
+        visualEffects: [],
+        turn: 0,
+        unchangedTurns: 0,
+        outcome: null,
+        phase: 0,
+        isPaused: false
+      }
+    })),
+
     setShowHelpOnStart: (show) => set((store) => ({
       gameState: { ...store.gameState, showHelpOnStart: show }
     }))
@@ -70,6 +70,8 @@ const translations: Record<Language, Record<string, string>> = {
     phase: 'Phase:',
     speedLabel: 'Speed:',
     gridSize: 'Grid Size:',
+    seed: 'Seed:',
+    playerCount: 'Players:',
     fps: 'FPS:',
     playerStatus: 'Player Status',
     notReady: 'NOT READY',
@@ -99,7 +101,7 @@ const translations: Record<Language, Record<string, string>> = {
     battleAnalytics: 'Battle Analytics',
     battleAnalyticsDesc: 'Real-time statistics on expansion rates, combat effectiveness, and territory control.',
     aiAdvisor: 'AI Strategy Advisor',
-    aiAdvisorDesc: 'Get intelligent suggestions on parameter allocation and tactical decisions during battles.',
+    aiAdvisorDesc: 'Estimate the win rate of a virus from hundreds of simulated battles and get single-point reallocations that improve it.',
     scenarioBuilder: 'Scenario Builder',
     scenarioBuilderDesc: 'Create custom battle scenarios with specific starting conditions and challenges.',
     advancedReplay: 'Advanced Replay System',
@@ -108,7 +110,7 @@ const translations: Record<Language, Record<string, string>> = {
     performanceTracking: 'Performance Tracking',
     performanceTrackingDesc: 'Track your win rates, average territory control, and parameter effectiveness over time.',
     parameterOptimization: 'Parameter Optimization',
-    parameterOptimizationDesc: 'Get recommendations on parameter combinations based on your playstyle and results.',
+    parameterOptimizationDesc: 'Search hundreds of simulated battles for the 16-point build that does best against your chosen opponents.',
     matchHistory: 'Match History',
     matchHistoryDesc: 'Comprehensive records of all your battles with detailed statistics and outcomes.',
     achievementSystem: 'Achievement System',
@@ -147,6 +149,107 @@ const translations: Record<Language, Record<string, string>> = {
     gameSaved: 'Game saved successfully!',
     gameLoaded: 'Game loaded successfully!',
     noSavedGame: 'No saved game found!',
+    saveFailed: 'Could not save the game - storage is unavailable or full',
+    loadFailed: 'Could not load the game:',
+    saveSlot: 'Slot',
+    autosave: 'Autosave',
+    emptySlot: 'Empty',
+    watchReplay: 'Replay',
+    noReplay: 'No battle has been recorded yet.',
+    replaySpeed: 'Speed:',
+    exportReplay: 'Export',
+    importReplay: 'Import',
+    replayImportError: 'Could not import replay:',
+    turnsPlayed: 'Turns played:',
+    finalTerritory: 'Final territory',
+    winningBuild: 'Winning build',
+    balanceOffensive: 'Offensive',
+    balanceDefensive: 'Defensive',
+    balanceGrowth: 'Growth',
+    balanceAdaptability: 'Adaptability',
+    balanceCoordination: 'Coordination',
+    balanceOverall: 'Overall',
+    rematch: 'REMATCH',
+    backToLab: 'BACK TO LAB',
+    victoryCondition: 'Victory condition:',
+    victoryTerritory: 'Territory',
+    victoryLastStanding: 'Last standing',
+    victoryTurnLimit: 'Turn limit',
+    territoryShare: 'Share of the grid:',
+    turnLimit: 'Turns:',
+    stalemateTurns: 'Stalemate after unchanged turns:',
+    terrain: 'Terrain:',
+    terrainOpen: 'Open',
+    terrainScattered: 'Scattered',
+    terrainRugged: 'Rugged',
+    topology: 'Neighbours:',
+    topologyMoore: 'Square 8',
+    topologyVonNeumann: 'Square 4',
+    topologyHex: 'Hex 6',
+    terrainPlain: 'Plain',
+    terrainWall: 'Wall',
+    terrainNutrient: 'Nutrient',
+    terrainHostile: 'Hostile',
+    battleMap: 'Map:',
+    battleMapGenerated: 'Generated',
+    mapEditor: 'MAP EDITOR',
+    mapEditorDesc: 'Paint terrain and starting territory, and place a spawn point for every player.',
+    editorTerritory: 'Territory:',
+    editorUnowned: 'Unowned',
+    editorSpawns: 'Spawn points:',
+    editorClear: 'Clear map',
+    mapName: 'Map name',
+    mapSaveFailed: 'Could not save the map',
+    mapLibrary: 'Saved maps:',
+    mapLibraryEmpty: 'No saved maps yet',
+    mapDelete: 'Delete map',
+    scenario: 'Scenario',
+    scenarioLoad: 'Load',
+    scenarioLoadFile: 'From file',
+    scenarioExport: 'Export',
+    scenarioErrors: 'The scenario could not be loaded:',
+    buildLocked: 'This build is locked by the scenario',
+    terrainLegend: 'Grey walls block every virus, green cells make holders grow and defend faster, purple zones are hard to spread into.',
+    off: 'Off',
+    draw: 'Draw',
+    eliminatedOnTurn: 'eliminated on turn',
+    mutatedOnTurn: 'mutated on turn',
+    humanPlayer: 'Human',
+    aiPlayer: 'AI',
+    strategyRusher: 'Rusher',
+    strategyTurtle: 'Turtle',
+    strategyStealthSwarm: 'Stealth swarm',
+    strategyBalanced: 'Balanced',
+    strategyCounterPick: 'Counter-pick',
+    advisorOtherPlayers: 'Other players',
+    advisorReferencePool: 'Reference pool',
+    advisorAnalyse: 'ANALYSE BUILD',
+    advisorBattles: 'battles',
+    advisorWinRate: 'Estimated win rate:',
+    advisorStale: 'The build has changed since this analysis',
+    advisorNoSuggestions: 'No single-point change improved the win rate',
+    advisorApply: 'Apply',
+    advisorLargeMap: 'Large map: fewer battles are played, so estimates are rougher',
+    optimizerRun: 'FIND BEST BUILD',
+    optimizerGeneration: 'Generation',
+    optimizerScore: 'Best score:',
+    optimizerInitialScore: 'starting build',
+    optimizerScoreHint: 'A win scores 1 and a draw half',
+    optimizerApply: 'Apply best build',
+    buildPresets: 'Build presets',
+    presetLoadInto: 'Load into',
+    presetName: 'Preset name',
+    presetDelete: 'Delete preset',
+    presetSaveFailed: 'Could not save the preset',
+    buildCode: 'Build code',
+    buildCodeExport: 'Export',
+    buildCodeImport: 'Import',
+    cancel: 'Cancel',
+    reasonTerritory: 'Took over the grid',
+    reasonLastStanding: 'Last virus standing',
+    reasonTurnLimit: 'Largest territory at the turn limit',
+    reasonStalemate: 'Stalemate: the front lines stopped moving',
+    simulationError: 'Simulation error - the battle has been paused',
     settingsComingSoon: 'Settings coming soon!',
     premiumComingSoon: 'Premium features coming soon!',
     statsComingSoon: 'Statistics coming soon!',
@@ -155,7 +258,7 @@ const translations: Record<Language, Record<string, string>> = {
     madeBy: 'Made by Lorem Totem',
     gameTitle: 'VYRUS',
     helpTitle: 'How to Play',
-    helpContent: `VYRUS is a strategic virus warfare simulation game where 4 different viruses compete for territory on a grid.
+    helpContent: `VYRUS is a strategic virus warfare simulation game where 2 to 8 different viruses compete for territory on a grid.
 
 1. Configure your virus by distributing 16 points among 16 different parameters
 2. Each parameter affects how your virus behaves during the battle
@@ -211,6 +314,8 @@ Click anywhere to close this help.`,
     phase: 'Фаза:',
     speedLabel: 'Скорость:',
     gridSize: 'Размер сетки:',
+    seed: 'Сид:',
+    playerCount: 'Игроки:',
     fps: 'FPS:',
     playerStatus: 'Статус игрока',
     notReady: 'НЕ ГОТОВ',
@@ -240,7 +345,7 @@ Click anywhere to close this help.`,
     battleAnalytics: 'Аналитика битвы',
     battleAnalyticsDesc: 'Статистика в реальном времени по темпам расширения, эффективности боя и контролю территории.',
     aiAdvisor: 'Советник по стратегии ИИ',
-    aiAdvisorDesc: 'Получайте интеллектуальные предложения по распределению параметров и тактическим решениям во время битв.',
+    aiAdvisorDesc: 'Оцените процент побед вируса по сотням симулированных битв и получите переносы очков, которые его повышают.',
     scenarioBuilder: 'Конструктор сценариев',
     scenarioBuilderDesc: 'Создавайте настраиваемые сценарии битвы с конкретными условиями начала и задачами.',
     advancedReplay: 'Расширенная система повтора',
@@ -249,7 +354,7 @@ Click anywhere to close this help.`,
     performanceTracking: 'Отслеживание производительности',
     performanceTrackingDesc: 'Отслеживайте свои победы, средний контроль территории и эффективность параметров с течением времени.',
     parameterOptimization: 'Оптимизация параметров',
-    parameterOptimizationDesc: 'Получайте рекомендации по комбинациям параметров на основе вашего стиля игры и результатов.',
+    parameterOptimizationDesc: 'Найдите по сотням симулированных битв сборку на 16 очков, которая лучше всего играет против выбранных соперников.',
     matchHistory: 'История матчей',
     matchHistoryDesc: 'Исчерпывающие записи всех ваших битв с подробной статистикой и результатами.',
     achievementSystem: 'Система достижений',
@@ -288,6 +393,107 @@ Click anywhere to close this help.`,
     gameSaved: 'Игра сохранена успешно!',
     gameLoaded: 'Игра загружена успешно!',
     noSavedGame: 'Сохраненная игра не найдена!',
+    saveFailed: 'Не удалось сохранить игру - хранилище недоступно или переполнено',
+    loadFailed: 'Не удалось загрузить игру:',
+    saveSlot: 'Слот',
+    autosave: 'Автосохранение',
+    emptySlot: 'Пусто',
+    watchReplay: 'Повтор',
+    noReplay: 'Еще ни одна битва не записана.',
+    replaySpeed: 'Скорость:',
+    exportReplay: 'Экспорт',
+    importReplay: 'Импорт',
+    replayImportError: 'Не удалось импортировать повтор:',
+    turnsPlayed: 'Сыграно ходов:',
+    finalTerritory: 'Итоговая территория',
+    winningBuild: 'Вирус-победитель',
+    balanceOffensive: 'Нападение',
+    balanceDefensive: 'Защита',
+    balanceGrowth: 'Рост',
+    balanceAdaptability: 'Адаптивность',
+    balanceCoordination: 'Координация',
+    balanceOverall: 'Общий баланс',
+    rematch: 'РЕВАНШ',
+    backToLab: 'В ЛАБОРАТОРИЮ',
+    victoryCondition: 'Условие победы:',
+    victoryTerritory: 'Территория',
+    victoryLastStanding: 'Последний выживший',
+    victoryTurnLimit: 'Лимит ходов',
+    territoryShare: 'Доля сетки:',
+    turnLimit: 'Ходов:',
+    stalemateTurns: 'Пат после ходов без изменений:',
+    terrain: 'Местность:',
+    terrainOpen: 'Открытая',
+    terrainScattered: 'Редкая',
+    terrainRugged: 'Пересеченная',
+    topology: 'Соседи:',
+    topologyMoore: 'Квадрат 8',
+    topologyVonNeumann: 'Квадрат 4',
+    topologyHex: 'Соты 6',
+    terrainPlain: 'Равнина',
+    terrainWall: 'Стена',
+    terrainNutrient: 'Питательная',
+    terrainHostile: 'Враждебная',
+    battleMap: 'Карта:',
+    battleMapGenerated: 'Сгенерированная',
+    mapEditor: 'РЕДАКТОР КАРТ',
+    mapEditorDesc: 'Рисуйте местность и начальную территорию и расставьте точки появления для каждого игрока.',
+    editorTerritory: 'Территория:',
+    editorUnowned: 'Ничья',
+    editorSpawns: 'Точки появления:',
+    editorClear: 'Очистить карту',
+    mapName: 'Название карты',
+    mapSaveFailed: 'Не удалось сохранить карту',
+    mapLibrary: 'Сохраненные карты:',
+    mapLibraryEmpty: 'Сохраненных карт пока нет',
+    mapDelete: 'Удалить карту',
+    scenario: 'Сценарий',
+    scenarioLoad: 'Загрузить',
+    scenarioLoadFile: 'Из файла',
+    scenarioExport: 'Экспорт',
+    scenarioErrors: 'Не удалось загрузить сценарий:',
+    buildLocked: 'Эта сборка закреплена сценарием',
+    terrainLegend: 'Серые стены непроходимы для всех вирусов, зеленые клетки ускоряют рост и защиту владельца, в фиолетовые зоны трудно распространиться.',
+    off: 'Выкл',
+    draw: 'Ничья',
+    eliminatedOnTurn: 'уничтожен на ходу',
+    mutatedOnTurn: 'мутировал на ходу',
+    humanPlayer: 'Человек',
+    aiPlayer: 'ИИ',
+    strategyRusher: 'Штурмовик',
+    strategyTurtle: 'Черепаха',
+    strategyStealthSwarm: 'Скрытный рой',
+    strategyBalanced: 'Баланс',
+    strategyCounterPick: 'Контрпик',
+    advisorOtherPlayers: 'Другие игроки',
+    advisorReferencePool: 'Эталонный набор',
+    advisorAnalyse: 'АНАЛИЗ ВИРУСА',
+    advisorBattles: 'битв',
+    advisorWinRate: 'Оценка процента побед:',
+    advisorStale: 'Вирус изменился после этого анализа',
+    advisorNoSuggestions: 'Перенос одного очка не повысил процент побед',
+    advisorApply: 'Применить',
+    advisorLargeMap: 'Большая карта: битв меньше, поэтому оценка грубее',
+    optimizerRun: 'НАЙТИ ЛУЧШУЮ СБОРКУ',
+    optimizerGeneration: 'Поколение',
+    optimizerScore: 'Лучший счет:',
+    optimizerInitialScore: 'исходная сборка',
+    optimizerScoreHint: 'Победа дает 1 очко, ничья — половину',
+    optimizerApply: 'Применить лучшую сборку',
+    buildPresets: 'Шаблоны сборок',
+    presetLoadInto: 'Загрузить в',
+    presetName: 'Название шаблона',
+    presetDelete: 'Удалить шаблон',
+    presetSaveFailed: 'Не удалось сохранить шаблон',
+    buildCode: 'Код сборки',
+    buildCodeExport: 'Экспорт',
+    buildCodeImport: 'Импорт',
+    cancel: 'Отмена',
+    reasonTerritory: 'Захватил сетку',
+    reasonLastStanding: 'Последний выживший вирус',
+    reasonTurnLimit: 'Наибольшая территория к лимиту ходов',
+    reasonStalemate: 'Пат: линия фронта перестала двигаться',
+    simulationError: 'Ошибка симуляции - битва приостановлена',
     settingsComingSoon: 'Настройки скоро появятся!',
     premiumComingSoon: 'Премиум-функции скоро появятся!',
     statsComingSoon: 'Статистика скоро появится!',
@@ -296,7 +502,7 @@ Click anywhere to close this help.`,
     madeBy: 'Сделано Lorem Totem',
     gameTitle: 'VYRUS',
     helpTitle: 'Как играть',
-    helpContent: `VYRUS - это стратегическая симуляция вирусной войны, в которой 4 разных вируса соревнуются за территорию на сетке.
+    helpContent: `VYRUS - это стратегическая симуляция вирусной войны, в которой от 2 до 8 разных вирусов соревнуются за территорию на сетке.
 
 1. Настройте свой вирус, распределив 16 очков между 16 различными параметрами
 2. Каждый параметр влияет на поведение вашего вируса во время боя
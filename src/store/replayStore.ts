@@ -0,0 +1,43 @@
+/**
+ * Replay Store
+ *
+ * Хранилище повторов
+ *
+ * Holds the recording of the current (or last finished) battle. The game
+ * appends every calculated turn, and the replay viewer reads from here.
+ * Turns are pushed onto the recording's own list rather than copied into a
+ * new one, so recording a long battle stays linear in its length.
+ *
+ * Хранит запись текущей (или последней завершенной) битвы. Игра добавляет
+ * каждый рассчитанный ход, а просмотрщик повторов читает запись отсюда.
+ * Ходы добавляются в собственный список записи, а не копируются в новый,
+ * поэтому запись длинной битвы остается линейной по ее длине.
+ */
+import { create } from 'zustand';
+import { Cell } from '../types/game';
+import { Replay, createReplayTurn } from '../utils/replay';
+
+interface ReplayStore {
+  replay: Replay | null;
+  actions: {
+    startRecording: (replay: Replay) => void;
+    recordTurn: (previousGrid: Cell[][], nextGrid: Cell[][], territoryCounts: number[]) => void;
+    clearReplay: () => void;
+  };
+}
+
+export const useReplayStore = create<ReplayStore>((set) => ({
+  replay: null,
+  actions: {
+    startRecording: (replay) => set({ replay }),
+
+    // The new replay object shares the turns list, only so subscribers see the change
+    recordTurn: (previousGrid, nextGrid, territoryCounts) => set((store) => {
+      if (!store.replay) return {};
+      store.replay.turns.push(createReplayTurn(previousGrid, nextGrid, territoryCounts));
+      return { replay: { ...store.replay } };
+    }),
+
+    clearReplay: () => set({ replay: null })
+  }
+}));
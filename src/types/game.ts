@@ -1,11 +1,17 @@
 export interface GameState {
   gameState: 'setup' | 'battle' | 'gameOver';
-  grid: (number | null)[][]; // 2D grid representation [row][col]
+  grid: Cell[][]; // 2D grid representation [row][col]
+  terrain: Terrain | null; // Terrain layer [row][col], null for an open map
+  battleMap: BattleMap | null; // Hand-made map chosen during setup, null for a generated one
   players: Player[];
   visualEffects: VisualEffect[];
   performance: PerformanceMetrics;
   settings: GameSettings;
   turn: number;
+  seed: number; // Seed the current battle was started with
+  rngState: number; // Seeded generator state carried between worker turns
+  unchangedTurns: number; // Consecutive turns without any cell changing owner, for stalemate detection
+  outcome: VictoryOutcome | null; // Set on the turn the battle is decided
   phase: number;
   simulationSpeed: number;
   isPaused: boolean;
@@ -18,12 +24,21 @@ export interface Player {
   color: string;
   isReady: boolean;
   virus: VirusParameters;
+  baseVirus?: VirusParameters | null; // Build chosen in the lab while mutations change `virus` during a battle
   territoryCount: number;
   preferredDirection?: [number, number] | null; // For mobility-based directional growth
   lastMutationTurn?: number; // For tracking mutation effects
+  eliminatedTurn?: number | null; // Turn the virus lost its last cell, null while it is still alive
+  controller?: PlayerController; // Who builds the virus; players without one are human
+  aiStrategy?: AiStrategy; // How an AI player builds its virus
+  buildLocked?: boolean; // Build fixed by a scenario, which the lab cannot change
   skin?: string; // For premium skins like 'holographic', etc.
 }
 
+export type PlayerController = 'human' | 'ai';
+
+export type AiStrategy = 'rusher' | 'turtle' | 'stealthSwarm' | 'balanced' | 'counterPick';
+
 export interface VirusParameters {
   aggression: number;
   mutation: number;
@@ -80,14 +95,56 @@ export interface GameSettings {
   enableVisualEffects: boolean;
   enableSound: boolean;
   gridSize: { rows: number; cols: number };
+  playerCount: number; // 2 to 8 viruses
   visualEffectQuality: 'low' | 'medium' | 'high';
+  victoryCondition: VictoryCondition; // Chosen during setup
+  terrainPreset: TerrainPreset; // How the terrain layer is generated during setup
+  topology: Topology; // Which cells count as neighbours, chosen during setup
+  scenarioSeed: number | null; // Battle seed fixed by a loaded scenario, null for a new seed every battle
+}
+
+// plain: no effect; wall: no virus can enter; nutrient: feeds the cell that holds it;
+// hostile: expansion into it often fails
+export type TerrainType = 'plain' | 'wall' | 'nutrient' | 'hostile';
+
+// Terrain layer of the map, one entry per grid cell
+export type Terrain = TerrainType[][];
+
+export type TerrainPreset = 'open' | 'scattered' | 'rugged';
+
+// moore: 8 neighbours; vonNeumann: 4, no diagonals; hex: 6, with odd rows shifted half a cell right
+export type Topology = 'moore' | 'vonNeumann' | 'hex';
+
+// Hand-made battlefield from the map editor
+export interface BattleMap {
+  name: string;
+  gridSize: { rows: number; cols: number };
+  terrain: Terrain | null;
+  territory: (number | null)[][]; // Cells owned from the first turn [row][col], player id or null
+  spawns: { row: number; col: number }[]; // One starting colony per player, in player order
+}
+
+export type VictoryMode = 'territory' | 'lastStanding' | 'turnLimit';
+
+export interface VictoryCondition {
+  mode: VictoryMode;
+  territoryShare: number; // 'territory': share of the grid to exceed, 0..1
+  turnLimit: number; // 'turnLimit': turns after which the largest territory wins
+  stalemateTurns: number; // Any mode: draw after this many turns without an ownership change, 0 = off
+}
+
+export type VictoryReason = VictoryMode | 'stalemate';
+
+export interface VictoryOutcome {
+  winner: number | null; // Player id, or null for a draw
+  reason: VictoryReason;
 }
 
 export interface Cell {
   owner: number | null;
-  growth: number;
-  latency: boolean;
-  burstCooldown: number;
+  growth: number; // Local strength, builds up every turn the cell is held
+  latency: boolean; // Dormant interior cell with no enemy or empty neighbours
+  burstCooldown: number; // Turns left before the cell can burst (explosive growth) again
 }
 
 export interface GridPosition {
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { BattleMap } from '../types/game';
+import { createStartingGrid } from './grid';
+import { decodeTerrain } from './terrain';
+import {
+  countStartingTerritory,
+  createBattleGrid,
+  createBlankMap,
+  getBattleSpawnPoints,
+  parseBattleMap,
+  parseMapLibrary,
+  serializeBattleMap,
+  validateBattleMap
+} from './battleMaps';
+
+const SIZE = { rows: 3, cols: 5 };
+
+const createTestMap = (overrides: Partial<BattleMap> = {}): BattleMap => ({
+  name: 'Canyon',
+  gridSize: SIZE,
+  terrain: decodeTerrain(['..#..', '..#..', '.....'], SIZE).terrain,
+  territory: [[0, 0, null, null, null], [null, null, null, null, 1], [null, null, null, null, null]],
+  spawns: [{ row: 0, col: 0 }, { row: 2, col: 4 }],
+  ...overrides
+});
+
+describe('battle grids', () => {
+  it('fall back to the generated layout without a map', () => {
+    expect(createBattleGrid(SIZE, 2, null)).toEqual(createStartingGrid(SIZE, 2));
+  });
+
+  it('start from the map territory and spawn points', () => {
+    const battleMap = createTestMap();
+    const grid = createBattleGrid(SIZE, 2, battleMap);
+    expect(countStartingTerritory(grid, 2)).toEqual([2, 2]);
+    expect(grid[2][4].owner).toBe(1);
+    expect(getBattleSpawnPoints(SIZE, 2, battleMap)).toBe(battleMap.spawns);
+  });
+});
+
+describe('validateBattleMap', () => {
+  it('accepts a blank map', () => {
+    expect(validateBattleMap(createBlankMap({ rows: 20, cols: 40 }, 8))).toBeNull();
+  });
+
+  it('rejects spawn points that cannot be played', () => {
+    expect(validateBattleMap(createTestMap({ spawns: [{ row: 0, col: 2 }, { row: 2, col: 4 }] })))
+      .toBe('Spawn point of player 1 is on a wall');
+    expect(validateBattleMap(createTestMap({ spawns: [{ row: 0, col: 0 }, { row: 0, col: 0 }] })))
+      .toBe('Spawn point of player 2 is shared with another player');
+    expect(validateBattleMap(createTestMap({ spawns: [{ row: 0, col: 0 }] })))
+      .toBe('A map must have 2 to 8 spawn points');
+  });
+
+  it('rejects territory on walls or of missing players', () => {
+    const onWall = createTestMap().territory.map(owners => [...owners]);
+    onWall[1][2] = 0;
+    expect(validateBattleMap(createTestMap({ territory: onWall }))).toBe('Territory at row 1, column 2 is on a wall');
+
+    const missing = createTestMap().territory.map(owners => [...owners]);
+    missing[2][0] = 3;
+    expect(validateBattleMap(createTestMap({ territory: missing })))
+      .toBe('Territory at row 2, column 0 belongs to a player without a spawn point');
+  });
+});
+
+describe('stored maps', () => {
+  it('round-trip through the stored format', () => {
+    const battleMap = createTestMap();
+    const stored = serializeBattleMap(battleMap);
+    expect(stored.territory).toEqual(['00...', '....1', '.....']);
+    expect(parseBattleMap(JSON.parse(JSON.stringify(stored)))).toEqual({ battleMap, error: null });
+  });
+
+  it('leave the terrain out of open maps', () => {
+    expect(serializeBattleMap(createBlankMap(SIZE, 2))).not.toHaveProperty('terrain');
+  });
+
+  it('drop library entries that fail validation', () => {
+    const broken = { ...serializeBattleMap(createTestMap({ name: 'Broken' })), spawns: [[0, 2], [2, 4]] };
+    const library = JSON.stringify([serializeBattleMap(createTestMap()), broken, { name: 'Empty' }]);
+    expect(parseMapLibrary(library).map(battleMap => battleMap.name)).toEqual(['Canyon']);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Battle Maps
+ *
+ * Карты сражений
+ *
+ * Hand-made battlefields from the map editor: terrain, territory owned from
+ * the first turn and a spawn point per player. Every battle starts from
+ * getBattleSpawnPoints and createBattleGrid, which fall back to the generated
+ * layout when no map is chosen. Saved maps are kept in localStorage, with
+ * terrain and territory written as one string per row ('.' for an unowned
+ * cell, the player number otherwise), and are validated before they are used.
+ *
+ * Созданные вручную поля боя из редактора карт: местность, территория,
+ * принадлежащая игрокам с первого хода, и точка появления каждого игрока.
+ * Каждая битва начинается с getBattleSpawnPoints и createBattleGrid, которые
+ * возвращаются к сгенерированной раскладке, если карта не выбрана. Сохраненные
+ * карты хранятся в localStorage, местность и территория записываются строкой
+ * на ряд ('.' для ничьей клетки, иначе номер игрока) и проверяются перед
+ * использованием.
+ */
+import { BattleMap, Cell } from '../types/game';
+import { GridSize, createEmptyGrid, createOwnedCell, createStartingGrid, getSpawnPoints } from './grid';
+import { MAX_PLAYERS, MIN_PLAYERS } from './players';
+import { decodeTerrain, encodeTerrain, getTerrainAt, hasTerrain } from './terrain';
+
+// Map as written to storage and files
+export interface StoredBattleMap {
+  name: string;
+  gridSize: GridSize;
+  terrain?: string[]; // Left out for an open map
+  territory: string[];
+  spawns: [number, number][]; // [row, col] per player
+}
+
+export interface BattleMapResult {
+  battleMap: BattleMap | null;
+  error: string | null;
+}
+
+const STORAGE_KEY = 'vyrus-battle-maps';
+
+export const MAX_MAP_NAME_LENGTH = 24;
+
+// Largest map side accepted from storage and files, the longest side of the largest grid preset
+export const MAX_MAP_SIDE = 200;
+
+const UNOWNED_SYMBOL = '.';
+
+// Spawn points of a battle: the chosen map's, or the generated layout
+export const getBattleSpawnPoints = (
+  gridSize: GridSize,
+  playerCount: number,
+  battleMap: BattleMap | null
+): { row: number; col: number }[] => battleMap ? battleMap.spawns : getSpawnPoints(gridSize, playerCount);
+
+// Starting grid of a battle: the map's territory and a colony on every spawn point
+export const createBattleGrid = (gridSize: GridSize, playerCount: number, battleMap: BattleMap | null): Cell[][] => {
+  if (!battleMap) return createStartingGrid(gridSize, playerCount);
+  const grid = createEmptyGrid(battleMap.gridSize);
+  battleMap.territory.forEach((owners, row) => owners.forEach((owner, col) => {
+    if (owner !== null) grid[row][col] = createOwnedCell(owner);
+  }));
+  battleMap.spawns.forEach(({ row, col }, playerId) => {
+    grid[row][col] = createOwnedCell(playerId);
+  });
+  return grid;
+};
+
+export const countStartingTerritory = (grid: Cell[][], playerCount: number): number[] => {
+  const counts: number[] = Array(playerCount).fill(0);
+  grid.forEach(row => row.forEach(cell => {
+    if (cell.owner !== null) counts[cell.owner]++;
+  }));
+  return counts;
+};
+
+// Starting point for the editor: open ground and the generated spawn points
+export const createBlankMap = (gridSize: GridSize, playerCount: number): BattleMap => ({
+  name: '',
+  gridSize,
+  terrain: null,
+  territory: Array(gridSize.rows).fill(null).map(() => Array(gridSize.cols).fill(null)),
+  spawns: getSpawnPoints(gridSize, playerCount)
+});
+
+// Returns the first problem that would stop the map from being played, or null
+export const validateBattleMap = (battleMap: BattleMap): string | null => {
+  const { gridSize: { rows, cols }, terrain, territory, spawns } = battleMap;
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 1 || cols < 1 || rows > MAX_MAP_SIDE || cols > MAX_MAP_SIDE) {
+    return `Map size must be between 1x1 and ${MAX_MAP_SIDE}x${MAX_MAP_SIDE}`;
+  }
+  if (spawns.length < MIN_PLAYERS || spawns.length > MAX_PLAYERS) {
+    return `A map must have ${MIN_PLAYERS} to ${MAX_PLAYERS} spawn points`;
+  }
+  if (territory.length !== rows || territory.some(owners => owners.length !== cols)) {
+    return `Territory does not match the ${rows}x${cols} size`;
+  }
+  if (terrain && (terrain.length !== rows || terrain.some(types => types.length !== cols))) {
+    return `Terrain does not match the ${rows}x${cols} size`;
+  }
+
+  const taken = new Set<string>();
+  for (let playerId = 0; playerId < spawns.length; playerId++) {
+    const { row, col } = spawns[playerId];
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || row >= rows || col < 0 || col >= cols) {
+      return `Spawn point of player ${playerId + 1} is outside the map`;
+    }
+    if (getTerrainAt(terrain, row, col) === 'wall') {
+      return `Spawn point of player ${playerId + 1} is on a wall`;
+    }
+    if (taken.has(`${row},${col}`)) {
+      return `Spawn point of player ${playerId + 1} is shared with another player`;
+    }
+    taken.add(`${row},${col}`);
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const owner = territory[row][col];
+      if (owner === null) continue;
+      if (!Number.isInteger(owner) || owner < 0 || owner >= spawns.length) {
+        return `Territory at row ${row}, column ${col} belongs to a player without a spawn point`;
+      }
+      if (getTerrainAt(terrain, row, col) === 'wall') {
+        return `Territory at row ${row}, column ${col} is on a wall`;
+      }
+    }
+  }
+  return null;
+};
+
+export const encodeTerritory = (territory: (number | null)[][]): string[] =>
+  territory.map(owners => owners.map(owner => (owner === null ? UNOWNED_SYMBOL : String(owner))).join(''));
+
+// Returns null and an error when the rows don't match the grid size or use unknown symbols
+export const decodeTerritory = (
+  rows: unknown,
+  { rows: rowCount, cols }: GridSize
+): { territory: (number | null)[][] | null; error: string | null } => {
+  if (!Array.isArray(rows) || rows.length !== rowCount) {
+    return { territory: null, error: `Territory must have ${rowCount} rows` };
+  }
+  const territory: (number | null)[][] = [];
+  for (let row = 0; row < rowCount; row++) {
+    const symbols = rows[row];
+    if (typeof symbols !== 'string' || symbols.length !== cols) {
+      return { territory: null, error: `Territory row ${row} must have ${cols} cells` };
+    }
+    const owners: (number | null)[] = [];
+    for (const symbol of symbols) {
+      if (symbol !== UNOWNED_SYMBOL && !/^[0-9]$/.test(symbol)) {
+        return { territory: null, error: `Unknown territory symbol "${symbol}" in row ${row}` };
+      }
+      owners.push(symbol === UNOWNED_SYMBOL ? null : Number(symbol));
+    }
+    territory.push(owners);
+  }
+  return { territory, error: null };
+};
+
+export const serializeBattleMap = (battleMap: BattleMap): StoredBattleMap => ({
+  name: battleMap.name,
+  gridSize: { ...battleMap.gridSize },
+  ...(hasTerrain(battleMap.terrain) && { terrain: encodeTerrain(battleMap.terrain!) }),
+  territory: encodeTerritory(battleMap.territory),
+  spawns: battleMap.spawns.map(({ row, col }) => [row, col])
+});
+
+export const parseBattleMap = (data: unknown): BattleMapResult => {
+  const fail = (error: string): BattleMapResult => ({ battleMap: null, error });
+  if (!data || typeof data !== 'object') return fail('Map is missing');
+  const stored = data as Partial<StoredBattleMap>;
+  if (typeof stored.name !== 'string') return fail('Map has no name');
+
+  const { rows, cols } = stored.gridSize ?? {};
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows! < 1 || cols! < 1 || rows! > MAX_MAP_SIDE || cols! > MAX_MAP_SIDE) {
+    return fail(`Map size must be between 1x1 and ${MAX_MAP_SIDE}x${MAX_MAP_SIDE}`);
+  }
+  const gridSize = { rows: rows!, cols: cols! };
+
+  let terrain = null;
+  if (stored.terrain !== undefined) {
+    const decoded = decodeTerrain(stored.terrain, gridSize);
+    if (!decoded.terrain) return fail(decoded.error!);
+    terrain = decoded.terrain;
+  }
+  const { territory, error } = decodeTerritory(stored.territory, gridSize);
+  if (!territory) return fail(error!);
+
+  if (!Array.isArray(stored.spawns) || stored.spawns.some(spawn => !Array.isArray(spawn) || spawn.length !== 2)) {
+    return fail('Spawn points must be [row, col] pairs');
+  }
+  const battleMap: BattleMap = {
+    name: stored.name,
+    gridSize,
+    terrain,
+    territory,
+    spawns: stored.spawns.map(([row, col]) => ({ row, col }))
+  };
+  const problem = validateBattleMap(battleMap);
+  return problem ? fail(problem) : { battleMap, error: null };
+};
+
+// Drops maps that cannot be loaded instead of failing the whole library
+export const parseMapLibrary = (data: string): BattleMap[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(data);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap(entry => {
+    const { battleMap } = parseBattleMap(entry);
+    return battleMap ? [battleMap] : [];
+  });
+};
+
+export const loadMaps = (): BattleMap[] => {
+  const data = localStorage.getItem(STORAGE_KEY);
+  return data === null ? [] : parseMapLibrary(data);
+};
+
+const storeMaps = (maps: BattleMap[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(maps.map(serializeBattleMap)));
+    return true;
+  } catch (error) {
+    console.error('Failed to save battle maps:', error);
+    return false;
+  }
+};
+
+// A map saved under an existing name replaces it; returns false for unplayable maps or when storage is unavailable or full
+export const saveMap = (battleMap: BattleMap): boolean => {
+  const name = battleMap.name.trim().slice(0, MAX_MAP_NAME_LENGTH);
+  if (!name || validateBattleMap(battleMap)) return false;
+  const maps = loadMaps().filter(saved => saved.name !== name);
+  return storeMaps([...maps, { ...battleMap, name }]);
+};
+
+export const deleteMap = (name: string): boolean =>
+  storeMaps(loadMaps().filter(saved => saved.name !== name));
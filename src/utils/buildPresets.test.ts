@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { VirusParameters } from '../types/game';
+import { AI_ARCHETYPES } from '../engine/ai';
+import { createEmptyVirus } from './players';
+import { BUILT_IN_PRESETS, decodeBuildCode, encodeBuildCode, parsePresetLibrary } from './buildPresets';
+
+const toCode = (bytes: number[]) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const PARAMETERS = Object.keys(createEmptyVirus()) as (keyof VirusParameters)[];
+
+// Any allocation of at most 16 points
+const arbitraryBuild = fc.array(fc.constantFrom(...PARAMETERS), { maxLength: 16 }).map(points => {
+  const virus = createEmptyVirus();
+  points.forEach(parameter => virus[parameter]++);
+  return virus;
+});
+
+describe('build codes', () => {
+  it('round-trip every valid build', () => {
+    fc.assert(fc.property(arbitraryBuild, virus => {
+      const code = encodeBuildCode(virus);
+      expect(code).toMatch(/^[A-Za-z0-9_-]{23}$/);
+      expect(decodeBuildCode(code)).toEqual({ virus, error: null });
+    }));
+  });
+
+  it('ignore surrounding whitespace', () => {
+    expect(decodeBuildCode(`  ${encodeBuildCode(AI_ARCHETYPES.rusher)}\n`).virus).toEqual(AI_ARCHETYPES.rusher);
+  });
+
+  it('reject a code whose values were changed', () => {
+    const code = encodeBuildCode(AI_ARCHETYPES.turtle);
+    const tampered = (code[0] === 'A' ? 'B' : 'A') + code.slice(1);
+    expect(decodeBuildCode(tampered).error).toMatch(/checksum/);
+  });
+
+  it('reject codes of the wrong length or alphabet', () => {
+    expect(decodeBuildCode('AAAA').error).toMatch(/17 values/);
+    expect(decodeBuildCode('not a code!').error).toMatch(/base64/);
+  });
+
+  it('reject builds that fail parameter validation', () => {
+    const values = Array(16).fill(2);
+    const checksum = values.reduce((sum, value, i) => sum + value * (i + 1), 0) % 256;
+    expect(decodeBuildCode(toCode([...values, checksum])).error).toMatch(/must not exceed 16/);
+  });
+});
+
+describe('preset library', () => {
+  it('ships the AI archetypes as built-in presets', () => {
+    expect(BUILT_IN_PRESETS.map(preset => preset.virus)).toEqual(Object.values(AI_ARCHETYPES));
+    expect(BUILT_IN_PRESETS.every(preset => preset.builtIn)).toBe(true);
+  });
+
+  it('loads saved presets and drops entries that cannot be decoded', () => {
+    const data = JSON.stringify([
+      { name: 'Wall', code: encodeBuildCode(AI_ARCHETYPES.turtle) },
+      { name: 'Broken', code: 'AAAA' },
+      { code: encodeBuildCode(AI_ARCHETYPES.rusher) }
+    ]);
+    expect(parsePresetLibrary(data)).toEqual([{ name: 'Wall', virus: AI_ARCHETYPES.turtle, builtIn: false }]);
+  });
+
+  it('treats a corrupted library as empty', () => {
+    expect(parsePresetLibrary('{oops')).toEqual([]);
+    expect(parsePresetLibrary('{}')).toEqual([]);
+  });
+});
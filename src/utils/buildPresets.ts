@@ -0,0 +1,147 @@
+/**
+ * Build Presets
+ *
+ * Шаблоны сборок
+ *
+ * A library of named virus builds kept in localStorage, next to the built-in
+ * AI archetypes, and the short build codes used to share a build. A build
+ * code is the 16 parameter values and a checksum, one byte each, in URL-safe
+ * base64 without padding (23 characters). Imported codes are checked against
+ * the checksum and validateParameterAllocation before they are used.
+ *
+ * Библиотека именованных сборок вируса в localStorage рядом со встроенными
+ * архетипами ИИ, а также короткие коды сборок для обмена. Код сборки — это 16
+ * значений параметров и контрольная сумма, по байту на каждое, в base64 для
+ * URL без дополнения (23 символа). Импортированные коды проверяются по
+ * контрольной сумме и validateParameterAllocation перед использованием.
+ */
+import { VirusParameters } from '../types/game';
+import { AI_ARCHETYPES, AiArchetype } from '../engine/ai';
+import { createEmptyVirus } from './players';
+import { validateParameterAllocation } from './parameterValidation';
+
+export interface BuildPreset {
+  name: string; // Translation key for built-in presets
+  virus: VirusParameters;
+  builtIn: boolean;
+}
+
+export interface BuildCodeResult {
+  virus: VirusParameters | null;
+  error: string | null;
+}
+
+const STORAGE_KEY = 'vyrus-build-presets';
+
+export const MAX_PRESET_NAME_LENGTH = 24;
+
+// Byte order of a build code; never reorder, or shared codes will decode to other builds
+const BUILD_CODE_PARAMETERS: (keyof VirusParameters)[] = [
+  'aggression', 'mutation', 'speed', 'defense',
+  'reproduction', 'resistance', 'stealth', 'adaptability',
+  'virulence', 'endurance', 'mobility', 'intelligence',
+  'resilience', 'infectivity', 'lethality', 'stability'
+];
+
+const BUILD_CODE_LENGTH = BUILD_CODE_PARAMETERS.length + 1;
+
+const ARCHETYPE_PRESET_NAMES: Record<AiArchetype, string> = {
+  rusher: 'strategyRusher',
+  turtle: 'strategyTurtle',
+  stealthSwarm: 'strategyStealthSwarm',
+  balanced: 'strategyBalanced'
+};
+
+export const BUILT_IN_PRESETS: BuildPreset[] = (Object.keys(AI_ARCHETYPES) as AiArchetype[]).map(archetype => ({
+  name: ARCHETYPE_PRESET_NAMES[archetype],
+  virus: { ...AI_ARCHETYPES[archetype] },
+  builtIn: true
+}));
+
+// Position-weighted, so swapped values are caught as well as changed ones
+const getChecksum = (values: number[]) =>
+  values.reduce((sum, value, i) => sum + value * (i + 1), 0) % 256;
+
+export const encodeBuildCode = (virus: VirusParameters): string => {
+  const values = BUILD_CODE_PARAMETERS.map(parameter => virus[parameter]);
+  const bytes = [...values, getChecksum(values)];
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const decodeBuildCode = (code: string): BuildCodeResult => {
+  const normalized = code.trim().replace(/-/g, '+').replace(/_/g, '/');
+  let bytes: number[];
+  try {
+    bytes = Array.from(atob(normalized), char => char.charCodeAt(0));
+  } catch {
+    return { virus: null, error: 'Build code is not valid base64' };
+  }
+  if (bytes.length !== BUILD_CODE_LENGTH) {
+    return { virus: null, error: `Build code must hold ${BUILD_CODE_LENGTH} values, but holds ${bytes.length}` };
+  }
+
+  const values = bytes.slice(0, -1);
+  if (getChecksum(values) !== bytes[bytes.length - 1]) {
+    return { virus: null, error: 'Build code checksum does not match' };
+  }
+
+  const virus = createEmptyVirus();
+  BUILD_CODE_PARAMETERS.forEach((parameter, i) => {
+    virus[parameter] = values[i];
+  });
+  const validation = validateParameterAllocation(virus);
+  if (!validation.isValid) {
+    return { virus: null, error: validation.errors.join('; ') };
+  }
+  return { virus, error: null };
+};
+
+// Drops entries that cannot be loaded instead of failing the whole library
+export const parsePresetLibrary = (data: string): BuildPreset[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(data);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  return entries.flatMap((entry): BuildPreset[] => {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.code !== 'string') return [];
+    const { virus } = decodeBuildCode(entry.code);
+    return virus ? [{ name: entry.name, virus, builtIn: false }] : [];
+  });
+};
+
+// Saved presets are stored as build codes, so they pass the same checks as shared ones
+const serializePresetLibrary = (presets: BuildPreset[]): string =>
+  JSON.stringify(presets.map(preset => ({ name: preset.name, code: encodeBuildCode(preset.virus) })));
+
+export const loadPresets = (): BuildPreset[] => {
+  const data = localStorage.getItem(STORAGE_KEY);
+  return data === null ? [] : parsePresetLibrary(data);
+};
+
+const storePresets = (presets: BuildPreset[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresetLibrary(presets));
+    return true;
+  } catch (error) {
+    console.error('Failed to save build presets:', error);
+    return false;
+  }
+};
+
+// A preset saved under an existing name replaces it; returns false when storage is unavailable or full
+export const savePreset = (name: string, virus: VirusParameters): boolean => {
+  const trimmed = name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+  if (!trimmed) return false;
+  const presets = loadPresets().filter(preset => preset.name !== trimmed);
+  return storePresets([...presets, { name: trimmed, virus: { ...virus }, builtIn: false }]);
+};
+
+export const deletePreset = (name: string): boolean =>
+  storePresets(loadPresets().filter(preset => preset.name !== name));
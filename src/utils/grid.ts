@@ -0,0 +1,72 @@
+import { Cell, GameSettings } from '../types/game';
+
+export type GridSize = GameSettings['gridSize'];
+
+// Grid sizes offered in the laboratory, from quick skirmishes to large maps
+export const GRID_SIZE_PRESETS: GridSize[] = [
+  { rows: 20, cols: 40 },
+  { rows: 35, cols: 70 },
+  { rows: 50, cols: 100 },
+  { rows: 100, cols: 200 }
+];
+
+// Highest strength a cell can build up by being held
+export const MAX_CELL_GROWTH = 5;
+
+export const createEmptyCell = (): Cell => ({ owner: null, growth: 0, latency: false, burstCooldown: 0 });
+
+// Freshly captured or spawned cells start at the lowest strength
+export const createOwnedCell = (owner: number): Cell => ({ owner, growth: 1, latency: false, burstCooldown: 0 });
+
+export const createEmptyGrid = ({ rows, cols }: GridSize): Cell[][] =>
+  Array(rows).fill(null).map(() => Array(cols).fill(null).map(createEmptyCell));
+
+export const getTotalCells = ({ rows, cols }: GridSize): number => rows * cols;
+
+// Corner starting positions with a small padding, in player order:
+// top-left, top-right, bottom-left, bottom-right
+export const getCornerSpawnPoints = ({ rows, cols }: GridSize): { row: number; col: number }[] => {
+  const padding = Math.min(2, Math.floor(Math.min(rows, cols) / 4));
+  return [
+    { row: padding, col: padding },
+    { row: padding, col: cols - 1 - padding },
+    { row: rows - 1 - padding, col: padding },
+    { row: rows - 1 - padding, col: cols - 1 - padding }
+  ];
+};
+
+// Starting positions for any number of players. Four players keep the classic
+// corner layout; other counts are spread evenly around the border of the map,
+// starting from the top-left corner, so duels face each other diagonally and
+// larger games fill in corners and edge midpoints.
+export const getSpawnPoints = (gridSize: GridSize, playerCount: number): { row: number; col: number }[] => {
+  if (playerCount === 4) return getCornerSpawnPoints(gridSize);
+
+  const { rows, cols } = gridSize;
+  const padding = Math.min(2, Math.floor(Math.min(rows, cols) / 4));
+  const centerRow = (rows - 1) / 2;
+  const centerCol = (cols - 1) / 2;
+  const halfHeight = centerRow - padding;
+  const halfWidth = centerCol - padding;
+
+  return Array(playerCount).fill(null).map((_, i) => {
+    const angle = (5 * Math.PI) / 4 + (2 * Math.PI * i) / playerCount;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    // Push the direction out from the circle to the padded rectangle border
+    const scale = 1 / Math.max(Math.abs(dx), Math.abs(dy));
+    return {
+      row: Math.round(centerRow + dy * scale * halfHeight),
+      col: Math.round(centerCol + dx * scale * halfWidth)
+    };
+  });
+};
+
+// Empty grid with one starting colony per player at its spawn point
+export const createStartingGrid = (gridSize: GridSize, playerCount: number): Cell[][] => {
+  const grid = createEmptyGrid(gridSize);
+  getSpawnPoints(gridSize, playerCount).forEach(({ row, col }, playerId) => {
+    grid[row][col] = createOwnedCell(playerId);
+  });
+  return grid;
+};
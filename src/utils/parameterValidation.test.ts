@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getParameterBalance, validateParameterAllocation } from './parameterValidation';
+import { createEmptyVirus } from './players';
+
+describe('validateParameterAllocation', () => {
+  it('accepts an empty build', () => {
+    expect(validateParameterAllocation(createEmptyVirus())).toEqual({ isValid: true, total: 0, errors: [] });
+  });
+
+  it('accepts exactly 16 points', () => {
+    const virus = { ...createEmptyVirus(), aggression: 8, defense: 4, speed: 4 };
+    const result = validateParameterAllocation(virus);
+    expect(result.isValid).toBe(true);
+    expect(result.total).toBe(16);
+  });
+
+  it('accepts all 16 points in a single parameter', () => {
+    expect(validateParameterAllocation({ ...createEmptyVirus(), stealth: 16 }).isValid).toBe(true);
+  });
+
+  it('rejects more than 16 points in total', () => {
+    const virus = { ...createEmptyVirus(), aggression: 10, defense: 7 };
+    const result = validateParameterAllocation(virus);
+    expect(result.isValid).toBe(false);
+    expect(result.total).toBe(17);
+    expect(result.errors).toContain('Total points must not exceed 16, but got 17');
+  });
+
+  it('rejects negative parameters', () => {
+    const result = validateParameterAllocation({ ...createEmptyVirus(), mutation: -1 });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('mutation must be between 0 and 16, but got -1');
+  });
+
+  it('reports every problem at once', () => {
+    const result = validateParameterAllocation({ ...createEmptyVirus(), speed: 20, defense: -2 });
+    expect(result.errors).toHaveLength(3);
+  });
+});
+
+describe('getParameterBalance', () => {
+  it('is all zeros for an empty build', () => {
+    expect(getParameterBalance(createEmptyVirus())).toEqual({
+      offensive: 0,
+      defensive: 0,
+      growth: 0,
+      adaptability: 0,
+      coordination: 0,
+      overallBalance: 0
+    });
+  });
+
+  it('groups parameters into their categories', () => {
+    const balance = getParameterBalance({
+      ...createEmptyVirus(),
+      aggression: 1, virulence: 1, reproduction: 1,
+      defense: 2, resistance: 2, stability: 2,
+      speed: 1, adaptability: 1, mobility: 1,
+      mutation: 1, intelligence: 0, endurance: 0,
+      infectivity: 1, resilience: 1, stealth: 1
+    });
+    expect(balance.offensive).toBe(3);
+    expect(balance.defensive).toBe(6);
+    expect(balance.growth).toBe(3);
+    expect(balance.adaptability).toBe(1);
+    expect(balance.coordination).toBe(3);
+    expect(balance.overallBalance).toBe(16 / 5);
+  });
+
+  it('averages the categories into the overall balance', () => {
+    const balance = getParameterBalance({ ...createEmptyVirus(), aggression: 10 });
+    expect(balance.offensive).toBe(10);
+    expect(balance.overallBalance).toBe(2);
+  });
+});
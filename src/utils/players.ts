@@ -0,0 +1,76 @@
+import { Player, VirusParameters } from '../types/game';
+import { EliminationEvent, MutationEvent } from '../engine/simulation';
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const DEFAULT_PLAYER_COUNT = 4;
+
+// Red, Blue, Green, Yellow, then Violet, Pink, Cyan, Orange for larger free-for-alls
+export const PLAYER_COLORS = [
+  '#EF4444', '#3B82F6', '#10B981', '#F59E0B',
+  '#8B5CF6', '#EC4899', '#06B6D4', '#F97316'
+];
+
+export const createEmptyVirus = (): VirusParameters => ({
+  aggression: 0,
+  mutation: 0,
+  speed: 0,
+  defense: 0,
+  reproduction: 0,
+  resistance: 0,
+  stealth: 0,
+  adaptability: 0,
+  virulence: 0,
+  endurance: 0,
+  mobility: 0,
+  intelligence: 0,
+  resilience: 0,
+  infectivity: 0,
+  lethality: 0,
+  stability: 0,
+});
+
+export const createPlayer = (id: number): Player => ({
+  id,
+  name: `Player ${id + 1}`,
+  color: PLAYER_COLORS[id % PLAYER_COLORS.length],
+  isReady: false,
+  virus: createEmptyVirus(),
+  baseVirus: null,
+  territoryCount: 0,
+  preferredDirection: null,
+  lastMutationTurn: 0,
+  eliminatedTurn: null,
+  controller: 'human',
+  aiStrategy: 'balanced',
+  skin: undefined, // No skin applied by default
+});
+
+export const createPlayers = (count: number): Player[] =>
+  Array(count).fill(null).map((_, i) => createPlayer(i));
+
+export const isEliminated = (player: Player): boolean =>
+  player.eliminatedTurn !== null && player.eliminatedTurn !== undefined;
+
+// Records the turn each eliminated virus lost its last cell; returns a new array
+export const applyEliminations = (players: Player[], events: EliminationEvent[]): Player[] =>
+  players.map(player => {
+    const event = events.find(({ player: playerId }) => playerId === player.id);
+    return event ? { ...player, eliminatedTurn: event.turn } : player;
+  });
+
+// Shifts one point of each mutated build and records the turn; returns a new array
+export const applyMutations = (players: Player[], events: MutationEvent[]): Player[] =>
+  players.map(player => {
+    const event = events.find(({ player: playerId }) => playerId === player.id);
+    if (!event) return player;
+    const virus = { ...player.virus, [event.from]: player.virus[event.from] - 1, [event.to]: player.virus[event.to] + 1 };
+    return { ...player, virus, baseVirus: player.baseVirus ?? player.virus, lastMutationTurn: event.turn };
+  });
+
+// Undoes the mutations of the last battle
+export const restoreBaseVirus = (player: Player): Player =>
+  player.baseVirus ? { ...player, virus: player.baseVirus, baseVirus: null, lastMutationTurn: 0 } : player;
+
+export const clampPlayerCount = (count: number): number =>
+  Math.max(MIN_PLAYERS, Math.min(MAX_PLAYERS, Math.round(count)));
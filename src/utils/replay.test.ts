@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Cell, GameSettings } from '../types/game';
+import { calculateNextGameState } from '../engine/simulation';
+import { createStartingGrid } from './grid';
+import { createPlayers } from './players';
+import { createReplay, createReplayCursor, createReplayTurn, diffGrids, getFrameTerritory } from './replay';
+
+const gridSize = { rows: 12, cols: 20 };
+const settings = { gridSize, playerCount: 3, topology: 'moore' } as GameSettings;
+
+// Plays a short battle and returns the replay together with every grid it went through
+const recordBattle = (turns: number) => {
+  const players = createPlayers(3).map((player, id) => ({
+    ...player,
+    virus: { ...player.virus, reproduction: 6 + id, aggression: 5, infectivity: 5 - id }
+  }));
+  let grid = createStartingGrid(gridSize, players.length);
+  const replay = createReplay(gridSize, players, 77, 0, grid);
+  const grids: Cell[][][] = [grid];
+  let rngState = 77;
+
+  for (let turn = 0; turn < turns; turn++) {
+    const result = calculateNextGameState(grid, players, turn, settings, 77, rngState);
+    replay.turns.push(createReplayTurn(grid, result.newGrid, result.territoryCounts));
+    grid = result.newGrid;
+    rngState = result.rngState;
+    grids.push(grid);
+  }
+  return { replay, grids };
+};
+
+describe('replays', () => {
+  it('records only the cells that changed', () => {
+    const before = createStartingGrid(gridSize, 2);
+    const after = before.map(row => row.map(cell => ({ ...cell })));
+    after[5][5] = { owner: 1, growth: 1, latency: false, burstCooldown: 0 };
+    expect(diffGrids(before, after)).toEqual([[5, 5, 1, 1, 0, 0]]);
+  });
+
+  it('rebuilds every recorded turn exactly', () => {
+    const { replay, grids } = recordBattle(80);
+    const cursor = createReplayCursor(replay);
+    expect(cursor.frameCount).toBe(81);
+    grids.forEach((grid, index) => {
+      expect(cursor.getFrame(index)).toEqual(grid);
+    });
+  });
+
+  it('seeks backwards and across keyframes', () => {
+    const { replay, grids } = recordBattle(80);
+    const cursor = createReplayCursor(replay);
+    for (const index of [80, 3, 51, 50, 49, 0, 26, 80]) {
+      expect(cursor.getFrame(index)).toEqual(grids[index]);
+    }
+  });
+
+  it('reports territory per frame', () => {
+    const { replay } = recordBattle(10);
+    expect(getFrameTerritory(replay, 0)).toEqual([1, 1, 1]);
+    expect(getFrameTerritory(replay, 10)).toEqual(replay.turns[9].territoryCounts);
+  });
+});
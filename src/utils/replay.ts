@@ -0,0 +1,159 @@
+/**
+ * Battle Replays
+ *
+ * Повторы битв
+ *
+ * Compact turn-by-turn record of a battle: the starting grid, the players'
+ * builds and seed, and for every turn only the cells that changed. A replay
+ * cursor rebuilds the grid at any turn from periodic keyframes, so scrubbing
+ * back and forth stays fast on long battles.
+ *
+ * Компактная запись битвы по ходам: начальная сетка, параметры игроков и сид,
+ * а для каждого хода — только изменившиеся клетки. Курсор повтора
+ * восстанавливает сетку на любом ходу по периодическим ключевым кадрам, поэтому
+ * перемотка остается быстрой даже на длинных битвах.
+ */
+import { Cell, Player, Terrain, Topology, VirusParameters } from '../types/game';
+import { GridSize } from './grid';
+import { DEFAULT_TOPOLOGY } from './topology';
+
+// [row, col, owner (-1 for empty), growth, latency (0/1), burstCooldown]
+export type CellChange = [number, number, number, number, number, number];
+
+export interface ReplayPlayer {
+  name: string;
+  color: string;
+  virus: VirusParameters;
+}
+
+export interface ReplayTurn {
+  changes: CellChange[];
+  territoryCounts: number[];
+}
+
+export interface Replay {
+  gridSize: GridSize;
+  players: ReplayPlayer[];
+  seed: number;
+  startTurn: number; // Game turn of the initial grid; non-zero when recording began from a loaded save
+  initialGrid: Cell[][];
+  terrain: Terrain | null; // Null for an open map
+  topology: Topology; // Drawn with shifted rows for hex grids
+  turns: ReplayTurn[];
+}
+
+export interface ReplayCursor {
+  frameCount: number; // Initial grid plus one frame per recorded turn
+  getFrame: (index: number) => Cell[][];
+}
+
+// Turns between cached full grids in a replay cursor
+const KEYFRAME_INTERVAL = 25;
+
+const cloneGrid = (grid: Cell[][]): Cell[][] => grid.map(row => row.map(cell => ({ ...cell })));
+
+export const createReplay = (
+  gridSize: GridSize,
+  players: Player[],
+  seed: number,
+  startTurn: number,
+  initialGrid: Cell[][],
+  terrain: Terrain | null = null,
+  topology: Topology = DEFAULT_TOPOLOGY
+): Replay => ({
+  gridSize,
+  players: players.map(({ name, color, virus }) => ({ name, color, virus: { ...virus } })),
+  seed,
+  startTurn,
+  initialGrid: cloneGrid(initialGrid),
+  terrain: terrain && terrain.map(row => [...row]),
+  topology,
+  turns: []
+});
+
+export const diffGrids = (previous: Cell[][], next: Cell[][]): CellChange[] => {
+  const changes: CellChange[] = [];
+  for (let row = 0; row < next.length; row++) {
+    for (let col = 0; col < next[row].length; col++) {
+      const before = previous[row]?.[col];
+      const after = next[row][col];
+      if (
+        !before ||
+        before.owner !== after.owner ||
+        before.growth !== after.growth ||
+        before.latency !== after.latency ||
+        before.burstCooldown !== after.burstCooldown
+      ) {
+        changes.push([row, col, after.owner ?? -1, after.growth, after.latency ? 1 : 0, after.burstCooldown]);
+      }
+    }
+  }
+  return changes;
+};
+
+export const applyChanges = (grid: Cell[][], changes: CellChange[]) => {
+  for (const [row, col, owner, growth, latency, burstCooldown] of changes) {
+    grid[row][col] = { owner: owner < 0 ? null : owner, growth, latency: latency === 1, burstCooldown };
+  }
+};
+
+// Record of one turn, to be pushed onto a replay's turns
+export const createReplayTurn = (
+  previousGrid: Cell[][],
+  nextGrid: Cell[][],
+  territoryCounts: number[]
+): ReplayTurn => ({ changes: diffGrids(previousGrid, nextGrid), territoryCounts: [...territoryCounts] });
+
+// Territory at a frame; frame 0 is counted from the initial grid
+export const getFrameTerritory = (replay: Replay, index: number): number[] => {
+  if (index > 0) return replay.turns[index - 1].territoryCounts;
+  const counts: number[] = Array(replay.players.length).fill(0);
+  for (const cell of replay.initialGrid.flat()) {
+    if (cell.owner !== null && cell.owner < counts.length) counts[cell.owner]++;
+  }
+  return counts;
+};
+
+export const createReplayCursor = (replay: Replay): ReplayCursor => {
+  const frameCount = replay.turns.length + 1;
+  const keyframes: Cell[][][] = [cloneGrid(replay.initialGrid)];
+  let last: { index: number; grid: Cell[][] } | null = null;
+
+  const getKeyframe = (keyframeIndex: number): Cell[][] => {
+    while (keyframes.length <= keyframeIndex) {
+      const from = (keyframes.length - 1) * KEYFRAME_INTERVAL;
+      const grid = cloneGrid(keyframes[keyframes.length - 1]);
+      for (let turn = from; turn < from + KEYFRAME_INTERVAL; turn++) {
+        applyChanges(grid, replay.turns[turn].changes);
+      }
+      keyframes.push(grid);
+    }
+    return keyframes[keyframeIndex];
+  };
+
+  return {
+    frameCount,
+    getFrame: (index) => {
+      const target = Math.max(0, Math.min(frameCount - 1, Math.floor(index)));
+      if (last && last.index === target) return last.grid;
+
+      // Stepping forward continues from the last frame, anything else starts at the nearest keyframe
+      let from: number;
+      let grid: Cell[][];
+      if (last && last.index < target && target - last.index < KEYFRAME_INTERVAL) {
+        from = last.index;
+        grid = cloneGrid(last.grid);
+      } else {
+        const keyframeIndex = Math.floor(target / KEYFRAME_INTERVAL);
+        from = keyframeIndex * KEYFRAME_INTERVAL;
+        grid = cloneGrid(getKeyframe(keyframeIndex));
+      }
+
+      for (let turn = from; turn < target; turn++) {
+        applyChanges(grid, replay.turns[turn].changes);
+      }
+      last = { index: target, grid };
+      return grid;
+    }
+  };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { GameSettings } from '../types/game';
+import { calculateNextGameState } from '../engine/simulation';
+import { createStartingGrid } from './grid';
+import { createPlayers } from './players';
+import { Replay, createReplay, createReplayTurn } from './replay';
+import { REPLAY_FILE_VERSION, exportReplay, importReplay } from './replayFile';
+import { generateTerrain } from './terrain';
+
+const recordReplay = (turns: number): Replay => {
+  const gridSize = { rows: 10, cols: 16 };
+  const players = createPlayers(2).map(player => ({
+    ...player,
+    virus: { ...player.virus, reproduction: 8, aggression: 8 }
+  }));
+  let grid = createStartingGrid(gridSize, players.length);
+  const replay = createReplay(gridSize, players, 1234, 0, grid);
+  let rngState = 1234;
+  for (let turn = 0; turn < turns; turn++) {
+    const result = calculateNextGameState(grid, players, turn, { gridSize, topology: 'moore' } as GameSettings, 1234, rngState);
+    replay.turns.push(createReplayTurn(grid, result.newGrid, result.territoryCounts));
+    grid = result.newGrid;
+    rngState = result.rngState;
+  }
+  return replay;
+};
+
+const editFile = (replay: Replay, edit: (file: any) => void): string => {
+  const file = JSON.parse(exportReplay(replay));
+  edit(file);
+  return JSON.stringify(file);
+};
+
+describe('replay files', () => {
+  it('round-trips a replay', () => {
+    const replay = recordReplay(40);
+    expect(importReplay(exportReplay(replay))).toEqual({ replay, error: null });
+  });
+
+  it('round-trips the terrain of a replay', () => {
+    const replay = { ...recordReplay(5), terrain: generateTerrain({ rows: 10, cols: 16 }, 'rugged', 2, 8) };
+    expect(importReplay(exportReplay(replay))).toEqual({ replay, error: null });
+  });
+
+  it('rejects terrain that does not fit the grid', () => {
+    const text = editFile(recordReplay(1), file => { file.terrain = ['....']; });
+    expect(importReplay(text).error).toBe('The terrain is corrupt: Terrain must have 10 rows');
+  });
+
+  it('round-trips the topology of a replay and rejects unknown ones', () => {
+    const replay = { ...recordReplay(5), topology: 'hex' as const };
+    expect(importReplay(exportReplay(replay))).toEqual({ replay, error: null });
+    const text = editFile(recordReplay(1), file => { file.topology = 'triangle'; });
+    expect(importReplay(text).error).toBe('Unknown topology "triangle"');
+  });
+
+  it('run-length encodes the initial grid', () => {
+    const file = JSON.parse(exportReplay(recordReplay(0)));
+    // Two colonies split the empty grid into three empty runs
+    expect(file.initialGrid).toHaveLength(5);
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(importReplay('VYRUS').error).toBe('The file is not valid JSON');
+  });
+
+  it('rejects other JSON files', () => {
+    expect(importReplay('{"hello":"world"}').error).toBe('The file is not a VYRUS replay');
+  });
+
+  it('rejects an unsupported version', () => {
+    const text = editFile(recordReplay(1), file => { file.version = REPLAY_FILE_VERSION + 1; });
+    expect(importReplay(text).error).toBe(`Unsupported replay version ${REPLAY_FILE_VERSION + 1} (expected 1 to ${REPLAY_FILE_VERSION})`);
+  });
+
+  it('reads version 1 files as battles on an open map with the Moore neighbourhood', () => {
+    const replay = recordReplay(5);
+    const text = editFile({ ...replay, terrain: generateTerrain({ rows: 10, cols: 16 }, 'rugged', 2, 8), topology: 'hex' }, file => {
+      file.version = 1;
+    });
+    expect(importReplay(text)).toEqual({ replay, error: null });
+  });
+
+  it('rejects builds over the point limit', () => {
+    const text = editFile(recordReplay(1), file => { file.header.players[1].virus.stealth = 16; });
+    expect(importReplay(text).error).toMatch(/^Player 2: Total points must not exceed 16/);
+  });
+
+  it('rejects a truncated initial grid', () => {
+    const text = editFile(recordReplay(1), file => { file.initialGrid.pop(); });
+    expect(importReplay(text).error).toBe('The initial grid is smaller than the grid size');
+  });
+
+  it('rejects a missing turn', () => {
+    const text = editFile(recordReplay(5), file => { file.turns.pop(); });
+    expect(importReplay(text).error).toBe('Expected 5 turns but the file has 4');
+  });
+
+  it('rejects changes outside the grid', () => {
+    const text = editFile(recordReplay(2), file => { file.turns[1] = [10000, 0, 1, 0, 0]; });
+    expect(importReplay(text).error).toBe('Turn 2 changes a cell outside the grid');
+  });
+
+  it('rejects cells owned by a nonexistent player', () => {
+    const text = editFile(recordReplay(2), file => { file.turns[0] = [0, 5, 1, 0, 0]; });
+    expect(importReplay(text).error).toBe('Turn 1 is corrupt: owner 5 is not a player');
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Replay File Format
+ *
+ * Формат файла повтора
+ *
+ * Converts replays to and from shareable files, and validates imported files
+ * before they are played back.
+ *
+ * Преобразует повторы в файлы для обмена и обратно и проверяет
+ * импортированные файлы перед воспроизведением.
+ *
+ * Format (JSON, version 2):
+ * {
+ *   "format": "vyrus-replay",
+ *   "version": 2,
+ *   "header": {
+ *     "gridSize": { "rows": number, "cols": number },
+ *     "players": [{ "name": string, "color": "#RRGGBB", "virus": VirusParameters }],  // 2 to 8
+ *     "seed": number,        // uint32 battle seed
+ *     "startTurn": number,   // game turn of the initial grid
+ *     "turnCount": number    // number of entries in "turns"
+ *   },
+ *   "initialGrid": [[count, owner, growth, latency, burstCooldown], ...],
+ *   "terrain": ["..#+~", ...],   // optional, one string per row; left out for an open map
+ *   "topology": "vonNeumann" | "hex",  // optional; left out for the Moore neighbourhood
+ *   "turns": [[indexDelta, owner, growth, latency, burstCooldown, ...], ...]
+ * }
+ *
+ * Cells are addressed row by row (index = row * cols + col); an owner of -1
+ * is an empty cell and latency is 0 or 1. The initial grid is run-length
+ * encoded: each run repeats one cell state `count` times. Each turn is a flat
+ * list of changed cells, five numbers per cell, where the first number is the
+ * distance from the previous changed cell of that turn (from index 0 for the
+ * first). Territory counts are not stored; they are recomputed on import.
+ * Terrain symbols are '.' plain, '#' wall, '+' nutrient and '~' hostile.
+ * Version 1 files predate terrain and topology; they are read as battles on
+ * an open map with the Moore neighbourhood.
+ */
+import { Cell, Topology, VirusParameters } from '../types/game';
+import { Replay, CellChange, ReplayPlayer, ReplayTurn, applyChanges } from './replay';
+import { MAX_CELL_GROWTH } from './grid';
+import { MAX_PLAYERS, MIN_PLAYERS, createEmptyVirus } from './players';
+import { validateParameterAllocation } from './parameterValidation';
+import { decodeTerrain, encodeTerrain } from './terrain';
+import { DEFAULT_TOPOLOGY, TOPOLOGIES } from './topology';
+
+export const REPLAY_FILE_FORMAT = 'vyrus-replay';
+export const REPLAY_FILE_VERSION = 2;
+
+// Oldest version still accepted on import
+const MIN_REPLAY_FILE_VERSION = 1;
+
+// Largest grid accepted on import, twice the largest preset in each direction
+const MAX_IMPORT_GRID_SIDE = 400;
+
+const CELL_FIELDS = 5;
+
+type EncodedCell = [number, number, number, number]; // owner, growth, latency, burstCooldown
+
+export interface ReplayFile {
+  format: typeof REPLAY_FILE_FORMAT;
+  version: number;
+  header: {
+    gridSize: { rows: number; cols: number };
+    players: ReplayPlayer[];
+    seed: number;
+    startTurn: number;
+    turnCount: number;
+  };
+  initialGrid: number[][];
+  terrain?: string[];
+  topology?: Topology;
+  turns: number[][];
+}
+
+export interface ReplayImportResult {
+  replay: Replay | null;
+  error: string | null;
+}
+
+const encodeCell = (cell: Cell): EncodedCell =>
+  [cell.owner ?? -1, cell.growth, cell.latency ? 1 : 0, cell.burstCooldown];
+
+const encodeGrid = (grid: Cell[][]): number[][] => {
+  const runs: number[][] = [];
+  for (const cell of grid.flat()) {
+    const encoded = encodeCell(cell);
+    const last = runs[runs.length - 1];
+    if (last && encoded.every((value, i) => value === last[i + 1])) {
+      last[0]++;
+    } else {
+      runs.push([1, ...encoded]);
+    }
+  }
+  return runs;
+};
+
+const encodeTurn = (turn: ReplayTurn, cols: number): number[] => {
+  const encoded: number[] = [];
+  let previousIndex = 0;
+  for (const [row, col, owner, growth, latency, burstCooldown] of turn.changes) {
+    const index = row * cols + col;
+    encoded.push(index - previousIndex, owner, growth, latency, burstCooldown);
+    previousIndex = index;
+  }
+  return encoded;
+};
+
+export const exportReplay = (replay: Replay): string => {
+  const file: ReplayFile = {
+    format: REPLAY_FILE_FORMAT,
+    version: REPLAY_FILE_VERSION,
+    header: {
+      gridSize: replay.gridSize,
+      players: replay.players,
+      seed: replay.seed,
+      startTurn: replay.startTurn,
+      turnCount: replay.turns.length
+    },
+    initialGrid: encodeGrid(replay.initialGrid),
+    ...(replay.terrain && { terrain: encodeTerrain(replay.terrain) }),
+    ...(replay.topology !== DEFAULT_TOPOLOGY && { topology: replay.topology }),
+    turns: replay.turns.map(turn => encodeTurn(turn, replay.gridSize.cols))
+  };
+  return JSON.stringify(file);
+};
+
+export const getReplayFileName = (replay: Replay): string => `vyrus-replay-${replay.seed}.json`;
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Returns a description of the first problem with an encoded cell state, or null
+const validateCellState = ([owner, growth, latency, burstCooldown]: number[], playerCount: number): string | null => {
+  if (!Number.isInteger(owner) || owner < -1 || owner >= playerCount) return `owner ${owner} is not a player`;
+  if (!Number.isInteger(growth) || growth < 0 || growth > MAX_CELL_GROWTH) return `growth ${growth} is out of range`;
+  if ((owner === -1) !== (growth === 0)) return 'growth does not match ownership';
+  if (latency !== 0 && latency !== 1) return `latency ${latency} must be 0 or 1`;
+  if (!isNonNegativeInteger(burstCooldown)) return `burst cooldown ${burstCooldown} is invalid`;
+  return null;
+};
+
+const validatePlayer = (player: unknown, index: number): string | null => {
+  const label = `Player ${index + 1}`;
+  if (!player || typeof player !== 'object') return `${label} is missing`;
+  const { name, color, virus } = player as { name?: unknown; color?: unknown; virus?: Record<string, unknown> };
+  if (typeof name !== 'string') return `${label} has no name`;
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) return `${label} has an invalid color`;
+  if (!virus || typeof virus !== 'object') return `${label} has no virus parameters`;
+
+  const expected = Object.keys(createEmptyVirus());
+  const missing = expected.filter(key => !isNonNegativeInteger(virus[key]));
+  if (missing.length > 0) return `${label} has invalid parameters: ${missing.join(', ')}`;
+  const unknown = Object.keys(virus).filter(key => !expected.includes(key));
+  if (unknown.length > 0) return `${label} has unknown parameters: ${unknown.join(', ')}`;
+
+  const validation = validateParameterAllocation(virus as unknown as VirusParameters);
+  return validation.isValid ? null : `${label}: ${validation.errors.join('; ')}`;
+};
+
+const fail = (error: string): ReplayImportResult => ({ replay: null, error });
+
+export const importReplay = (text: string): ReplayImportResult => {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return fail('The file is not valid JSON');
+  }
+
+  if (!file || typeof file !== 'object' || file.format !== REPLAY_FILE_FORMAT) {
+    return fail('The file is not a VYRUS replay');
+  }
+  if (!isNonNegativeInteger(file.version) || file.version < MIN_REPLAY_FILE_VERSION || file.version > REPLAY_FILE_VERSION) {
+    return fail(`Unsupported replay version ${String(file.version)} (expected ${MIN_REPLAY_FILE_VERSION} to ${REPLAY_FILE_VERSION})`);
+  }
+  const hasMapFields = file.version >= 2;
+
+  // Header
+  const { header } = file;
+  if (!header || typeof header !== 'object') return fail('The replay header is missing');
+  const { rows, cols } = header.gridSize ?? {};
+  if (!isNonNegativeInteger(rows) || !isNonNegativeInteger(cols) || rows < 1 || cols < 1
+    || rows > MAX_IMPORT_GRID_SIDE || cols > MAX_IMPORT_GRID_SIDE) {
+    return fail('The grid size is invalid');
+  }
+  if (!Array.isArray(header.players) || header.players.length < MIN_PLAYERS || header.players.length > MAX_PLAYERS) {
+    return fail(`A replay must have ${MIN_PLAYERS} to ${MAX_PLAYERS} players`);
+  }
+  for (let i = 0; i < header.players.length; i++) {
+    const error = validatePlayer(header.players[i], i);
+    if (error) return fail(error);
+  }
+  if (!isNonNegativeInteger(header.seed) || header.seed > 0xffffffff) return fail('The seed is invalid');
+  if (!isNonNegativeInteger(header.startTurn)) return fail('The start turn is invalid');
+  if (!Array.isArray(file.turns) || file.turns.length !== header.turnCount) {
+    return fail(`Expected ${String(header.turnCount)} turns but the file has ${Array.isArray(file.turns) ? file.turns.length : 'none'}`);
+  }
+
+  const playerCount = header.players.length;
+  const totalCells = rows * cols;
+
+  // Initial grid
+  if (!Array.isArray(file.initialGrid)) return fail('The initial grid is missing');
+  const cells: Cell[] = [];
+  for (const run of file.initialGrid) {
+    if (!Array.isArray(run) || run.length !== CELL_FIELDS || !isNonNegativeInteger(run[0]) || run[0] === 0) {
+      return fail('The initial grid is corrupt');
+    }
+    const error = validateCellState(run.slice(1), playerCount);
+    if (error) return fail(`The initial grid is corrupt: ${error}`);
+    if (cells.length + run[0] > totalCells) return fail('The initial grid is larger than the grid size');
+    const [count, owner, growth, latency, burstCooldown] = run;
+    for (let i = 0; i < count; i++) {
+      cells.push({ owner: owner < 0 ? null : owner, growth, latency: latency === 1, burstCooldown });
+    }
+  }
+  if (cells.length !== totalCells) return fail('The initial grid is smaller than the grid size');
+  const initialGrid = Array(rows).fill(null).map((_, row) => cells.slice(row * cols, (row + 1) * cols));
+
+  // Terrain and topology
+  let terrain = null;
+  if (hasMapFields && file.terrain !== undefined) {
+    const decoded = decodeTerrain(file.terrain, { rows, cols });
+    if (!decoded.terrain) return fail(`The terrain is corrupt: ${decoded.error}`);
+    terrain = decoded.terrain;
+  }
+  const topology = hasMapFields ? file.topology ?? DEFAULT_TOPOLOGY : DEFAULT_TOPOLOGY;
+  if (!TOPOLOGIES.includes(topology)) {
+    return fail(`Unknown topology "${String(topology)}"`);
+  }
+
+  // Turns, replayed to recompute territory and catch changes that point outside the grid
+  const grid = initialGrid.map(row => row.map(cell => ({ ...cell })));
+  const territory: number[] = Array(playerCount).fill(0);
+  for (const cell of cells) {
+    if (cell.owner !== null) territory[cell.owner]++;
+  }
+
+  const turns: ReplayTurn[] = [];
+  for (let turn = 0; turn < file.turns.length; turn++) {
+    const encoded = file.turns[turn];
+    if (!Array.isArray(encoded) || encoded.length % CELL_FIELDS !== 0) {
+      return fail(`Turn ${turn + 1} is corrupt`);
+    }
+
+    const changes: CellChange[] = [];
+    let index = 0;
+    for (let i = 0; i < encoded.length; i += CELL_FIELDS) {
+      const delta = encoded[i];
+      if (!isNonNegativeInteger(delta) || (i > 0 && delta === 0)) return fail(`Turn ${turn + 1} is corrupt`);
+      index += delta;
+      if (index >= totalCells) return fail(`Turn ${turn + 1} changes a cell outside the grid`);
+      const state = encoded.slice(i + 1, i + CELL_FIELDS);
+      const error = validateCellState(state, playerCount);
+      if (error) return fail(`Turn ${turn + 1} is corrupt: ${error}`);
+
+      const row = Math.floor(index / cols);
+      const col = index % cols;
+      const previousOwner = grid[row][col].owner;
+      if (previousOwner !== null) territory[previousOwner]--;
+      if (state[0] >= 0) territory[state[0]]++;
+      changes.push([row, col, state[0], state[1], state[2], state[3]]);
+    }
+
+    applyChanges(grid, changes);
+    turns.push({ changes, territoryCounts: [...territory] });
+  }
+
+  return {
+    replay: {
+      gridSize: { rows, cols },
+      players: header.players.map(({ name, color, virus }) => ({ name, color, virus: { ...virus } })),
+      seed: header.seed,
+      startTurn: header.startTurn,
+      initialGrid,
+      terrain,
+      topology,
+      turns
+    },
+    error: null
+  };
+};
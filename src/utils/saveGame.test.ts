@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { useGameStore } from '../store/gameStore';
+import { SAVE_FORMAT_VERSION, createSnapshot, parseSnapshot } from './saveGame';
+import { DEFAULT_VICTORY_CONDITION } from '../engine/victory';
+import { createPlainTerrain } from './terrain';
+
+describe('saved game snapshots', () => {
+  it('round-trips the game state including the generator state', () => {
+    useGameStore.getState().actions.testBattle();
+    const gameState = { ...useGameStore.getState().gameState, turn: 12, rngState: 987654321 };
+
+    const { snapshot, error } = parseSnapshot(JSON.stringify(createSnapshot(gameState)));
+
+    expect(error).toBeNull();
+    expect(snapshot?.version).toBe(SAVE_FORMAT_VERSION);
+    expect(snapshot?.gameState.turn).toBe(12);
+    expect(snapshot?.gameState.rngState).toBe(987654321);
+    expect(snapshot?.gameState.grid).toEqual(gameState.grid);
+    expect(snapshot?.gameState.players.map(player => player.virus)).toEqual(gameState.players.map(player => player.virus));
+  });
+
+  it('rejects data that is not JSON', () => {
+    expect(parseSnapshot('{not json')).toEqual({ snapshot: null, error: 'Saved game is corrupted' });
+  });
+
+  it('rejects snapshots from a newer version', () => {
+    const snapshot = { ...createSnapshot(useGameStore.getState().gameState), version: SAVE_FORMAT_VERSION + 1 };
+    expect(parseSnapshot(JSON.stringify(snapshot)).error).toMatch(/newer/);
+  });
+
+  it('rejects a grid that does not match the saved size', () => {
+    const gameState = useGameStore.getState().gameState;
+    const snapshot = createSnapshot({ ...gameState, grid: gameState.grid.slice(1) });
+    expect(parseSnapshot(JSON.stringify(snapshot)).error).toMatch(/does not match/);
+  });
+
+  it('migrates version 1 saves to the default victory condition', () => {
+    useGameStore.getState().actions.testBattle();
+    const gameState: Record<string, unknown> = { ...useGameStore.getState().gameState };
+    const settings: Record<string, unknown> = { ...useGameStore.getState().gameState.settings };
+    delete gameState.unchangedTurns;
+    delete gameState.outcome;
+    delete gameState.terrain;
+    delete gameState.battleMap;
+    delete settings.victoryCondition;
+    delete settings.terrainPreset;
+    delete settings.scenarioSeed;
+    delete settings.topology;
+    const legacy = { version: 1, savedAt: 0, gameState: { ...gameState, settings } };
+
+    const { snapshot, error } = parseSnapshot(JSON.stringify(legacy));
+
+    expect(error).toBeNull();
+    expect(snapshot?.version).toBe(SAVE_FORMAT_VERSION);
+    expect(snapshot?.gameState.settings.victoryCondition).toEqual(DEFAULT_VICTORY_CONDITION);
+    expect(snapshot?.gameState.unchangedTurns).toBe(0);
+    expect(snapshot?.gameState.outcome).toBeNull();
+    expect(snapshot?.gameState.terrain).toBeNull();
+  });
+
+  it('migrates version 2 saves to an open map', () => {
+    const gameState: Record<string, unknown> = { ...useGameStore.getState().gameState };
+    const settings: Record<string, unknown> = { ...useGameStore.getState().gameState.settings };
+    delete gameState.terrain;
+    delete gameState.battleMap;
+    delete settings.terrainPreset;
+    delete settings.scenarioSeed;
+    delete settings.topology;
+    const legacy = { version: 2, savedAt: 0, gameState: { ...gameState, settings } };
+
+    const { snapshot, error } = parseSnapshot(JSON.stringify(legacy));
+
+    expect(error).toBeNull();
+    expect(snapshot?.gameState.settings.terrainPreset).toBe('open');
+    expect(snapshot?.gameState.settings.topology).toBe('moore');
+    expect(snapshot?.gameState.terrain).toBeNull();
+    expect(snapshot?.gameState.battleMap).toBeNull();
+  });
+
+  it('rejects terrain that does not match the saved size', () => {
+    const gameState = useGameStore.getState().gameState;
+    const terrain = createPlainTerrain(gameState.settings.gridSize).slice(1);
+    const snapshot = createSnapshot({ ...gameState, terrain });
+    expect(parseSnapshot(JSON.stringify(snapshot)).error).toMatch(/terrain does not match/);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Saved Games
+ *
+ * Сохраненные игры
+ *
+ * Serialises the game state, including the seeded generator state, into
+ * versioned snapshots kept in localStorage. Snapshots written by older
+ * versions are migrated step by step to the current shape on load, so a
+ * saved battle resumes exactly where it stopped.
+ *
+ * Сериализует состояние игры, включая состояние генератора случайных чисел,
+ * в версионированные снимки в localStorage. Снимки старых версий при загрузке
+ * поэтапно приводятся к текущему формату, поэтому сохраненная битва
+ * продолжается ровно с того места, где была остановлена.
+ */
+import { GameState } from '../types/game';
+import { DEFAULT_VICTORY_CONDITION } from '../engine/victory';
+
+// Bump when the saved GameState shape changes, and add a migration from the previous version
+export const SAVE_FORMAT_VERSION = 6;
+
+export const SAVE_SLOT_COUNT = 3;
+
+// Written automatically when the tab is hidden mid-battle
+export const AUTOSAVE_SLOT = 'auto';
+
+export type SaveSlot = number | typeof AUTOSAVE_SLOT;
+
+export interface GameSnapshot {
+  version: number;
+  savedAt: number; // Unix time in milliseconds
+  gameState: GameState;
+}
+
+export interface SaveSlotInfo {
+  slot: SaveSlot;
+  savedAt: number;
+  turn: number;
+  phase: GameState['gameState'];
+  playerCount: number;
+}
+
+export interface LoadResult {
+  snapshot: GameSnapshot | null; // Migrated to the current version
+  error: string | null;
+}
+
+const STORAGE_KEY_PREFIX = 'vyrus-save-';
+
+// Each migration upgrades a snapshot from its key version to the next one
+const SNAPSHOT_MIGRATIONS: Record<number, (snapshot: GameSnapshot) => GameSnapshot> = {
+  // 1 -> 2: selectable victory conditions; older saves were played by the default 75% territory rule
+  1: (snapshot) => ({
+    ...snapshot,
+    version: 2,
+    gameState: {
+      ...snapshot.gameState,
+      settings: { ...snapshot.gameState.settings, victoryCondition: DEFAULT_VICTORY_CONDITION },
+      unchangedTurns: 0,
+      outcome: null
+    }
+  }),
+  // 2 -> 3: terrain layer; older saves were played on an open map
+  2: (snapshot) => ({
+    ...snapshot,
+    version: 3,
+    gameState: {
+      ...snapshot.gameState,
+      settings: { ...snapshot.gameState.settings, terrainPreset: 'open' },
+      terrain: null
+    }
+  }),
+  // 3 -> 4: hand-made battle maps; older saves were played on generated ones
+  3: (snapshot) => ({
+    ...snapshot,
+    version: 4,
+    gameState: { ...snapshot.gameState, battleMap: null }
+  }),
+  // 4 -> 5: scenarios; older saves drew a new seed for every battle
+  4: (snapshot) => ({
+    ...snapshot,
+    version: 5,
+    gameState: { ...snapshot.gameState, settings: { ...snapshot.gameState.settings, scenarioSeed: null } }
+  }),
+  // 5 -> 6: selectable topologies; older saves were played with 8 neighbours
+  5: (snapshot) => ({
+    ...snapshot,
+    version: 6,
+    gameState: { ...snapshot.gameState, settings: { ...snapshot.gameState.settings, topology: 'moore' } }
+  })
+};
+
+const getStorageKey = (slot: SaveSlot) => `${STORAGE_KEY_PREFIX}${slot}`;
+
+export const getSaveSlots = (): SaveSlot[] => [
+  AUTOSAVE_SLOT,
+  ...Array(SAVE_SLOT_COUNT).fill(null).map((_, i) => i + 1)
+];
+
+export const migrateSnapshot = (snapshot: GameSnapshot): GameSnapshot => {
+  let migrated = snapshot;
+  while (migrated.version < SAVE_FORMAT_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from save version ${migrated.version}`);
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+// Catches snapshots that parse as JSON but cannot be resumed
+const validateGameState = (gameState: GameState): string | null => {
+  if (!gameState || !Array.isArray(gameState.grid) || !Array.isArray(gameState.players)) {
+    return 'Saved game is missing the grid or the players';
+  }
+  const { rows, cols } = gameState.settings?.gridSize ?? { rows: 0, cols: 0 };
+  if (gameState.grid.length !== rows || gameState.grid.some(row => row.length !== cols)) {
+    return `Saved grid does not match its ${rows}x${cols} size`;
+  }
+  const { terrain } = gameState;
+  if (terrain && (terrain.length !== rows || terrain.some(row => row.length !== cols))) {
+    return `Saved terrain does not match its ${rows}x${cols} size`;
+  }
+  if (!Number.isInteger(gameState.rngState)) {
+    return 'Saved game has no generator state';
+  }
+  return null;
+};
+
+// Strips what only makes sense in the running session
+export const createSnapshot = (gameState: GameState): GameSnapshot => ({
+  version: SAVE_FORMAT_VERSION,
+  savedAt: Date.now(),
+  gameState: { ...gameState, visualEffects: [] }
+});
+
+export const parseSnapshot = (data: string): LoadResult => {
+  let snapshot: GameSnapshot;
+  try {
+    snapshot = JSON.parse(data);
+  } catch {
+    return { snapshot: null, error: 'Saved game is corrupted' };
+  }
+  if (!snapshot || typeof snapshot.version !== 'number') {
+    return { snapshot: null, error: 'Saved game has no version' };
+  }
+  if (snapshot.version > SAVE_FORMAT_VERSION) {
+    return { snapshot: null, error: `Saved game version ${snapshot.version} is newer than this game supports` };
+  }
+
+  try {
+    const migrated = migrateSnapshot(snapshot);
+    const error = validateGameState(migrated.gameState);
+    return error ? { snapshot: null, error } : { snapshot: migrated, error: null };
+  } catch (error) {
+    return { snapshot: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Returns false when storage is unavailable or full
+export const saveSnapshot = (slot: SaveSlot, gameState: GameState): boolean => {
+  try {
+    localStorage.setItem(getStorageKey(slot), JSON.stringify(createSnapshot(gameState)));
+    return true;
+  } catch (error) {
+    console.error('Failed to save game:', error);
+    return false;
+  }
+};
+
+export const loadSnapshot = (slot: SaveSlot): LoadResult => {
+  const data = localStorage.getItem(getStorageKey(slot));
+  if (data === null) {
+    return { snapshot: null, error: null };
+  }
+  return parseSnapshot(data);
+};
+
+export const getSaveSlotInfo = (slot: SaveSlot): SaveSlotInfo | null => {
+  const { snapshot } = loadSnapshot(slot);
+  if (!snapshot) return null;
+
+  const { gameState } = snapshot;
+  return {
+    slot,
+    savedAt: snapshot.savedAt,
+    turn: gameState.turn,
+    phase: gameState.gameState,
+    playerCount: gameState.players.length
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLED_SCENARIO_FILES, BUNDLED_SCENARIOS } from '../scenarios';
+import { createBlankMap } from './battleMaps';
+import { createEmptyVirus } from './players';
+import { decodeTerrain } from './terrain';
+import { Scenario, exportScenario, importScenario, parseScenario } from './scenarioFile';
+
+const SIZE = { rows: 3, cols: 5 };
+
+const createTestScenario = (): Scenario => ({
+  name: 'Canyon',
+  description: 'Two colonies on either side of a wall',
+  battleMap: {
+    ...createBlankMap(SIZE, 2),
+    name: 'Canyon',
+    terrain: decodeTerrain(['..#..', '..#..', '.....'], SIZE).terrain,
+    spawns: [{ row: 0, col: 0 }, { row: 2, col: 4 }]
+  },
+  builds: [
+    { name: 'Attacker', virus: null, locked: false },
+    { name: null, virus: { ...createEmptyVirus(), defense: 10, reproduction: 6 }, locked: true }
+  ],
+  victoryCondition: { mode: 'territory', territoryShare: 0.5, turnLimit: 300, stalemateTurns: 0 },
+  seed: 42
+});
+
+const editFile = (edit: (file: any) => void): string => {
+  const file = JSON.parse(exportScenario(createTestScenario()));
+  edit(file);
+  return JSON.stringify(file);
+};
+
+describe('scenario files', () => {
+  it('round-trip a scenario', () => {
+    const scenario = createTestScenario();
+    expect(importScenario(exportScenario(scenario))).toEqual({ scenario, errors: [] });
+  });
+
+  it('report every invalid field with its path', () => {
+    const { scenario, errors } = importScenario(editFile(file => {
+      file.players[1].virus.aggression = 4;
+      file.victoryCondition.mode = 'conquest';
+      file.seed = -1;
+    }));
+    expect(scenario).toBeNull();
+    expect(errors).toEqual([
+      'players[1].virus: Total points must not exceed 16, but got 20',
+      'victoryCondition.mode: must be one of territory, lastStanding, turnLimit',
+      'seed: must be an integer from 0 to 4294967295'
+    ]);
+  });
+
+  it('check the map against its terrain and spawn points', () => {
+    expect(importScenario(editFile(file => { file.spawns[0] = [0, 2]; })).errors)
+      .toEqual(['map: Spawn point of player 1 is on a wall']);
+    expect(importScenario(editFile(file => { file.terrain = ['..#..']; })).errors)
+      .toEqual(['terrain: Terrain must have 3 rows']);
+  });
+
+  it('require a virus for locked builds', () => {
+    expect(importScenario(editFile(file => { delete file.players[1].virus; })).errors)
+      .toEqual(['players[1].virus: is required for a locked build']);
+  });
+
+  it('reject other files before checking fields', () => {
+    expect(importScenario('{').errors).toEqual(['The file is not valid JSON']);
+    expect(importScenario(editFile(file => { file.version = 2; })).errors)
+      .toEqual(['version: unsupported version 2 (expected 1)']);
+  });
+
+  it('ship only valid bundled scenarios', () => {
+    BUNDLED_SCENARIO_FILES.forEach(file => expect(parseScenario(file).errors).toEqual([]));
+    expect(BUNDLED_SCENARIOS).toHaveLength(BUNDLED_SCENARIO_FILES.length);
+  });
+});
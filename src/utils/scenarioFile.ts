@@ -0,0 +1,260 @@
+/**
+ * Scenario File Format
+ *
+ * Формат файла сценария
+ *
+ * Converts scenarios, a battle map together with its starting conditions, to
+ * and from portable files. Imported files are checked field by field, and
+ * every problem found is reported with the path of the field it concerns.
+ *
+ * Преобразует сценарии — карту сражения вместе с начальными условиями — в
+ * переносимые файлы и обратно. Импортированные файлы проверяются поле за
+ * полем, и о каждой найденной проблеме сообщается с путем к ее полю.
+ *
+ * Format (JSON, version 1):
+ * {
+ *   "format": "vyrus-scenario",
+ *   "version": 1,
+ *   "name": string,
+ *   "description": string,          // optional
+ *   "gridSize": { "rows": number, "cols": number },
+ *   "terrain": ["..#+~", ...],      // optional, one string per row; left out for an open map
+ *   "territory": ["..01.", ...],    // optional, one string per row; '.' unowned, otherwise a player number
+ *   "spawns": [[row, col], ...],    // one per player, 2 to 8
+ *   "players": [{ "name": string, "virus": VirusParameters, "locked": boolean }, ...],  // optional, one per spawn, every field optional
+ *   "victoryCondition": VictoryCondition,  // optional, missing fields take the defaults
+ *   "seed": number                  // optional uint32; left out for a new seed every battle
+ * }
+ *
+ * A locked build is played as written and cannot be changed in the lab, so
+ * it needs a virus.
+ */
+import { BattleMap, VictoryCondition, VirusParameters } from '../types/game';
+import { DEFAULT_VICTORY_CONDITION, VICTORY_MODES } from '../engine/victory';
+import { MAX_PLAYERS, MIN_PLAYERS, createEmptyVirus } from './players';
+import { validateParameterAllocation } from './parameterValidation';
+import { decodeTerrain, encodeTerrain, hasTerrain } from './terrain';
+import { MAX_MAP_SIDE, createBlankMap, decodeTerritory, encodeTerritory, validateBattleMap } from './battleMaps';
+
+export const SCENARIO_FILE_FORMAT = 'vyrus-scenario';
+export const SCENARIO_FILE_VERSION = 1;
+
+export interface ScenarioBuild {
+  name: string | null; // Keeps the lab's player name when null
+  virus: VirusParameters | null; // Keeps the lab's build when null
+  locked: boolean;
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  battleMap: BattleMap;
+  builds: ScenarioBuild[]; // One per spawn point
+  victoryCondition: VictoryCondition | null; // Keeps the lab's condition when null
+  seed: number | null; // A new seed every battle when null
+}
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  gridSize: { rows: number; cols: number };
+  terrain?: string[];
+  territory?: string[];
+  spawns: [number, number][];
+  players?: { name?: string; virus?: VirusParameters; locked?: boolean }[];
+  victoryCondition?: Partial<VictoryCondition>;
+  seed?: number;
+}
+
+export interface ScenarioImportResult {
+  scenario: Scenario | null;
+  errors: string[]; // One message per invalid field, prefixed with its path
+}
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const exportScenario = (scenario: Scenario): string => {
+  const { battleMap } = scenario;
+  const file: ScenarioFile = {
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    name: scenario.name,
+    ...(scenario.description && { description: scenario.description }),
+    gridSize: battleMap.gridSize,
+    ...(hasTerrain(battleMap.terrain) && { terrain: encodeTerrain(battleMap.terrain!) }),
+    ...(battleMap.territory.some(owners => owners.some(owner => owner !== null)) && { territory: encodeTerritory(battleMap.territory) }),
+    spawns: battleMap.spawns.map(({ row, col }) => [row, col]),
+    players: scenario.builds.map(build => ({
+      ...(build.name !== null && { name: build.name }),
+      ...(build.virus && { virus: build.virus }),
+      ...(build.locked && { locked: true })
+    })),
+    ...(scenario.victoryCondition && { victoryCondition: scenario.victoryCondition }),
+    ...(scenario.seed !== null && { seed: scenario.seed })
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const getScenarioFileName = (scenario: Scenario): string =>
+  `vyrus-scenario-${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled'}.json`;
+
+// Pushes one message per problem with a virus, or returns the parsed virus
+const validateVirus = (virus: unknown, path: string, errors: string[]): VirusParameters | null => {
+  if (!isObject(virus)) {
+    errors.push(`${path}: must be an object of parameter values`);
+    return null;
+  }
+  const expected = Object.keys(createEmptyVirus());
+  const before = errors.length;
+  for (const key of expected) {
+    if (!isInteger(virus[key]) || (virus[key] as number) < 0) errors.push(`${path}.${key}: must be a non-negative integer`);
+  }
+  for (const key of Object.keys(virus).filter(key => !expected.includes(key))) {
+    errors.push(`${path}.${key}: is not a parameter`);
+  }
+  if (errors.length > before) return null;
+
+  const validation = validateParameterAllocation(virus as unknown as VirusParameters);
+  validation.errors.forEach(error => errors.push(`${path}: ${error}`));
+  return validation.isValid ? { ...createEmptyVirus(), ...(virus as unknown as VirusParameters) } : null;
+};
+
+const validateVictoryCondition = (data: unknown, errors: string[]): VictoryCondition | null => {
+  if (!isObject(data)) {
+    errors.push('victoryCondition: must be an object');
+    return null;
+  }
+  const condition = { ...DEFAULT_VICTORY_CONDITION, ...data } as VictoryCondition;
+  const before = errors.length;
+  if (!VICTORY_MODES.includes(condition.mode)) {
+    errors.push(`victoryCondition.mode: must be one of ${VICTORY_MODES.join(', ')}`);
+  }
+  if (typeof condition.territoryShare !== 'number' || !(condition.territoryShare > 0 && condition.territoryShare <= 1)) {
+    errors.push('victoryCondition.territoryShare: must be a number above 0 and at most 1');
+  }
+  if (!isInteger(condition.turnLimit) || condition.turnLimit < 1) {
+    errors.push('victoryCondition.turnLimit: must be a positive integer');
+  }
+  if (!isInteger(condition.stalemateTurns) || condition.stalemateTurns < 0) {
+    errors.push('victoryCondition.stalemateTurns: must be a non-negative integer');
+  }
+  const unknown = Object.keys(data).filter(key => !(key in DEFAULT_VICTORY_CONDITION));
+  unknown.forEach(key => errors.push(`victoryCondition.${key}: is not a victory setting`));
+  return errors.length > before ? null : condition;
+};
+
+const validateBuilds = (data: unknown, spawnCount: number, errors: string[]): ScenarioBuild[] | null => {
+  if (data === undefined) return Array(spawnCount).fill(null).map(() => ({ name: null, virus: null, locked: false }));
+  if (!Array.isArray(data) || data.length !== spawnCount) {
+    errors.push(`players: must list one entry per spawn point (${spawnCount})`);
+    return null;
+  }
+  const before = errors.length;
+  const builds = data.map((entry, i): ScenarioBuild => {
+    const path = `players[${i}]`;
+    if (!isObject(entry)) {
+      errors.push(`${path}: must be an object`);
+      return { name: null, virus: null, locked: false };
+    }
+    if (entry.name !== undefined && (typeof entry.name !== 'string' || !entry.name.trim())) {
+      errors.push(`${path}.name: must be a non-empty string`);
+    }
+    if (entry.locked !== undefined && typeof entry.locked !== 'boolean') {
+      errors.push(`${path}.locked: must be true or false`);
+    }
+    if (entry.locked === true && entry.virus === undefined) {
+      errors.push(`${path}.virus: is required for a locked build`);
+    }
+    const virus = entry.virus === undefined ? null : validateVirus(entry.virus, `${path}.virus`, errors);
+    return { name: typeof entry.name === 'string' ? entry.name : null, virus, locked: entry.locked === true };
+  });
+  return errors.length > before ? null : builds;
+};
+
+// Checks every field of a parsed file and collects a message for each problem
+export const parseScenario = (data: unknown): ScenarioImportResult => {
+  if (!isObject(data) || data.format !== SCENARIO_FILE_FORMAT) {
+    return { scenario: null, errors: ['format: the file is not a VYRUS scenario'] };
+  }
+  if (data.version !== SCENARIO_FILE_VERSION) {
+    return { scenario: null, errors: [`version: unsupported version ${String(data.version)} (expected ${SCENARIO_FILE_VERSION})`] };
+  }
+
+  const errors: string[] = [];
+  if (typeof data.name !== 'string' || !data.name.trim()) errors.push('name: must be a non-empty string');
+  if (data.description !== undefined && typeof data.description !== 'string') errors.push('description: must be a string');
+
+  const { rows, cols } = isObject(data.gridSize) ? data.gridSize : { rows: undefined, cols: undefined };
+  const hasGridSize = isInteger(rows) && isInteger(cols) && rows >= 1 && cols >= 1 && rows <= MAX_MAP_SIDE && cols <= MAX_MAP_SIDE;
+  if (!hasGridSize) {
+    errors.push(`gridSize: rows and cols must be integers from 1 to ${MAX_MAP_SIDE}`);
+  }
+
+  const spawns = Array.isArray(data.spawns) ? data.spawns : [];
+  let hasSpawns = spawns.length >= MIN_PLAYERS && spawns.length <= MAX_PLAYERS;
+  if (!hasSpawns) {
+    errors.push(`spawns: must list ${MIN_PLAYERS} to ${MAX_PLAYERS} [row, col] pairs`);
+  }
+  spawns.forEach((spawn, i) => {
+    if (!Array.isArray(spawn) || spawn.length !== 2 || !isInteger(spawn[0]) || !isInteger(spawn[1])) {
+      errors.push(`spawns[${i}]: must be a [row, col] pair of integers`);
+      hasSpawns = false;
+    }
+  });
+
+  let battleMap: BattleMap | null = null;
+  if (hasGridSize) {
+    const gridSize = { rows, cols };
+    const blank = createBlankMap(gridSize, MIN_PLAYERS);
+    const terrain = data.terrain === undefined ? { terrain: null, error: null } : decodeTerrain(data.terrain, gridSize);
+    const territory = data.territory === undefined ? { territory: blank.territory, error: null } : decodeTerritory(data.territory, gridSize);
+    if (terrain.error) errors.push(`terrain: ${terrain.error}`);
+    if (territory.error) errors.push(`territory: ${territory.error}`);
+    if (!terrain.error && territory.territory && hasSpawns) {
+      battleMap = {
+        name: typeof data.name === 'string' ? data.name.trim() : '',
+        gridSize,
+        terrain: terrain.terrain,
+        territory: territory.territory,
+        spawns: (spawns as [number, number][]).map(([row, col]) => ({ row, col }))
+      };
+      // Spawn points and territory are checked against each other and the terrain
+      const problem = validateBattleMap(battleMap);
+      if (problem) errors.push(`map: ${problem}`);
+    }
+  }
+
+  const builds = validateBuilds(data.players, spawns.length, errors);
+  const victoryCondition = data.victoryCondition === undefined ? null : validateVictoryCondition(data.victoryCondition, errors);
+  if (data.seed !== undefined && (!isInteger(data.seed) || data.seed < 0 || data.seed > 0xffffffff)) {
+    errors.push('seed: must be an integer from 0 to 4294967295');
+  }
+
+  if (errors.length > 0 || !battleMap || !builds) return { scenario: null, errors };
+  return {
+    scenario: {
+      name: battleMap.name,
+      description: typeof data.description === 'string' ? data.description : '',
+      battleMap,
+      builds,
+      victoryCondition,
+      seed: data.seed === undefined ? null : (data.seed as number)
+    },
+    errors: []
+  };
+};
+
+export const importScenario = (text: string): ScenarioImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { scenario: null, errors: ['The file is not valid JSON'] };
+  }
+  return parseScenario(data);
+};
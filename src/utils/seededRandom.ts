@@ -0,0 +1,33 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * The whole generator state is a single 32-bit integer, so it can be posted to
+ * the worker, stored in GameState and saved alongside a battle. The same seed
+ * always yields the same sequence.
+ */
+export interface SeededRandom {
+  next: () => number; // Float in [0, 1), drop-in replacement for Math.random()
+  nextInt: (maxExclusive: number) => number; // Integer in [0, maxExclusive)
+  getState: () => number;
+}
+
+export const createSeededRandom = (state: number): SeededRandom => {
+  let current = state >>> 0;
+
+  const next = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    nextInt: (maxExclusive) => Math.floor(next() * maxExclusive),
+    getState: () => current
+  };
+};
+
+// Fresh unsigned 32-bit seed for a new battle
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
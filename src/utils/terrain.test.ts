@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getSpawnPoints } from './grid';
+import { countOpenCells, decodeTerrain, encodeTerrain, generateTerrain, hasTerrain } from './terrain';
+
+const GRID = { rows: 20, cols: 30 };
+
+describe('generateTerrain', () => {
+  it('leaves open maps without a layer', () => {
+    expect(generateTerrain(GRID, 'open', 4, 1)).toBeNull();
+  });
+
+  it('mirrors the map into all four quarters', () => {
+    const terrain = generateTerrain(GRID, 'rugged', 1, 3)!;
+    expect(hasTerrain(terrain)).toBe(true);
+    terrain.forEach((cells, row) => cells.forEach((type, col) => {
+      expect(terrain[GRID.rows - 1 - row][GRID.cols - 1 - col]).toBe(type);
+    }));
+  });
+
+  it('keeps every spawn point clear', () => {
+    for (let seed = 0; seed < 10; seed++) {
+      const terrain = generateTerrain(GRID, 'rugged', 8, seed)!;
+      for (const { row, col } of getSpawnPoints(GRID, 8)) {
+        expect(terrain[row][col]).toBe('plain');
+      }
+    }
+  });
+
+  it('is reproducible for the same seed', () => {
+    expect(generateTerrain(GRID, 'scattered', 4, 9)).toEqual(generateTerrain(GRID, 'scattered', 4, 9));
+  });
+});
+
+describe('terrain files', () => {
+  it('round-trip a generated map', () => {
+    const terrain = generateTerrain(GRID, 'rugged', 4, 5)!;
+    expect(decodeTerrain(encodeTerrain(terrain), GRID)).toEqual({ terrain, error: null });
+  });
+
+  it('reject rows of the wrong size or with unknown symbols', () => {
+    const size = { rows: 2, cols: 3 };
+    expect(decodeTerrain(['...'], size).error).toMatch(/2 rows/);
+    expect(decodeTerrain(['...', '..'], size).error).toMatch(/row 1 must have 3 cells/);
+    expect(decodeTerrain(['...', '.x.'], size).error).toMatch(/Unknown terrain symbol "x"/);
+  });
+
+  it('count walls out of the open cells', () => {
+    const { terrain } = decodeTerrain(['#+~', '...'], { rows: 2, cols: 3 });
+    expect(countOpenCells({ rows: 2, cols: 3 }, terrain)).toBe(5);
+    expect(countOpenCells({ rows: 2, cols: 3 }, null)).toBe(6);
+  });
+});
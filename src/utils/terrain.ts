@@ -0,0 +1,198 @@
+/**
+ * Terrain Layer
+ *
+ * Слой местности
+ *
+ * Helpers for the terrain layer that sits under the grid: walls no virus can
+ * enter, nutrient cells that feed their holder and hostile zones where
+ * expansion often fails. Generated maps are mirrored into all four quarters
+ * so no spawn point is favoured, and every spawn point is kept clear. Terrain
+ * is written to files as one string per row, one symbol per cell.
+ *
+ * Вспомогательные функции для слоя местности под сеткой: стены, в которые не
+ * может войти ни один вирус, питательные клетки, усиливающие владельца, и
+ * враждебные зоны, где расширение часто срывается. Сгенерированные карты
+ * зеркально отражаются во все четыре четверти, чтобы ни одна точка появления
+ * не имела преимущества, и вокруг каждой точки появления остается свободное
+ * место. В файлы местность записывается строкой на ряд, символом на клетку.
+ */
+import { Terrain, TerrainPreset, TerrainType } from '../types/game';
+import { GridSize, getSpawnPoints } from './grid';
+import { createSeededRandom } from './seededRandom';
+
+export const TERRAIN_TYPES: TerrainType[] = ['plain', 'wall', 'nutrient', 'hostile'];
+
+export const TERRAIN_PRESETS: TerrainPreset[] = ['open', 'scattered', 'rugged'];
+
+export const TERRAIN_SYMBOLS: Record<TerrainType, string> = {
+  plain: '.',
+  wall: '#',
+  nutrient: '+',
+  hostile: '~'
+};
+
+// Fill, border and detail colors used by the canvas renderers
+export const TERRAIN_COLORS: Record<Exclude<TerrainType, 'plain'>, { fill: string; detail: string }> = {
+  wall: { fill: '#374151', detail: '#6B7280' },
+  nutrient: { fill: 'rgba(34, 197, 94, 0.18)', detail: 'rgba(74, 222, 128, 0.7)' },
+  hostile: { fill: 'rgba(168, 85, 247, 0.16)', detail: 'rgba(192, 132, 252, 0.6)' }
+};
+
+interface TerrainPresetShape {
+  coverage: number; // Share of the map covered by terrain blobs
+  maxRadius: number; // Largest blob radius in cells
+}
+
+const PRESET_SHAPES: Record<Exclude<TerrainPreset, 'open'>, TerrainPresetShape> = {
+  scattered: { coverage: 0.08, maxRadius: 2 },
+  rugged: { coverage: 0.2, maxRadius: 3 }
+};
+
+// Chance of each terrain type for a generated blob
+const BLOB_TYPES: { type: TerrainType; weight: number }[] = [
+  { type: 'wall', weight: 0.4 },
+  { type: 'hostile', weight: 0.35 },
+  { type: 'nutrient', weight: 0.25 }
+];
+
+// Cells around a spawn point that are always plain, so no colony starts boxed in
+const SPAWN_CLEARANCE = 2;
+
+export const createPlainTerrain = ({ rows, cols }: GridSize): Terrain =>
+  Array(rows).fill(null).map(() => Array(cols).fill('plain'));
+
+export const getTerrainAt = (terrain: Terrain | null | undefined, row: number, col: number): TerrainType =>
+  terrain?.[row]?.[col] ?? 'plain';
+
+export const hasTerrain = (terrain: Terrain | null | undefined): boolean =>
+  !!terrain && terrain.some(row => row.some(type => type !== 'plain'));
+
+// Cells a virus can hold, i.e. every cell that isn't a wall; territory shares are measured against these
+export const countOpenCells = ({ rows, cols }: GridSize, terrain: Terrain | null | undefined): number =>
+  rows * cols - (terrain ? terrain.flat().filter(type => type === 'wall').length : 0);
+
+// Terrain for a new map; null for an open one
+export const generateTerrain = (
+  gridSize: GridSize,
+  preset: TerrainPreset,
+  playerCount: number,
+  seed: number
+): Terrain | null => {
+  if (preset === 'open') return null;
+
+  const { rows, cols } = gridSize;
+  const { coverage, maxRadius } = PRESET_SHAPES[preset];
+  const rng = createSeededRandom(seed);
+
+  // Blobs are placed in the top-left quarter and mirrored into the others
+  const quarterRows = Math.ceil(rows / 2);
+  const quarterCols = Math.ceil(cols / 2);
+  const quarter: TerrainType[][] = Array(quarterRows).fill(null).map(() => Array(quarterCols).fill('plain'));
+  const averageBlobArea = Math.PI * ((1 + maxRadius) / 2) ** 2;
+  const blobCount = Math.round((quarterRows * quarterCols * coverage) / averageBlobArea);
+
+  for (let blob = 0; blob < blobCount; blob++) {
+    const centerRow = rng.nextInt(quarterRows);
+    const centerCol = rng.nextInt(quarterCols);
+    const radius = 1 + rng.nextInt(maxRadius);
+    let pick = rng.next();
+    const { type } = BLOB_TYPES.find(({ weight }) => (pick -= weight) < 0) ?? BLOB_TYPES[0];
+
+    for (let row = centerRow - radius; row <= centerRow + radius; row++) {
+      for (let col = centerCol - radius; col <= centerCol + radius; col++) {
+        if (row < 0 || row >= quarterRows || col < 0 || col >= quarterCols) continue;
+        if ((row - centerRow) ** 2 + (col - centerCol) ** 2 > radius * radius) continue;
+        // Ragged edges look less artificial
+        if (rng.next() < 0.8) quarter[row][col] = type;
+      }
+    }
+  }
+
+  const terrain = createPlainTerrain(gridSize).map((cells, row) =>
+    cells.map((_, col) => quarter[Math.min(row, rows - 1 - row)][Math.min(col, cols - 1 - col)])
+  );
+  return clearSpawnPoints(terrain, gridSize, playerCount);
+};
+
+// Turns the area around every spawn point back to plain; returns a new layer
+export const clearSpawnPoints = (terrain: Terrain, gridSize: GridSize, playerCount: number): Terrain => {
+  const cleared = terrain.map(row => [...row]);
+  for (const spawn of getSpawnPoints(gridSize, playerCount)) {
+    for (let row = spawn.row - SPAWN_CLEARANCE; row <= spawn.row + SPAWN_CLEARANCE; row++) {
+      for (let col = spawn.col - SPAWN_CLEARANCE; col <= spawn.col + SPAWN_CLEARANCE; col++) {
+        if (cleared[row]?.[col] !== undefined) cleared[row][col] = 'plain';
+      }
+    }
+  }
+  return cleared;
+};
+
+export const encodeTerrain = (terrain: Terrain): string[] =>
+  terrain.map(row => row.map(type => TERRAIN_SYMBOLS[type]).join(''));
+
+// Returns null and an error when the rows don't match the grid size or use unknown symbols
+export const decodeTerrain = (rows: unknown, { rows: rowCount, cols }: GridSize): { terrain: Terrain | null; error: string | null } => {
+  if (!Array.isArray(rows) || rows.length !== rowCount) {
+    return { terrain: null, error: `Terrain must have ${rowCount} rows` };
+  }
+  const types = new Map(TERRAIN_TYPES.map(type => [TERRAIN_SYMBOLS[type], type]));
+  const terrain: Terrain = [];
+  for (let row = 0; row < rowCount; row++) {
+    const symbols = rows[row];
+    if (typeof symbols !== 'string' || symbols.length !== cols) {
+      return { terrain: null, error: `Terrain row ${row} must have ${cols} cells` };
+    }
+    const decoded: TerrainType[] = [];
+    for (const symbol of symbols) {
+      const type = types.get(symbol);
+      if (!type) {
+        return { terrain: null, error: `Unknown terrain symbol "${symbol}" in row ${row}` };
+      }
+      decoded.push(type);
+    }
+    terrain.push(decoded);
+  }
+  return { terrain, error: null };
+};
+
+// Paints the terrain of one cell; plain cells are left untouched
+export const drawTerrainCell = (
+  ctx: CanvasRenderingContext2D,
+  type: TerrainType,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  if (type === 'plain') return;
+  const { fill, detail } = TERRAIN_COLORS[type];
+  ctx.fillStyle = fill;
+  ctx.fillRect(x, y, width, height);
+
+  ctx.strokeStyle = detail;
+  ctx.fillStyle = detail;
+  ctx.lineWidth = 1;
+  switch (type) {
+    case 'wall':
+      // Solid block with a lighter border
+      ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+      break;
+    case 'nutrient':
+      // A small seed in the middle of the cell
+      ctx.beginPath();
+      ctx.arc(x + width / 2, y + height / 2, Math.max(1, Math.min(width, height) * 0.12), 0, 2 * Math.PI);
+      ctx.fill();
+      break;
+    case 'hostile':
+      // Diagonal hatching
+      ctx.beginPath();
+      ctx.moveTo(x, y + height);
+      ctx.lineTo(x + width, y);
+      ctx.moveTo(x, y + height / 2);
+      ctx.lineTo(x + width / 2, y);
+      ctx.moveTo(x + width / 2, y + height);
+      ctx.lineTo(x + width, y + height / 2);
+      ctx.stroke();
+      break;
+  }
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getAdjacencyTable } from '../engine/simulation';
+import { TOPOLOGIES, TOPOLOGY_DIRECTIONS, getDistance, getLineCells, stepInDirection } from './topology';
+
+const toKeys = (cells: { row: number; col: number }[]) => cells.map(({ row, col }) => `${row},${col}`).sort();
+
+describe('neighbourhoods', () => {
+  it('give interior cells 8, 4 or 6 neighbours', () => {
+    const counts = TOPOLOGIES.map(topology => getAdjacencyTable(5, 5, null, topology)[2][2].length);
+    expect(counts).toEqual([8, 4, 6]);
+  });
+
+  it('shift the neighbours of odd hex rows to the right', () => {
+    const adjacency = getAdjacencyTable(5, 5, null, 'hex');
+    expect(toKeys(adjacency[2][2])).toEqual(['1,1', '1,2', '2,1', '2,3', '3,1', '3,2']);
+    expect(toKeys(adjacency[1][2])).toEqual(['0,2', '0,3', '1,1', '1,3', '2,2', '2,3']);
+  });
+
+  it('are symmetric', () => {
+    for (const topology of TOPOLOGIES) {
+      const adjacency = getAdjacencyTable(6, 7, null, topology);
+      adjacency.forEach((cells, row) => cells.forEach((neighbours, col) => {
+        for (const neighbour of neighbours) {
+          expect(toKeys(adjacency[neighbour.row][neighbour.col])).toContain(`${row},${col}`);
+        }
+      }));
+    }
+  });
+});
+
+describe('directions', () => {
+  it('lead back to the start when followed both ways', () => {
+    for (const topology of TOPOLOGIES) {
+      for (const [rowStep, colStep] of TOPOLOGY_DIRECTIONS[topology]) {
+        for (const row of [2, 3]) {
+          const there = stepInDirection(topology, row, 4, [rowStep, colStep]);
+          expect(stepInDirection(topology, there.row, there.col, [-rowStep, -colStep])).toEqual({ row, col: 4 });
+        }
+      }
+    }
+  });
+});
+
+describe('distances and lines', () => {
+  it('count hex steps on hex grids and row and column steps on square grids', () => {
+    expect(getDistance('hex', 2, 2, 1, 2)).toBe(1);
+    expect(getDistance('hex', 2, 2, 0, 3)).toBe(2);
+    expect(getDistance('moore', 2, 2, 0, 3)).toBe(3);
+  });
+
+  it('run through neighbouring hex cells up to the target', () => {
+    const line = getLineCells('hex', 3, 3, 0, 5);
+    expect(line).toHaveLength(getDistance('hex', 3, 3, 0, 5));
+    expect(line[line.length - 1]).toEqual({ row: 0, col: 5 });
+    [{ row: 3, col: 3 }, ...line].reduce((previous, cell) => {
+      expect(getDistance('hex', previous.row, previous.col, cell.row, cell.col)).toBe(1);
+      return cell;
+    });
+  });
+});
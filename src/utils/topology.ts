@@ -0,0 +1,107 @@
+/**
+ * Grid Topology
+ *
+ * Топология сетки
+ *
+ * Which cells count as neighbours: the 8-direction Moore neighbourhood, the
+ * 4-direction von Neumann neighbourhood without diagonals, or hexagons with
+ * odd rows shifted half a cell to the right. Hex directions are written in
+ * doubled-width columns, where a step along the row moves two columns and a
+ * step to the next row moves one, so the same direction works in even and
+ * odd rows. The engine and both canvas renderers go through these helpers.
+ *
+ * Какие клетки считаются соседними: 8-направленная окрестность Мура,
+ * 4-направленная окрестность фон Неймана без диагоналей или шестиугольники,
+ * у которых нечетные ряды сдвинуты на полклетки вправо. Направления на
+ * шестиугольной сетке записываются в столбцах двойной ширины: шаг вдоль ряда
+ * сдвигает на два столбца, а шаг в соседний ряд — на один, поэтому одно и то
+ * же направление работает в четных и нечетных рядах. Движок и оба
+ * canvas-рендерера используют эти функции.
+ */
+import { Topology } from '../types/game';
+
+export const TOPOLOGIES: Topology[] = ['moore', 'vonNeumann', 'hex'];
+
+export const DEFAULT_TOPOLOGY: Topology = 'moore';
+
+// Directions as [row, column] steps; the Moore order is the order neighbours have always been listed in
+export const TOPOLOGY_DIRECTIONS: Record<Topology, [number, number][]> = {
+  moore: [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]],
+  vonNeumann: [[-1, 0], [1, 0], [0, -1], [0, 1]],
+  hex: [[0, -2], [0, 2], [-1, -1], [-1, 1], [1, -1], [1, 1]]
+};
+
+// Number of neighbours of an interior cell
+export const getNeighbourCount = (topology: Topology): number => TOPOLOGY_DIRECTIONS[topology].length;
+
+// Shift of a row in cell widths: odd hex rows sit half a cell to the right
+const getRowShift = (topology: Topology, row: number): number => (topology === 'hex' ? row & 1 : 0);
+
+// The cell one step away in a direction; may lie outside the grid
+export const stepInDirection = (
+  topology: Topology,
+  row: number,
+  col: number,
+  [rowStep, colStep]: [number, number]
+): { row: number; col: number } => {
+  if (topology !== 'hex') return { row: row + rowStep, col: col + colStep };
+  const doubledCol = 2 * col + getRowShift(topology, row) + colStep;
+  return { row: row + rowStep, col: (doubledCol - getRowShift(topology, row + rowStep)) / 2 };
+};
+
+// Cube coordinates of a hex cell, in which distances and lines are simple
+const toCube = (row: number, col: number): [number, number, number] => {
+  const x = col - (row - (row & 1)) / 2;
+  return [x, -x - row, row];
+};
+
+const fromCube = ([x, y, z]: [number, number, number]): { row: number; col: number } => {
+  let [rx, ry, rz] = [Math.round(x), Math.round(y), Math.round(z)];
+  const [dx, dy, dz] = [Math.abs(rx - x), Math.abs(ry - y), Math.abs(rz - z)];
+  if (dx > dy && dx > dz) rx = -ry - rz;
+  else if (dy <= dz) rz = -rx - ry;
+  return { row: rz, col: rx + (rz - (rz & 1)) / 2 };
+};
+
+// Steps between two cells: hex steps on a hex grid, row and column steps on a square grid
+export const getDistance = (topology: Topology, fromRow: number, fromCol: number, toRow: number, toCol: number): number => {
+  if (topology !== 'hex') return Math.abs(toRow - fromRow) + Math.abs(toCol - fromCol);
+  const [fx, fy, fz] = toCube(fromRow, fromCol);
+  const [tx, ty, tz] = toCube(toRow, toCol);
+  return (Math.abs(tx - fx) + Math.abs(ty - fy) + Math.abs(tz - fz)) / 2;
+};
+
+// Cells on a straight line from a cell (left out) to another (included)
+export const getLineCells = (
+  topology: Topology,
+  fromRow: number,
+  fromCol: number,
+  toRow: number,
+  toCol: number
+): { row: number; col: number }[] => {
+  const cells: { row: number; col: number }[] = [];
+  if (topology !== 'hex') {
+    const [rowDelta, colDelta] = [toRow - fromRow, toCol - fromCol];
+    const steps = Math.max(Math.abs(rowDelta), Math.abs(colDelta));
+    for (let step = 1; step <= steps; step++) {
+      cells.push({ row: fromRow + Math.round(rowDelta * step / steps), col: fromCol + Math.round(colDelta * step / steps) });
+    }
+    return cells;
+  }
+  const from = toCube(fromRow, fromCol);
+  const to = toCube(toRow, toCol);
+  const steps = getDistance(topology, fromRow, fromCol, toRow, toCol);
+  for (let step = 1; step <= steps; step++) {
+    // A tiny nudge keeps points that fall exactly between two cells on one side
+    const t = step / steps;
+    cells.push(fromCube([0, 1, 2].map(i => from[i] + (to[i] - from[i]) * t + 1e-6 * (i - 1)) as [number, number, number]));
+  }
+  return cells;
+};
+
+// Width of the grid in cell widths, including the half cell the shifted hex rows stick out
+export const getLayoutWidth = (topology: Topology, cols: number): number => (topology === 'hex' ? cols + 0.5 : cols);
+
+// Left edge of a cell in cell widths
+export const getColumnPosition = (topology: Topology, row: number, col: number): number =>
+  col + getRowShift(topology, row) / 2;
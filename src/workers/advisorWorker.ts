@@ -0,0 +1,18 @@
+/**
+ * Build Advisor Web Worker
+ *
+ * Веб-воркер советника по сборке
+ *
+ * Runs the build advisor's headless battles off the main thread, reporting
+ * progress after every battle.
+ *
+ * Проводит безголовые битвы советника по сборке вне основного потока и
+ * сообщает о прогрессе после каждой битвы.
+ */
+import { AdvisorOptions, AdvisorProgress, AdvisorReport, runAdvisor } from '../engine/advisor';
+import { HeadlessTaskPayload } from './headlessTaskProtocol';
+import { serveHeadlessTask } from './headlessTaskWorker';
+
+serveHeadlessTask<HeadlessTaskPayload<AdvisorOptions>, AdvisorProgress, AdvisorReport>(
+  ({ build, opponents, seed, options }, onProgress) => runAdvisor(build, opponents, seed, options, onProgress)
+);
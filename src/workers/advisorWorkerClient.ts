@@ -0,0 +1,30 @@
+/**
+ * Advisor Worker Client
+ *
+ * Клиент воркера советника
+ *
+ * Starts build analyses in the advisor worker through the shared
+ * headless-task client, which forwards their progress and report.
+ *
+ * Запускает анализ сборки в воркере советника через общий клиент безголовых
+ * задач, который передает его прогресс и отчет.
+ */
+import { AdvisorOptions, AdvisorProgress, AdvisorReport } from '../engine/advisor';
+import { HeadlessTaskPayload } from './headlessTaskProtocol';
+import {
+  HeadlessTaskWorkerClient,
+  HeadlessTaskWorkerClientHandlers,
+  createHeadlessTaskWorkerClient
+} from './headlessTaskWorkerClient';
+
+export type AdvisorTask = HeadlessTaskPayload<AdvisorOptions>;
+
+export type AdvisorWorkerClient = HeadlessTaskWorkerClient<AdvisorTask>;
+
+export const createAdvisorWorkerClient = (
+  handlers: HeadlessTaskWorkerClientHandlers<AdvisorProgress, AdvisorReport>
+): AdvisorWorkerClient =>
+  createHeadlessTaskWorkerClient<AdvisorTask, AdvisorProgress, AdvisorReport>(
+    () => new Worker(new URL('./advisorWorker.ts', import.meta.url), { type: 'module' }),
+    handlers
+  );
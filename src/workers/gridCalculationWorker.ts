@@ -12,557 +12,45 @@
  * движение щупалец. Он работает в отдельном потоке, чтобы не блокировать основной поток UI
  * во время сложных вычислений.
  */
-import { Player, GameSettings } from '../types/game';
-
-interface GridCalculationMessage {
-  type: 'calculateNextState';
-  grid: (number | null)[][];
-  players: Player[];
-  turn: number;
-  settings: GameSettings;
-}
-
-interface GridCalculationResult {
-  type: 'calculationComplete';
-  newGrid: (number | null)[][];
-  turn: number;
-  territoryCounts: number[];
-  attackEvents: { from: { row: number; col: number }; to: { row: number; col: number }; attacker: number }[];
-  expansionEvents: { from: { row: number; col: number }; to: { row: number; col: number }; player: number }[];
-  parameterEvents: { position: { row: number; col: number }; type: string; player: number }[];
-  interactionEvents: { position: { row: number; col: number }; type: 'attack' | 'defense' | 'capture'; player: number }[];
-}
-
-// Cache for adjacent cells to avoid repeated calculations
-const adjacentCellsCache = new Map<string, { row: number; col: number }[]>();
-
-// Pre-computed adjacent cells for all positions on the grid
-const precomputedAdjacentCells: { row: number; col: number }[][] = [];
-
-// Initialize precomputed adjacent cells
-for (let row = 0; row < 35; row++) {
-  precomputedAdjacentCells[row] = [];
-  for (let col = 0; col < 70; col++) {
-    const adjacent: { row: number; col: number }[] = [];
-    const directions = [
-      [-1, 0], [1, 0], [0, -1], [0, 1],  // up, down, left, right
-      [-1, -1], [-1, 1], [1, -1], [1, 1]  // diagonals
-    ];
-
-    for (const [dr, dc] of directions) {
-      const newRow = row + dr;
-      const newCol = col + dc;
-
-      // Fixed grid dimensions: 35 rows, 70 columns
-      if (newRow >= 0 && newRow < 35 && newCol >= 0 && newCol < 70) {
-        adjacent.push({ row: newRow, col: newCol });
-      }
-    }
-    
-    precomputedAdjacentCells[row][col] = adjacent;
-  }
-}
-
-// Helper function to get adjacent cells
-function getAdjacentCells(grid: (number | null)[][], row: number, col: number): { row: number; col: number }[] {
-  return precomputedAdjacentCells[row][col];
-}
-
-// Precompute attack/defense factors for each player to avoid repeated calculations
-function precomputePlayerFactors(players: Player[]): { attack: number; defense: number }[] {
-  return players.map(player => {
-    if (!player) return { attack: 0, defense: 0 };
-    const { mobility, infectivity, aggression, resistance, defense: playerDefense } = player.virus;
-    const attack = (mobility / 16 + infectivity / 16 + aggression / 16) / 3;
-    const defense = (resistance / 16 + playerDefense / 16) / 2;
-    return { attack, defense };
-  });
+import {
+  GridWorkerRequest,
+  GridWorkerResponse
+} from './protocol';
+import { calculateNextGameState, clearAdjacencyCache, getAdjacencyTable } from '../engine/simulation';
+
+function postResponse(response: GridWorkerResponse) {
+  self.postMessage(response);
 }
 
-
-// Main simulation function
-function calculateNextGameState(
-  _grid: (number | null)[][],
-  players: Player[],
-  turn: number,
-  _settings: GameSettings
-): GridCalculationResult {
-  // Create a copy of the grid for this turn
-  const newGrid = _grid.map(row => [...row]);
-  // Fixed grid dimensions: 35 rows, 70 columns
-  const rows = 35;
-  const cols = 70;
-
-  // Cell age system has been removed for performance optimization
-  // Initialize or copy cell age grid as empty (all cells have age -1)
-  let cellAge: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(-1));
-
-  // Track events for visual effects
-  const attackEvents: { from: { row: number; col: number }; to: { row: number; col: number }; attacker: number }[] = [];
-  const expansionEvents: { from: { row: number; col: number }; to: { row: number; col: number }; player: number }[] = [];
-  const parameterEvents: { position: { row: number; col: number }; type: string; player: number }[] = [];
-  const interactionEvents: { position: { row: number; col: number }; type: 'attack' | 'defense' | 'capture'; player: number }[] = [];
-  const waveEffects: {
-    id: string;
-    type: 'wave';
-    position: { x: number; y: number };
-    duration: number;
-    intensity: number;
-    color: string;
-    player: number;
-    startTime: number;
-  }[] = [];
-
-  // Phase 0: Direct combat - cells battle with adjacent opponent cells
-  // Precompute attack/defense factors to avoid repeated calculations
-  const playerFactors = precomputePlayerFactors(players);
-
-  for (let row = 0; row < 35; row++) {
-    for (let col = 0; col < 70; col++) {
-      const owner = newGrid[row][col];
-      if (owner !== null) {
-        const player = players[owner];
-        if (player) {
-          // Get adjacent opponent cells
-          const adjacentCells = getAdjacentCells(_grid, row, col);
-          
-          // Collect all opponent cells in a single pass
-          const opponentCells: { cell: { row: number; col: number }; defender: number }[] = [];
-          for (const adj of adjacentCells) {
-            const cellOwner = newGrid[adj.row][adj.col];
-            if (cellOwner !== null && cellOwner !== owner) {
-              opponentCells.push({ cell: adj, defender: cellOwner });
-            }
-          }
-
-          // Attempt to attack opponent cells
-          if (opponentCells.length > 0) {
-            // Select a random opponent cell to attack
-            const { cell: targetCell, defender } = opponentCells[Math.floor(Math.random() * opponentCells.length)];
-            
-            // Use precomputed factors
-            const { attack: attackPower } = playerFactors[owner];
-            const { defense: defensePower } = playerFactors[defender];
-
-            // Determine if attack succeeds
-            const attackSuccess = attackPower > defensePower;
-
-            if (attackSuccess) {
-              // Capture the cell
-              newGrid[targetCell.row][targetCell.col] = owner;
-
-              // Все визуальные эффекты отключены для улучшения производительности
-              // // Add interaction events for the capture
-              // interactionEvents.push({
-              //   position: targetCell,
-              //   type: 'capture',
-              //   player: owner
-              // });
-
-              // // Add wave effect for capture event
-              // const playerColor = players[owner]?.color || '#FFFFFF';
-              // waveEffects.push({
-              //   id: `wave-capture-${Date.now()}-${Math.random()}`,
-              //   type: 'wave' as const,
-              //   position: { x: targetCell.col, y: targetCell.row },
-              //   duration: 1800, // 3x longer duration (1800ms = 3 * 600ms)
-              //   intensity: 1,
-              //   color: playerColor,
-              //   player: owner,
-              //   startTime: Date.now()
-              // });
-
-              // // Add interaction event for the defender's cell being attacked
-              // interactionEvents.push({
-              //   position: targetCell,
-              //   type: 'attack',
-              //   player: defender
-              // });
-
-              // // Add wave effect for attack event
-              // const defenderColor = players[defender]?.color || '#FFFFFF';
-              // waveEffects.push({
-              //   id: `wave-attack-${Date.now()}-${Math.random()}`,
-              //   type: 'wave' as const,
-              //   position: { x: targetCell.col, y: targetCell.row },
-              //   duration: 1800, // 3x longer duration (1800ms = 3 * 600ms)
-              //   intensity: 1,
-              //   color: defenderColor,
-              //   player: defender,
-              //   startTime: Date.now()
-              // });
-            }
-          }
-        }
-      }
-    }
-  }
-
-  // Phase 1: Growth - existing cells grow stronger based on parameters
-  // Removed parameter effects to reduce visual clutter
-  // for (let row = 0; row < rows; row++) {
-  //   for (let col = 0; col < cols; col++) {
-  //     const owner = newGrid[row][col];
-  //     if (owner !== null) {
-  //       const player = players[owner];
-  //       if (player) {
-  //         // Precompute parameter values to avoid repeated access
-  //         const { aggression, defense, speed, stealth, resistance, virulence,
-  //                 mutation, adaptability, endurance, mobility, intelligence,
-  //                 resilience, infectivity, lethality, stability } = player.virus;
-
-  //         // Add parameter effects based on high parameter values
-  //         if (aggression > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'aggression', player: owner });
-  //         }
-  //         if (defense > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'defense', player: owner });
-  //         }
-  //         if (speed > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'speed', player: owner });
-  //         }
-  //         if (stealth > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'stealth', player: owner });
-  //         }
-  //         if (resistance > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'resistance', player: owner });
-  //         }
-  //         if (virulence > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'virulence', player: owner });
-  //         }
-  //         if (mutation > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'mutation', player: owner });
-  //         }
-  //         if (adaptability > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'adaptability', player: owner });
-  //         }
-  //         if (endurance > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'endurance', player: owner });
-  //         }
-  //         if (mobility > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'mobility', player: owner });
-  //         }
-  //         if (intelligence > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'intelligence', player: owner });
-  //         }
-  //         if (resilience > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'resilience', player: owner });
-  //         }
-  //         if (infectivity > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'infectivity', player: owner });
-  //         }
-  //         if (lethality > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'lethality', player: owner });
-  //         }
-  //         if (stability > 10) {
-  //           parameterEvents.push({ position: { row, col }, type: 'stability', player: owner });
-  //         }
-  //       }
-  //     }
-  //   }
-  // }
-
-  // Phase 2: Expansion - cells attempt to spread to adjacent empty cells with parameter-based behavior
-  const expansionAttempts: {
-    from: { row: number; col: number };
-    to: { row: number; col: number };
-    player: number;
-  }[] = [];
-
-  for (let row = 0; row < 35; row++) {
-    for (let col = 0; col < 70; col++) {
-      const owner = newGrid[row][col];
-      if (owner !== null) {
-        const player = players[owner];
-        if (player) {
-          // Precompute parameter values to avoid repeated access
-          const { stability, stealth, mobility, aggression, reproduction, infectivity } = player.virus;
-
-          // Check if this player has stability > 10, which overrides other behaviors
-          const hasHighStability = stability > 10;
-
-          // Combined expansion logic with early returns
-          if (hasHighStability) {
-            // Only expand to immediate adjacent empty cells
-            const adjacentCells = getAdjacentCells(_grid, row, col);
-            const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col] === null);
-
-            if (emptyCells.length > 0) {
-              // Select a random empty cell to expand to
-              const targetCell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-
-              // Calculate expansion success chance based on reproduction and infectivity (mobility ignored for stability)
-              const reproductionFactor = reproduction / 16;
-              const infectivityFactor = infectivity / 16;
-
-              // Combined expansion chance
-              const expansionChance = (reproductionFactor + infectivityFactor) / 2;
-
-              if (Math.random() < expansionChance) {
-                expansionAttempts.push({
-                  from: { row, col },
-                  to: targetCell,
-                  player: owner
-                });
-                // Все визуальные эффекты отключены для улучшения производительности
-                // // Removed expansion event to reduce visual clutter
-                // expansionEvents.push({
-                //   from: { row, col },
-                //   to: targetCell,
-                //   player: owner
-                // });
-              }
-            }
-          } else {
-            // Handle all expansion types in a single pass with early returns
-            const adjacentCells = getAdjacentCells(_grid, row, col);
-            const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col] === null);
-
-            if (emptyCells.length > 0) {
-              // Handle stealth expansion (skip immediate neighbors, look for distant cells)
-              if (stealth > 10 && Math.random() < 0.3) { // 30% chance to try stealth expansion
-                // Look for empty cells 2-3 steps away
-                const distantEmptyCells = [];
-                for (let dr = -3; dr <= 3; dr++) {
-                  for (let dc = -3; dc <= 3; dc++) {
-                    // Only consider cells that are 2-3 steps away
-                    if (Math.abs(dr) + Math.abs(dc) >= 2 && Math.abs(dr) + Math.abs(dc) <= 3) {
-                      const newRow = row + dr;
-                      const newCol = col + dc;
-
-                      // Check if within bounds
-                      if (newRow >= 0 && newRow < 35 && newCol >= 0 && newCol < 70) {
-                        // Check if cell is empty
-                        if (newGrid[newRow][newCol] === null) {
-                          // Check if there's a path to this cell (simplified: check if at least one intermediate cell is owned)
-                          const pathCells = [];
-                          const steps = Math.max(Math.abs(dr), Math.abs(dc));
-                          for (let step = 1; step <= steps; step++) {
-                            const pathRow = row + Math.round(dr * step / steps);
-                            const pathCol = col + Math.round(dc * step / steps);
-
-                            if (pathRow >= 0 && pathRow < 35 && pathCol >= 0 && pathCol < 70) {
-                              pathCells.push({row: pathRow, col: pathCol});
-                            }
-                          }
-
-                          // If at least one path cell is owned by this player, consider it a valid target
-                          const hasValidPath = pathCells.some(pathCell =>
-                            newGrid[pathCell.row][pathCell.col] === owner
-                          );
-
-                          if (hasValidPath) {
-                            distantEmptyCells.push({row: newRow, col: newCol});
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-
-                if (distantEmptyCells.length > 0) {
-                  const targetCell = distantEmptyCells[Math.floor(Math.random() * distantEmptyCells.length)];
-
-                  // Calculate expansion success chance based on stealth and infectivity
-                  const stealthFactor = stealth / 16;
-                  const infectivityFactor = infectivity / 16;
-
-                  const expansionChance = (stealthFactor + infectivityFactor) / 2;
-
-                  if (Math.random() < expansionChance) {
-                    expansionAttempts.push({
-                      from: { row, col },
-                      to: targetCell,
-                      player: owner
-                    });
-                    expansionEvents.push({
-                      from: { row, col },
-                      to: targetCell,
-                      player: owner
-                    });
-                  }
-                }
-              }
-              // Handle mobility-based directional growth
-              else if (mobility > 10) {
-                // If no preferred direction is set, choose one randomly
-                if (!player.preferredDirection) {
-                  const directions: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]];
-                  player.preferredDirection = directions[Math.floor(Math.random() * directions.length)];
-                }
-
-                // Get adjacent cells with preference for the preferred direction
-                const emptyCells = adjacentCells.filter(adj => newGrid[adj.row][adj.col] === null);
-
-                if (emptyCells.length > 0) {
-                  // Calculate expansion success chance based on reproduction, mobility and infectivity
-                  const reproductionFactor = reproduction / 16;
-                  const mobilityFactor = mobility / 16;
-                  const infectivityFactor = infectivity / 16;
-
-                  // Combined expansion chance
-                  const expansionChance = (reproductionFactor + mobilityFactor + infectivityFactor) / 3;
-
-                  if (Math.random() < expansionChance) {
-                    // Prefer cells in the preferred direction
-                    let targetCell;
-                    if (player.preferredDirection) {
-                      const preferredCells = emptyCells.filter(adj =>
-                        adj.row === row + player.preferredDirection![0] &&
-                        adj.col === col + player.preferredDirection![1]
-                      );
-
-                      if (preferredCells.length > 0 && Math.random() < 0.7) { // 70% chance to follow preferred direction
-                        targetCell = preferredCells[Math.floor(Math.random() * preferredCells.length)];
-                      } else {
-                        targetCell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-                      }
-                    } else {
-                      targetCell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-                    }
-
-                    expansionAttempts.push({
-                      from: { row, col },
-                      to: targetCell,
-                      player: owner
-                    });
-                    // Все визуальные эффекты отключены для улучшения производительности
-                    // // Removed expansion event to reduce visual clutter
-                    // expansionEvents.push({
-                    //   from: { row, col },
-                    //   to: targetCell,
-                    //   player: owner
-                    // });
-                  }
-                }
-              }
-              // Handle aggression-based explosive growth
-              else if (aggression > 12 && Math.random() < 0.2) { // 20% chance for explosive growth
-                // Try to capture 2-3 adjacent empty cells in one direction
-                if (emptyCells.length >= 2) {
-                  // Pick a random direction
-                  const directions: { [key: string]: { row: number; col: number }[] } = {};
-                  for (const cell of emptyCells) {
-                    const dr = cell.row - row;
-                    const dc = cell.col - col;
-                    const dirKey = `${dr},${dc}`;
-
-                    if (!directions[dirKey]) {
-                      directions[dirKey] = [];
-                    }
-                    directions[dirKey].push(cell);
-                  }
-
-                  const dirKeys = Object.keys(directions);
-                  if (dirKeys.length > 0) {
-                    const randomDirKey = dirKeys[Math.floor(Math.random() * dirKeys.length)];
-                    const cellsInDirection = directions[randomDirKey];
-
-                    // Try to capture up to 3 cells in this direction
-                    const maxCellsToCapture = Math.min(3, cellsInDirection.length);
-                    const cellsToCapture = cellsInDirection.slice(0, maxCellsToCapture);
-
-                    for (const cell of cellsToCapture) {
-                      if (newGrid[cell.row][cell.col] === null && Math.random() < 0.7) { // 70% success rate
-                        newGrid[cell.row][cell.col] = owner;
-
-
-                        // Все визуальные эффекты отключены для улучшения производительности
-                        // // Removed expansion event to reduce visual clutter
-                        // expansionEvents.push({
-                        //   from: { row, col },
-                        //   to: cell,
-                        //   player: owner
-                        // });
-                      }
-                    }
-                  }
-                }
-              }
-              // Standard expansion for other viruses
-              else {
-                // Calculate expansion success chance based on reproduction and mobility parameters
-                const reproductionFactor = reproduction / 16;
-                const mobilityFactor = mobility / 16;
-                const infectivityFactor = infectivity / 16;
-
-                // Combined expansion chance
-                const expansionChance = (reproductionFactor + mobilityFactor + infectivityFactor) / 3;
-
-                if (Math.random() < expansionChance) {
-                  // Select a random empty cell to expand to
-                  const targetCell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-
-                  expansionAttempts.push({
-                    from: { row, col },
-                    to: targetCell,
-                    player: owner
-                  });
-                  // Все визуальные эффекты отключены для улучшения производительности
-                  // // Removed expansion event to reduce visual clutter
-                  // expansionEvents.push({
-                  //   from: { row, col },
-                  //   to: targetCell,
-                  //   player: owner
-                  // });
-                }
-              }
-            }
-          }
-        }
+self.onmessage = function(e: MessageEvent<GridWorkerRequest>) {
+  const request = e.data;
+
+  // Any exception is reported back instead of leaving the main thread waiting for a result
+  try {
+    switch (request.type) {
+      case 'calculateNextState': {
+        const { grid, players, turn, settings, seed, rngState, terrain } = request;
+        postResponse({
+          type: 'calculationComplete',
+          ...calculateNextGameState(grid, players, turn, settings, seed, rngState, terrain)
+        });
+        break;
       }
+      case 'configure':
+        getAdjacencyTable(request.settings.gridSize.rows, request.settings.gridSize.cols, null, request.settings.topology);
+        break;
+      case 'reset':
+        clearAdjacencyCache();
+        break;
+      default:
+        throw new Error(`Unknown message type: ${(request as { type?: unknown }).type}`);
     }
+  } catch (error) {
+    postResponse({
+      type: 'error',
+      requestType: request?.type ?? 'unknown',
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
   }
-
-  // Execute standard expansion attempts (excluding those handled by special behaviors)
-  for (const attempt of expansionAttempts) {
-    // Only expand if the target cell is still empty
-    if (newGrid[attempt.to.row][attempt.to.col] === null) {
-      newGrid[attempt.to.row][attempt.to.col] = attempt.player;
-    }
-  }
-
-  // Cell age system has been removed for performance optimization
-  // The following code has been removed:
-  // // Increment age for all existing cells (aging every 5 turns instead of every 10)
-  // if (turn % 5 === 0) { // Only age cells every 5 turns
-  //   for (let row = 0; row < 35; row++) {
-  //     for (let col = 0; col < 70; col++) {
-  //       if (cellAge[row][col] !== -1) { // If cell exists (not empty)
-  //         cellAge[row][col]++;
-  //       }
-  //     }
-  //   }
-  // }
-
-  // Count territories for each player
-  const territoryCounts = [0, 0, 0, 0];
-  for (let row = 0; row < 35; row++) {
-    for (let col = 0; col < 70; col++) {
-      const owner = newGrid[row][col];
-      if (owner !== null && owner >= 0 && owner < 4) {
-        territoryCounts[owner]++;
-      }
-    }
-  }
-
-  return {
-    type: 'calculationComplete',
-    newGrid,
-    turn: turn + 1,
-    territoryCounts,
-    attackEvents,
-    expansionEvents,
-    parameterEvents,
-    interactionEvents
-  };
-}
-
-self.onmessage = function(e: MessageEvent<GridCalculationMessage>) {
-  const { type, grid, players, turn, settings } = e.data;
-
-  if (type === 'calculateNextState') {
-    const result = calculateNextGameState(grid, players, turn, settings);
-    self.postMessage(result);
-  }
-};
\ No newline at end of file
+};
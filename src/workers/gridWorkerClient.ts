@@ -0,0 +1,88 @@
+/**
+ * Grid Worker Client
+ *
+ * Клиент воркера сетки
+ *
+ * Thin wrapper around the grid calculation Web Worker used by the main thread.
+ * It owns the worker instance, speaks the typed protocol, keeps at most one
+ * calculation in flight, and turns worker exceptions (both reported errors and
+ * uncaught failures) into a single error callback.
+ *
+ * Тонкая обертка над веб-воркером расчета сетки для основного потока.
+ * Она владеет экземпляром воркера, использует типизированный протокол, держит
+ * не более одного расчета в процессе и сводит все ошибки воркера к одному
+ * обработчику.
+ */
+import { GameSettings } from '../types/game';
+import {
+  CalculateNextStateMessage,
+  CalculationCompleteMessage,
+  GridWorkerRequest,
+  GridWorkerResponse,
+  WorkerErrorMessage
+} from './protocol';
+
+export interface GridWorkerClientHandlers {
+  onResult: (result: CalculationCompleteMessage) => void;
+  onError: (error: WorkerErrorMessage) => void;
+}
+
+export interface GridWorkerClient {
+  // Returns false when a previous calculation is still running and the request was skipped
+  calculate: (request: Omit<CalculateNextStateMessage, 'type'>) => boolean;
+  configure: (settings: GameSettings) => void;
+  reset: () => void;
+  isBusy: () => boolean;
+  terminate: () => void;
+}
+
+export const createGridWorkerClient = (handlers: GridWorkerClientHandlers): GridWorkerClient => {
+  const worker = new Worker(new URL('./gridCalculationWorker.ts', import.meta.url), { type: 'module' });
+  let pending = false;
+  // Set when a reset arrives while a calculation is running: its result belongs to the old battle
+  let discardNextResponse = false;
+
+  const send = (request: GridWorkerRequest) => worker.postMessage(request);
+
+  worker.onmessage = (e: MessageEvent<GridWorkerResponse>) => {
+    const response = e.data;
+    if (discardNextResponse) {
+      discardNextResponse = false;
+      return;
+    }
+    switch (response.type) {
+      case 'calculationComplete':
+        pending = false;
+        handlers.onResult(response);
+        break;
+      case 'error':
+        pending = false;
+        handlers.onError(response);
+        break;
+    }
+  };
+
+  // Errors the worker could not catch itself (e.g. a failed module load)
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    pending = false;
+    handlers.onError({ type: 'error', requestType: 'unknown', message: e.message || 'Worker failed' });
+  };
+
+  return {
+    calculate: (request) => {
+      if (pending) return false;
+      pending = true;
+      send({ type: 'calculateNextState', ...request });
+      return true;
+    },
+    configure: (settings) => send({ type: 'configure', settings }),
+    reset: () => {
+      discardNextResponse = pending;
+      pending = false;
+      send({ type: 'reset' });
+    },
+    isBusy: () => pending,
+    terminate: () => worker.terminate()
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * Headless Task Worker Message Protocol
+ *
+ * Протокол сообщений воркеров безголовых задач
+ *
+ * Message types shared by the workers that run long headless-battle tasks,
+ * the build advisor and the parameter optimizer. Every task carries a
+ * request id; the worker streams progress while it runs and sends a single
+ * result or error at the end, tagged with the same id.
+ *
+ * Типы сообщений, общие для воркеров, выполняющих долгие задачи с
+ * безголовыми битвами, — советника по сборке и оптимизатора параметров.
+ * Каждая задача имеет идентификатор запроса; во время работы воркер сообщает
+ * о прогрессе, а в конце отправляет один результат или ошибку с тем же
+ * идентификатором.
+ */
+import { VirusParameters } from '../types/game';
+
+// The build a task works on and the builds it is played against
+export interface HeadlessTaskPayload<Options> {
+  build: VirusParameters;
+  opponents: VirusParameters[];
+  seed: number;
+  options?: Options;
+}
+
+// Main thread -> worker
+
+export interface RunTaskMessage<Payload> {
+  type: 'run';
+  requestId: number;
+  payload: Payload;
+}
+
+export type HeadlessTaskRequest<Payload> = RunTaskMessage<Payload>;
+
+// Worker -> main thread
+
+export interface TaskProgressMessage<Progress> {
+  type: 'progress';
+  requestId: number;
+  progress: Progress;
+}
+
+export interface TaskResultMessage<Result> {
+  type: 'result';
+  requestId: number;
+  result: Result;
+}
+
+export interface TaskErrorMessage {
+  type: 'error';
+  requestId: number;
+  message: string;
+}
+
+export type HeadlessTaskResponse<Progress, Result> =
+  | TaskProgressMessage<Progress>
+  | TaskResultMessage<Result>
+  | TaskErrorMessage;
@@ -0,0 +1,46 @@
+/**
+ * Headless Task Worker Runtime
+ *
+ * Среда выполнения воркеров безголовых задач
+ *
+ * Connects a task function to the worker's message channel: runs every task
+ * request, forwards its progress and posts the result, or the error it threw,
+ * under the request's id.
+ *
+ * Связывает функцию задачи с каналом сообщений воркера: выполняет каждый
+ * запрос задачи, передает ее прогресс и отправляет результат или
+ * выброшенную ошибку с идентификатором запроса.
+ */
+import { HeadlessTaskRequest, HeadlessTaskResponse } from './headlessTaskProtocol';
+
+export type HeadlessTask<Payload, Progress, Result> = (
+  payload: Payload,
+  onProgress: (progress: Progress) => void
+) => Result;
+
+export const serveHeadlessTask = <Payload, Progress, Result>(task: HeadlessTask<Payload, Progress, Result>) => {
+  const postResponse = (response: HeadlessTaskResponse<Progress, Result>) => {
+    self.postMessage(response);
+  };
+
+  self.onmessage = (e: MessageEvent<HeadlessTaskRequest<Payload>>) => {
+    const request = e.data;
+    const requestId = request.requestId;
+
+    try {
+      switch (request.type) {
+        case 'run': {
+          const result = task(request.payload, progress => {
+            postResponse({ type: 'progress', requestId, progress });
+          });
+          postResponse({ type: 'result', requestId, result });
+          break;
+        }
+        default:
+          throw new Error(`Unknown message type: ${(request as { type?: unknown }).type}`);
+      }
+    } catch (error) {
+      postResponse({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+};
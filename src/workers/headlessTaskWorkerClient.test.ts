@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HeadlessTaskRequest, HeadlessTaskResponse } from './headlessTaskProtocol';
+import { createHeadlessTaskWorkerClient } from './headlessTaskWorkerClient';
+
+// Stands in for a Web Worker: keeps the requests it got and lets the test answer them
+const createFakeWorker = () => {
+  const fake = {
+    requests: [] as HeadlessTaskRequest<string>[],
+    terminated: false,
+    onmessage: null as ((e: MessageEvent<HeadlessTaskResponse<number, string>>) => void) | null,
+    onerror: null as ((e: ErrorEvent) => void) | null,
+    postMessage(request: HeadlessTaskRequest<string>) {
+      fake.requests.push(request);
+    },
+    terminate() {
+      fake.terminated = true;
+    },
+    respond(response: HeadlessTaskResponse<number, string>) {
+      fake.onmessage?.({ data: response } as MessageEvent<HeadlessTaskResponse<number, string>>);
+    }
+  };
+  return fake;
+};
+
+const setup = () => {
+  const workers: ReturnType<typeof createFakeWorker>[] = [];
+  const handlers = { onProgress: vi.fn(), onResult: vi.fn(), onError: vi.fn() };
+  const client = createHeadlessTaskWorkerClient<string, number, string>(() => {
+    const worker = createFakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  }, handlers);
+  return { client, handlers, workers };
+};
+
+describe('createHeadlessTaskWorkerClient', () => {
+  it('forwards the progress and result of a task', () => {
+    const { client, handlers, workers } = setup();
+    client.run('task');
+    const { requestId } = workers[0].requests[0];
+
+    workers[0].respond({ type: 'progress', requestId, progress: 1 });
+    expect(client.isBusy()).toBe(true);
+    workers[0].respond({ type: 'result', requestId, result: 'done' });
+
+    expect(handlers.onProgress).toHaveBeenCalledWith(1);
+    expect(handlers.onResult).toHaveBeenCalledWith('done');
+    expect(client.isBusy()).toBe(false);
+  });
+
+  it('reuses an idle worker for the next task', () => {
+    const { client, workers } = setup();
+    client.run('first');
+    workers[0].respond({ type: 'result', requestId: workers[0].requests[0].requestId, result: 'done' });
+    client.run('second');
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].requests.map(request => request.payload)).toEqual(['first', 'second']);
+  });
+
+  it('terminates a running task that is replaced or cancelled', () => {
+    const { client, workers } = setup();
+    client.run('first');
+    client.run('second');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].requests[0].payload).toBe('second');
+
+    client.cancel();
+    expect(workers[1].terminated).toBe(true);
+    expect(client.isBusy()).toBe(false);
+  });
+
+  it('drops messages of a task that is no longer pending', () => {
+    const { client, handlers, workers } = setup();
+    client.run('first');
+    const { requestId } = workers[0].requests[0];
+    workers[0].respond({ type: 'result', requestId, result: 'done' });
+    workers[0].respond({ type: 'progress', requestId, progress: 2 });
+    workers[0].respond({ type: 'error', requestId, message: 'late' });
+
+    expect(handlers.onProgress).not.toHaveBeenCalled();
+    expect(handlers.onError).not.toHaveBeenCalled();
+  });
+
+  it('reports errors the worker sends', () => {
+    const { client, handlers, workers } = setup();
+    client.run('task');
+    workers[0].respond({ type: 'error', requestId: workers[0].requests[0].requestId, message: 'boom' });
+
+    expect(handlers.onError).toHaveBeenCalledWith('boom');
+    expect(client.isBusy()).toBe(false);
+  });
+});
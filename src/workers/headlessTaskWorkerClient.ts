@@ -0,0 +1,87 @@
+/**
+ * Headless Task Worker Client
+ *
+ * Клиент воркеров безголовых задач
+ *
+ * Starts tasks in a headless-task worker and forwards their progress and
+ * result. A task runs to completion inside the worker, so cancelling it
+ * terminates the worker; a new one is started with the next task. Messages
+ * of a task that was replaced or cancelled are dropped by their request id.
+ *
+ * Запускает задачи в воркере безголовых задач и передает их прогресс и
+ * результат. Задача выполняется в воркере до конца, поэтому отмена завершает
+ * воркер; следующая задача запускает новый. Сообщения замененной или
+ * отмененной задачи отбрасываются по идентификатору запроса.
+ */
+import { HeadlessTaskRequest, HeadlessTaskResponse } from './headlessTaskProtocol';
+
+export interface HeadlessTaskWorkerClientHandlers<Progress, Result> {
+  onProgress: (progress: Progress) => void;
+  onResult: (result: Result) => void;
+  onError: (message: string) => void;
+}
+
+export interface HeadlessTaskWorkerClient<Payload> {
+  run: (payload: Payload) => void;
+  cancel: () => void;
+  isBusy: () => boolean;
+}
+
+export const createHeadlessTaskWorkerClient = <Payload, Progress, Result>(
+  createWorker: () => Worker,
+  handlers: HeadlessTaskWorkerClientHandlers<Progress, Result>
+): HeadlessTaskWorkerClient<Payload> => {
+  let worker: Worker | null = null;
+  let pendingId: number | null = null;
+  let nextId = 1;
+
+  const stop = () => {
+    worker?.terminate();
+    worker = null;
+    pendingId = null;
+  };
+
+  const start = () => {
+    const instance = createWorker();
+
+    instance.onmessage = (e: MessageEvent<HeadlessTaskResponse<Progress, Result>>) => {
+      const response = e.data;
+      if (response.requestId !== pendingId) return;
+      switch (response.type) {
+        case 'progress':
+          handlers.onProgress(response.progress);
+          break;
+        case 'result':
+          pendingId = null;
+          handlers.onResult(response.result);
+          break;
+        case 'error':
+          pendingId = null;
+          handlers.onError(response.message);
+          break;
+      }
+    };
+
+    // Errors the worker could not catch itself (e.g. a failed module load)
+    instance.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      stop();
+      handlers.onError(e.message || 'Worker failed');
+    };
+
+    return instance;
+  };
+
+  return {
+    // A new task replaces one that is still running
+    run: (payload) => {
+      if (pendingId !== null) stop();
+      worker = worker ?? start();
+      pendingId = nextId++;
+      const request: HeadlessTaskRequest<Payload> = { type: 'run', requestId: pendingId, payload };
+      worker.postMessage(request);
+    },
+    cancel: stop,
+    isBusy: () => pendingId !== null
+  };
+};
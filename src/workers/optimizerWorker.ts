@@ -0,0 +1,18 @@
+/**
+ * Parameter Optimizer Web Worker
+ *
+ * Веб-воркер оптимизатора параметров
+ *
+ * Runs the optimizer's search off the main thread, reporting the best build
+ * found so far after every build it scores.
+ *
+ * Выполняет поиск оптимизатора вне основного потока и после оценки каждой
+ * сборки сообщает лучшую найденную на данный момент.
+ */
+import { OptimizerOptions, OptimizerProgress, OptimizerResult, runOptimizer } from '../engine/optimizer';
+import { HeadlessTaskPayload } from './headlessTaskProtocol';
+import { serveHeadlessTask } from './headlessTaskWorker';
+
+serveHeadlessTask<HeadlessTaskPayload<OptimizerOptions>, OptimizerProgress, OptimizerResult>(
+  ({ build, opponents, seed, options }, onProgress) => runOptimizer(build, opponents, seed, options, onProgress)
+);
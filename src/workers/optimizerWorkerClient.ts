@@ -0,0 +1,30 @@
+/**
+ * Optimizer Worker Client
+ *
+ * Клиент воркера оптимизатора
+ *
+ * Starts parameter searches in the optimizer worker through the shared
+ * headless-task client, which forwards their progress and result.
+ *
+ * Запускает поиск параметров в воркере оптимизатора через общий клиент
+ * безголовых задач, который передает его прогресс и результат.
+ */
+import { OptimizerOptions, OptimizerProgress, OptimizerResult } from '../engine/optimizer';
+import { HeadlessTaskPayload } from './headlessTaskProtocol';
+import {
+  HeadlessTaskWorkerClient,
+  HeadlessTaskWorkerClientHandlers,
+  createHeadlessTaskWorkerClient
+} from './headlessTaskWorkerClient';
+
+export type OptimizerTask = HeadlessTaskPayload<OptimizerOptions>;
+
+export type OptimizerWorkerClient = HeadlessTaskWorkerClient<OptimizerTask>;
+
+export const createOptimizerWorkerClient = (
+  handlers: HeadlessTaskWorkerClientHandlers<OptimizerProgress, OptimizerResult>
+): OptimizerWorkerClient =>
+  createHeadlessTaskWorkerClient<OptimizerTask, OptimizerProgress, OptimizerResult>(
+    () => new Worker(new URL('./optimizerWorker.ts', import.meta.url), { type: 'module' }),
+    handlers
+  );
@@ -0,0 +1,67 @@
+/**
+ * Grid Worker Message Protocol
+ *
+ * Протокол сообщений воркера сетки
+ *
+ * Message types exchanged between the main thread and the grid calculation
+ * worker. Both sides import these definitions, so a change in the payload is
+ * caught by the type checker on both ends.
+ *
+ * Типы сообщений, которыми обмениваются основной поток и воркер расчета сетки.
+ * Обе стороны импортируют эти определения, поэтому изменение формата сообщений
+ * проверяется компилятором с обеих сторон.
+ */
+import { Cell, GameSettings, Player, Terrain } from '../types/game';
+import { SimulationResult } from '../engine/simulation';
+
+// Event types are defined next to the simulation that produces them
+export type {
+  AttackEvent,
+  EliminationEvent,
+  ExpansionEvent,
+  GridPosition2D,
+  InteractionEvent,
+  MutationEvent,
+  ParameterEvent
+} from '../engine/simulation';
+
+// Main thread -> worker
+
+export interface CalculateNextStateMessage {
+  type: 'calculateNextState';
+  grid: Cell[][];
+  players: Player[];
+  turn: number;
+  settings: GameSettings;
+  seed: number; // Battle seed, echoed back for bookkeeping
+  rngState: number; // Generator state to continue from
+  terrain: Terrain | null; // Terrain layer, null for an open map
+}
+
+// Drops cached per-size data, sent when the game returns to setup
+export interface ResetMessage {
+  type: 'reset';
+}
+
+// Prepares the worker for the given settings (e.g. builds adjacency tables) before the first turn
+export interface ConfigureMessage {
+  type: 'configure';
+  settings: GameSettings;
+}
+
+export type GridWorkerRequest = CalculateNextStateMessage | ResetMessage | ConfigureMessage;
+
+// Worker -> main thread
+
+export interface CalculationCompleteMessage extends SimulationResult {
+  type: 'calculationComplete';
+}
+
+export interface WorkerErrorMessage {
+  type: 'error';
+  requestType: GridWorkerRequest['type'] | 'unknown';
+  message: string;
+  stack?: string;
+}
+
+export type GridWorkerResponse = CalculationCompleteMessage | WorkerErrorMessage;